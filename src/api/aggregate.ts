@@ -0,0 +1,119 @@
+/**
+ * Cross-Project Aggregation Module
+ *
+ * Fetches tasks from several projects (and the inbox) concurrently,
+ * reporting projects that could not be loaded instead of failing the whole call
+ */
+
+import { batchExecute } from '../utils/batch.js';
+import { listProjects, getProjectData } from './project.js';
+import { matchProject, isInboxReference, ProjectResolutionError } from './resolver.js';
+import type { CacheOptions } from './cache.js';
+import type { Project, ProjectData, Task } from './types.js';
+
+/**
+ * Project that could not be loaded
+ */
+export interface FailedProject {
+    projectId: string;
+    projectName?: string;
+    error: string;
+}
+
+/**
+ * Result of fetching tasks across projects
+ */
+export interface CrossProjectTasks {
+    /** Uncompleted tasks from all loaded projects, in project order */
+    tasks: Task[];
+    /** Names of projects that were loaded ("Inbox" for the inbox) */
+    projects: string[];
+    /** Projects that were requested but could not be loaded */
+    failedProjects: FailedProject[];
+    /** Project metadata from the project list, keyed by project ID */
+    projectsById: Map<string, Project>;
+}
+
+/**
+ * Fetch tasks from the given projects, or from all projects and the inbox
+ *
+ * @param projectIds - Project IDs or names to fetch ("inbox" for the inbox); omit for all projects + inbox
+ * @param options - Cache options (forceRefresh)
+ * @throws {Error} If the project list itself cannot be loaded
+ * @throws {ProjectResolutionError} If a project name is ambiguous
+ */
+export async function fetchTasksAcrossProjects(
+    projectIds?: string[],
+    options?: CacheOptions
+): Promise<CrossProjectTasks> {
+    const projects = await listProjects(options);
+    const projectsById = new Map(projects.map((p) => [p.id, p]));
+
+    // Filter projects if projectIds specified
+    let targetProjects = projects;
+    let includeInbox = false;
+    const failedProjects: FailedProject[] = [];
+
+    if (projectIds) {
+        const targetIds = new Set<string>();
+
+        for (const reference of projectIds) {
+            // Handle "inbox" special case
+            if (isInboxReference(reference)) {
+                includeInbox = true;
+                continue;
+            }
+
+            // Accept project names as well as IDs; report requested projects that do not exist
+            try {
+                targetIds.add(matchProject(reference, projects).id);
+            } catch (error) {
+                if (error instanceof ProjectResolutionError && error.candidates.length === 0) {
+                    failedProjects.push({ projectId: reference, error: 'Project not found' });
+                    continue;
+                }
+                throw error;
+            }
+        }
+
+        // Filter to only requested projects
+        targetProjects = projects.filter((p) => targetIds.has(p.id));
+    } else {
+        // When no projectIds specified, include inbox by default
+        includeInbox = true;
+    }
+
+    // Projects to fetch (inbox is fetched separately by its alias)
+    const fetchTargets: Array<{ id: string; name: string }> = targetProjects.map((p) => ({
+        id: p.id,
+        name: p.name,
+    }));
+    if (includeInbox) {
+        fetchTargets.push({ id: 'inbox', name: 'Inbox' });
+    }
+
+    // Fetch project data concurrently
+    const fetchResults = await batchExecute<{ id: string; name: string }, ProjectData>(
+        fetchTargets,
+        (target) => getProjectData(target.id, options)
+    );
+
+    // Collect tasks from all target projects (in project order)
+    const tasks: Task[] = [];
+    const projectNames: string[] = [];
+
+    for (const result of fetchResults) {
+        if (result.success) {
+            tasks.push(...result.result!.tasks);
+            projectNames.push(result.input.name);
+        } else {
+            failedProjects.push({
+                projectId: result.input.id,
+                projectName: result.input.name,
+                error: result.error || 'Unknown error',
+            });
+        }
+    }
+
+    return { tasks, projects: projectNames, failedProjects, projectsById };
+}
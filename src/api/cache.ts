@@ -0,0 +1,189 @@
+/**
+ * API Cache Module
+ *
+ * Read-through cache for projects and project data with TTL and size limits.
+ * Mutating API functions invalidate the affected entries.
+ */
+
+import { APP_CONFIG } from '../config.js';
+
+/**
+ * Options for read operations that can use the cache
+ */
+export interface CacheOptions {
+    /** Bypass the cache and fetch fresh data (the fresh result is still cached) */
+    forceRefresh?: boolean;
+}
+
+/**
+ * Cache entry
+ */
+interface CacheEntry<V> {
+    value: V;
+    expiresAt: number;
+}
+
+/**
+ * TTL cache with least-recently-used eviction
+ *
+ * Values are cloned on read and write so callers can never mutate cached data.
+ */
+export class TtlCache<V = unknown> {
+    private entries = new Map<string, CacheEntry<V>>();
+    private ttlMs: number;
+    private maxEntries: number;
+
+    /**
+     * @param {number} ttlMs - Time to live per entry (0 disables caching)
+     * @param {number} maxEntries - Maximum number of entries before evicting the least recently used
+     */
+    constructor(ttlMs: number, maxEntries: number) {
+        this.ttlMs = ttlMs;
+        this.maxEntries = Math.max(1, maxEntries);
+    }
+
+    /**
+     * Check if caching is enabled
+     */
+    isEnabled(): boolean {
+        return this.ttlMs > 0;
+    }
+
+    /**
+     * Get a cached value, or undefined if missing or expired
+     */
+    get(key: string): V | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+
+        if (Date.now() >= entry.expiresAt) {
+            this.entries.delete(key);
+            return undefined;
+        }
+
+        // Move to the end (most recently used)
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return structuredClone(entry.value);
+    }
+
+    /**
+     * Store a value
+     */
+    set(key: string, value: V): void {
+        if (!this.isEnabled()) {
+            return;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, {
+            value: structuredClone(value),
+            expiresAt: Date.now() + this.ttlMs,
+        });
+
+        // Evict least recently used entries
+        while (this.entries.size > this.maxEntries) {
+            const oldestKey = this.entries.keys().next().value as string;
+            this.entries.delete(oldestKey);
+        }
+    }
+
+    /**
+     * Remove an entry
+     */
+    delete(key: string): void {
+        this.entries.delete(key);
+    }
+
+    /**
+     * Remove all entries
+     */
+    clear(): void {
+        this.entries.clear();
+    }
+
+    /**
+     * Get number of stored entries (including expired ones not yet evicted)
+     */
+    size(): number {
+        return this.entries.size;
+    }
+}
+
+/**
+ * Shared cache for API responses
+ */
+const apiCache = new TtlCache(APP_CONFIG.API.CACHE.TTL_MS, APP_CONFIG.API.CACHE.MAX_ENTRIES);
+
+/**
+ * Cache keys
+ */
+export const CacheKeys = {
+    projects: () => 'projects',
+    project: (projectId: string) => `project:${projectId}`,
+    projectData: (projectId: string) => `project-data:${projectId}`,
+};
+
+/**
+ * Read through the cache: return a cached value or load and store it
+ *
+ * @param {string} key - Cache key
+ * @param {() => Promise<V>} loader - Loads the value on cache miss
+ * @param {CacheOptions} options - Cache options (forceRefresh)
+ */
+export async function readThrough<V>(key: string, loader: () => Promise<V>, options?: CacheOptions): Promise<V> {
+    if (!options?.forceRefresh) {
+        const cached = apiCache.get(key) as V | undefined;
+        if (cached !== undefined) {
+            return cached;
+        }
+    }
+
+    const value = await loader();
+    apiCache.set(key, value);
+    return value;
+}
+
+/**
+ * Invalidate the project list
+ */
+export function invalidateProjects(): void {
+    apiCache.delete(CacheKeys.projects());
+}
+
+/**
+ * Invalidate a project's metadata and data (tasks)
+ *
+ * Inbox tasks report a projectId like "inbox1023997016" while the data is
+ * fetched through the "inbox" alias, so both keys are invalidated.
+ */
+export function invalidateProject(projectId: string): void {
+    const ids = new Set([projectId]);
+    if (projectId.toLowerCase().startsWith('inbox')) {
+        ids.add('inbox');
+    }
+
+    for (const id of ids) {
+        apiCache.delete(CacheKeys.project(id));
+        apiCache.delete(CacheKeys.projectData(id));
+    }
+}
+
+/**
+ * Invalidate a project's data (tasks) only
+ */
+export function invalidateProjectData(projectId: string): void {
+    apiCache.delete(CacheKeys.projectData(projectId));
+    if (projectId.toLowerCase().startsWith('inbox')) {
+        apiCache.delete(CacheKeys.projectData('inbox'));
+    }
+}
+
+/**
+ * Clear the entire cache (e.g. when the authorized account changes)
+ */
+export function clearApiCache(): void {
+    apiCache.clear();
+}
@@ -6,4 +6,8 @@
 
 export * from './types.js';
 export * from './project.js';
-export * from './task.js';
\ No newline at end of file
+export * from './task.js';
+export * from './cache.js';
+export * from './aggregate.js';
+export * from './resolver.js';
+export * from './query.js';
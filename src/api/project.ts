@@ -7,21 +7,41 @@
 import httpClient from '../utils/http.js';
 import { ApiResponseEmptyError } from '../utils/http.js';
 import { Project, ProjectData, CreateProjectRequest, UpdateProjectRequest } from './types.js';
+import { CacheKeys, readThrough, invalidateProjects, invalidateProject, type CacheOptions } from './cache.js';
 
 const BASE_URL = '/open/v1/project';
 
 /**
  * Get all projects for the user
  */
-export async function listProjects(): Promise<Project[]> {
-    const response = await httpClient.get<Project[]>(BASE_URL);
-    return response.data;
+export async function listProjects(options?: CacheOptions): Promise<Project[]> {
+    return readThrough(CacheKeys.projects(), async () => {
+        const response = await httpClient.get<Project[]>(BASE_URL);
+        return response.data;
+    }, options);
+}
+
+/**
+ * Check whether a project still exists
+ *
+ * @throws {Error} If the project list cannot be fetched
+ */
+export async function projectExists(projectId: string): Promise<boolean> {
+    const projects = await listProjects({ forceRefresh: true });
+    return projects.some((project) => project.id === projectId);
 }
 
 /**
  * Get project by ID
  */
-export async function getProject(projectId: string): Promise<Project> {
+export async function getProject(projectId: string, options?: CacheOptions): Promise<Project> {
+    return readThrough(CacheKeys.project(projectId), () => fetchProject(projectId), options);
+}
+
+/**
+ * Fetch project by ID from the API
+ */
+async function fetchProject(projectId: string): Promise<Project> {
     try {
         const response = await httpClient.get<Project>(`${BASE_URL}/${projectId}`);
         if (Object.keys(response).length === 0) {
@@ -39,7 +59,14 @@ export async function getProject(projectId: string): Promise<Project> {
 /**
  * Get project with all data (tasks and columns)
  */
-export async function getProjectData(projectId: string): Promise<ProjectData> {
+export async function getProjectData(projectId: string, options?: CacheOptions): Promise<ProjectData> {
+    return readThrough(CacheKeys.projectData(projectId), () => fetchProjectData(projectId), options);
+}
+
+/**
+ * Fetch project with all data from the API
+ */
+async function fetchProjectData(projectId: string): Promise<ProjectData> {
     try {
         const response = await httpClient.get<ProjectData>(`${BASE_URL}/${projectId}/data`);
         if (Object.keys(response.data).length === 0) {
@@ -58,8 +85,12 @@ export async function getProjectData(projectId: string): Promise<ProjectData> {
  * Create a new project
  */
 export async function createProject(data: CreateProjectRequest): Promise<Project> {
-    const response = await httpClient.post<Project>(BASE_URL, data);
-    return response.data;
+    try {
+        const response = await httpClient.post<Project>(BASE_URL, data);
+        return response.data;
+    } finally {
+        invalidateProjects();
+    }
 }
 
 /**
@@ -67,13 +98,17 @@ export async function createProject(data: CreateProjectRequest): Promise<Project
  */
 export async function updateProject(projectId: string, data: UpdateProjectRequest): Promise<Project> {
     try {
-        const response = await httpClient.post<Project>(`${BASE_URL}/${projectId}`, data);
+        // Updating overwrites project fields, so repeating the request is safe
+        const response = await httpClient.post<Project>(`${BASE_URL}/${projectId}`, data, { idempotent: true });
         return response.data;
     } catch (error) {
         if (error instanceof ApiResponseEmptyError) {
             throw new Error(`Project with ID ${projectId} not found`);
         }
         throw error;
+    } finally {
+        invalidateProjects();
+        invalidateProject(projectId);
     }
 }
 
@@ -89,5 +124,8 @@ export async function deleteProject(projectId: string): Promise<void> {
             return;
         }
         throw error;
+    } finally {
+        invalidateProjects();
+        invalidateProject(projectId);
     }
 }
\ No newline at end of file
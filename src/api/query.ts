@@ -0,0 +1,62 @@
+/**
+ * Task Query Module
+ *
+ * Loads tasks across projects and selects them with a TaskQuery (filters,
+ * recurring projections and sorting), for list_tasks and smart lists
+ */
+
+import { fetchTasksAcrossProjects, type FailedProject } from './aggregate.js';
+import type { CacheOptions } from './cache.js';
+import type { Task } from './types.js';
+import {
+    filterTasks,
+    hasFilterCriteria,
+    projectRecurringTasks,
+    resolveTaskQuery,
+    sortTasks,
+    type ResolvedTaskQuery,
+    type TaskQuery,
+} from '../utils/task-filter.js';
+
+/**
+ * Result of running a task query
+ */
+export interface TaskQueryResult {
+    /** Matching tasks (and projections), sorted, without a limit */
+    tasks: Task[];
+    /** Number of projected recurring occurrences among tasks */
+    projections: number;
+    /** True if any filter criterion was set */
+    filtered: boolean;
+    /** Names of projects that were loaded */
+    projects: string[];
+    failedProjects: FailedProject[];
+    resolved: ResolvedTaskQuery;
+}
+
+/**
+ * Run a task query
+ *
+ * Date bounds are resolved before any data is loaded, so invalid queries
+ * fail without API calls.
+ *
+ * @throws {Error} If the query is invalid or the project list cannot be loaded
+ */
+export async function queryTasks(query: TaskQuery, options?: CacheOptions): Promise<TaskQueryResult> {
+    const resolved = resolveTaskQuery(query);
+
+    // Fetch tasks from target projects (all projects + inbox if omitted)
+    const { tasks, projects, failedProjects } = await fetchTasksAcrossProjects(resolved.projectIds, options);
+
+    const projected = resolved.projectUntil ? projectRecurringTasks(tasks, resolved.projectUntil) : [];
+    const filtered = filterTasks([...tasks, ...projected], resolved.filter);
+
+    return {
+        tasks: sortTasks(filtered, resolved.sortBy, resolved.sortOrder),
+        projections: filtered.filter((task) => 'isProjection' in task).length,
+        filtered: hasFilterCriteria(resolved.filter),
+        projects,
+        failedProjects,
+        resolved,
+    };
+}
@@ -0,0 +1,203 @@
+/**
+ * Project Resolver Module
+ *
+ * Resolves a project reference (ID, name, unique name prefix or approximate
+ * name) to a project ID, so tools can accept "工作清单" instead of an opaque ID.
+ */
+
+import { scoreTextMatch } from '../utils/search.js';
+import { listProjects } from './project.js';
+import type { CacheOptions } from './cache.js';
+import type { Project } from './types.js';
+
+/**
+ * TickTick project IDs are 24-character hex strings
+ */
+const PROJECT_ID_REGEX = /^[0-9a-f]{24}$/i;
+
+/**
+ * Inbox IDs returned by the API, e.g. "inbox1023997016"
+ */
+const INBOX_ID_REGEX = /^inbox\d*$/i;
+
+/**
+ * Names that refer to the inbox
+ */
+const INBOX_NAMES = new Set(['inbox', '收集箱', '收件箱']);
+
+/**
+ * Generic words users append to project names ("工作清单" for "工作", "Work list" for "Work")
+ */
+const NAME_SUFFIX_REGEX = /(清单|列表|项目|list|project)$/;
+
+/**
+ * How loosely a project name may match
+ *
+ * - fuzzy: any step of matchProject (default)
+ * - prefix: no approximate matches, but suffix-less names and unique prefixes
+ * - exact: only a project ID or the exact name, for deletions
+ */
+export type ProjectMatchMode = 'fuzzy' | 'prefix' | 'exact';
+
+/**
+ * Options for resolving project references
+ */
+export interface ResolveOptions extends CacheOptions {
+    /** How loosely names may match (default "fuzzy"); use "exact" for destructive operations */
+    match?: ProjectMatchMode;
+}
+
+/**
+ * Error thrown when a project reference matches no project or several projects
+ */
+export class ProjectResolutionError extends Error {
+    public query: string;
+    public candidates: Project[];
+
+    constructor(query: string, candidates: Project[], message: string) {
+        super(message);
+        this.name = 'ProjectResolutionError';
+        this.query = query;
+        this.candidates = candidates;
+    }
+}
+
+/**
+ * Normalize a name for comparison: width/case-folded, without spaces, punctuation or emoji
+ */
+function normalizeName(name: string): string {
+    return name.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Normalized name without a trailing generic word like "清单" or "list"
+ */
+function stripNameSuffix(normalized: string): string {
+    const stripped = normalized.replace(NAME_SUFFIX_REGEX, '');
+    return stripped || normalized;
+}
+
+/**
+ * Build the error for a reference matching several projects
+ */
+function ambiguousError(query: string, candidates: Project[]): ProjectResolutionError {
+    const list = candidates.map((p) => `"${p.name}" (id: ${p.id})`).join(', ');
+    return new ProjectResolutionError(
+        query,
+        candidates,
+        `Project "${query}" is ambiguous, it matches ${candidates.length} projects: ${list}. Use a more specific name or the project ID.`
+    );
+}
+
+/**
+ * Pick the single candidate or throw an ambiguity error
+ */
+function pickUnique(query: string, candidates: Project[]): Project | null {
+    if (candidates.length === 1) {
+        return candidates[0];
+    }
+    if (candidates.length > 1) {
+        throw ambiguousError(query, candidates);
+    }
+    return null;
+}
+
+/**
+ * Check if a reference points to the inbox ("inbox", "inbox1023997016", "收集箱")
+ */
+export function isInboxReference(reference: string): boolean {
+    const trimmed = reference.trim();
+    return INBOX_ID_REGEX.test(trimmed) || INBOX_NAMES.has(normalizeName(trimmed));
+}
+
+/**
+ * Find the project a reference points to
+ *
+ * Tried in order, stopping at the first step with any match:
+ * 1. Exact project ID
+ * 2. Exact name (ignoring case, spaces, punctuation and emoji)
+ * 3. Name without a generic suffix ("工作清单" → "工作"), unless mode is "exact"
+ * 4. Unique name prefix, unless mode is "exact"
+ * 5. Fuzzy name match (typos in English, partial matches in Chinese), only in mode "fuzzy"
+ *
+ * @param query - Project ID or name
+ * @param projects - Projects to match against
+ * @param mode - How loosely the name may match (default "fuzzy")
+ * @throws {ProjectResolutionError} If no project or more than one project matches
+ */
+export function matchProject(query: string, projects: Project[], mode: ProjectMatchMode = 'fuzzy'): Project {
+    const trimmed = query.trim();
+
+    const byId = projects.find((p) => p.id === trimmed);
+    if (byId) {
+        return byId;
+    }
+
+    const normalizedQuery = normalizeName(trimmed);
+    const named = projects.map((p) => ({ project: p, name: normalizeName(p.name) }));
+
+    if (normalizedQuery) {
+        const exact = pickUnique(trimmed, named.filter((n) => n.name === normalizedQuery).map((n) => n.project));
+        if (exact) return exact;
+    }
+
+    if (normalizedQuery && mode !== 'exact') {
+        const strippedQuery = stripNameSuffix(normalizedQuery);
+        const stripped = pickUnique(
+            trimmed,
+            named.filter((n) => stripNameSuffix(n.name) === strippedQuery).map((n) => n.project)
+        );
+        if (stripped) return stripped;
+
+        const prefixed = pickUnique(
+            trimmed,
+            named.filter((n) => n.name.startsWith(normalizedQuery)).map((n) => n.project)
+        );
+        if (prefixed) return prefixed;
+    }
+
+    if (normalizedQuery && mode === 'fuzzy') {
+        // Fuzzy match on the original names (keeping word boundaries); keep only the best-scoring projects
+        const fuzzyQuery = stripNameSuffix(trimmed.toLowerCase()).trim();
+        const scored = projects
+            .map((p) => ({ project: p, score: scoreTextMatch(fuzzyQuery, p.name) }))
+            .filter((s) => s.score > 0);
+        const bestScore = Math.max(0, ...scored.map((s) => s.score));
+        const approximate = pickUnique(
+            trimmed,
+            scored.filter((s) => s.score === bestScore).map((s) => s.project)
+        );
+        if (approximate) return approximate;
+    }
+
+    throw new ProjectResolutionError(
+        trimmed,
+        [],
+        `No project matches "${trimmed}". Use 'list_projects' to see available projects.`
+    );
+}
+
+/**
+ * Resolve a project ID or name to a project ID
+ *
+ * Project IDs and inbox references ("inbox", "inbox1023997016", "收集箱") are
+ * returned without loading the project list; names are matched with matchProject.
+ *
+ * @param projectIdOrName - Project ID, "inbox", or project name / unique prefix
+ * @param options - Cache options used when loading the project list, and how loosely names may match
+ * @returns The project ID ("inbox" for the inbox)
+ * @throws {ProjectResolutionError} If the name matches no project or several projects
+ */
+export async function resolveProjectId(projectIdOrName: string, options?: ResolveOptions): Promise<string> {
+    const trimmed = projectIdOrName.trim();
+
+    if (isInboxReference(trimmed)) {
+        return INBOX_ID_REGEX.test(trimmed) && trimmed.toLowerCase() !== 'inbox' ? trimmed : 'inbox';
+    }
+    if (PROJECT_ID_REGEX.test(trimmed)) {
+        return trimmed;
+    }
+
+    const projects = await listProjects(options);
+    return matchProject(trimmed, projects, options?.match).id;
+}
@@ -6,7 +6,8 @@
 
 import httpClient from '../utils/http.js';
 import { ApiError, ApiResponseEmptyError } from '../utils/http.js';
-import { Task, CreateTaskRequest, UpdateTaskRequest } from './types.js';
+import { Task, CreateTaskRequest, UpdateTaskRequest, MoveTaskResult } from './types.js';
+import { invalidateProjectData } from './cache.js';
 
 const BASE_URL = '/open/v1';
 
@@ -29,12 +30,43 @@ export async function getTask(projectId: string, taskId: string): Promise<Task>
     }
 }
 
+/**
+ * Check whether a task still exists
+ *
+ * A retried DELETE reports "not found" when an earlier attempt already went
+ * through, so callers check this before treating a failed delete as a failure.
+ *
+ * @throws {Error} If the check itself fails (e.g. network error)
+ */
+export async function taskExists(projectId: string, taskId: string): Promise<boolean> {
+    try {
+        await httpClient.get<Task>(`${BASE_URL}/project/${projectId}/task/${taskId}`);
+        return true;
+    } catch (error) {
+        if (error instanceof ApiResponseEmptyError) {
+            return false;
+        }
+        if (error instanceof ApiError && (error.status === 500 || error.status === 404)) {
+            return false;
+        }
+        throw error;
+    }
+}
+
 /**
  * Create a new task
  */
 export async function createTask(data: CreateTaskRequest): Promise<Task> {
-    const response = await httpClient.post<Task>(`${BASE_URL}/task`, data);
-    return response.data;
+    try {
+        const response = await httpClient.post<Task>(`${BASE_URL}/task`, data);
+        // Inbox tasks are created via "inbox" but returned with the real inbox ID
+        if (response.data?.projectId) {
+            invalidateProjectData(response.data.projectId);
+        }
+        return response.data;
+    } finally {
+        invalidateProjectData(data.projectId);
+    }
 }
 
 /**
@@ -42,7 +74,8 @@ export async function createTask(data: CreateTaskRequest): Promise<Task> {
  */
 export async function updateTask(taskId: string, data: UpdateTaskRequest): Promise<Task> {
     try {
-        const response = await httpClient.post<Task>(`${BASE_URL}/task/${taskId}`, data);
+        // Updating overwrites task fields, so repeating the request is safe
+        const response = await httpClient.post<Task>(`${BASE_URL}/task/${taskId}`, data, { idempotent: true });
         return response.data;
     } catch (error) {
         // Empty response indicates that the ProjectId exists, but the task does not exist, update failed.
@@ -54,6 +87,8 @@ export async function updateTask(taskId: string, data: UpdateTaskRequest): Promi
             throw new Error(`Task with ID ${taskId} not found. Update failed.`);
         }
         throw error;
+    } finally {
+        invalidateProjectData(data.projectId);
     }
 }
 
@@ -62,7 +97,8 @@ export async function updateTask(taskId: string, data: UpdateTaskRequest): Promi
  */
 export async function completeTask(projectId: string, taskId: string): Promise<void> {
     try {
-        const response = await httpClient.post(`${BASE_URL}/project/${projectId}/task/${taskId}/complete`);
+        // Completing an already completed task is a no-op, so repeating the request is safe
+        const response = await httpClient.post(`${BASE_URL}/project/${projectId}/task/${taskId}/complete`, undefined, { idempotent: true });
         return response.data;
     } catch (error) {
         if (error instanceof ApiResponseEmptyError) {
@@ -73,6 +109,8 @@ export async function completeTask(projectId: string, taskId: string): Promise<v
             throw new Error(`Task with ID ${taskId} not found. Complete failed.`);
         }
         throw error;
+    } finally {
+        invalidateProjectData(projectId);
     }
 }
 
@@ -92,5 +130,101 @@ export async function deleteTask(projectId: string, taskId: string): Promise<voi
             throw new Error(`Task with ID ${taskId} not found. Delete failed.`);
         }
         throw error;
+    } finally {
+        invalidateProjectData(projectId);
+    }
+}
+
+/**
+ * Build a create request that copies a task into a project
+ *
+ * Used both to move tasks and to restore them from the trash, so a copy keeps
+ * the same fields either way. Completion is not part of the request; callers
+ * complete the copy afterwards if needed.
+ */
+export function buildCopyRequest(task: Task, projectId: string): CreateTaskRequest {
+    return {
+        title: task.title,
+        projectId,
+        ...(task.content !== undefined && { content: task.content }),
+        ...(task.desc !== undefined && { desc: task.desc }),
+        ...(task.isAllDay !== undefined && { isAllDay: task.isAllDay }),
+        ...(task.startDate && { startDate: task.startDate }),
+        ...(task.dueDate && { dueDate: task.dueDate }),
+        ...(task.timeZone && { timeZone: task.timeZone }),
+        ...(task.reminders && task.reminders.length > 0 && { reminders: task.reminders }),
+        ...(task.repeatFlag && { repeatFlag: task.repeatFlag }),
+        ...(task.priority !== undefined && { priority: task.priority }),
+        ...(task.sortOrder !== undefined && { sortOrder: task.sortOrder }),
+        ...(task.kind && { kind: task.kind }),
+        ...(task.tags && task.tags.length > 0 && { tags: task.tags }),
+        // Checklist items get new IDs in the copy; their completion status is kept
+        ...(task.items && task.items.length > 0 && {
+            items: task.items.map(({ id: _id, completedTime: _completedTime, ...item }) => item),
+        }),
+    };
+}
+
+/**
+ * Move a task to another project (or the inbox)
+ *
+ * The Open API cannot change a task's project, so the task is copied into the
+ * target project and then deleted from the source. If a step fails after the
+ * copy was created and the source task still exists, the copy is deleted again
+ * so the task stays where it was. If the source is already gone (a retried
+ * delete that went through the first time), the copy is kept.
+ *
+ * @throws {Error} If the move fails; the message says whether it was rolled back
+ */
+export async function moveTask(fromProjectId: string, taskId: string, toProjectId: string): Promise<MoveTaskResult> {
+    const source = await getTask(fromProjectId, taskId);
+    const alreadyInInbox = toProjectId === 'inbox' && source.projectId.startsWith('inbox');
+    if (source.projectId === toProjectId || alreadyInInbox) {
+        throw new Error(`Task ${taskId} is already in project ${toProjectId}.`);
     }
-}
\ No newline at end of file
+
+    const copy = await createTask(buildCopyRequest(source, toProjectId));
+
+    try {
+        // Completed tasks stay completed
+        if (source.status === 2) {
+            await completeTask(copy.projectId, copy.id);
+        }
+        await deleteTask(source.projectId, source.id);
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+
+        let sourceExists: boolean;
+        try {
+            sourceExists = await taskExists(source.projectId, source.id);
+        } catch (checkError) {
+            const checkReason = checkError instanceof Error ? checkError.message : String(checkError);
+            throw new Error(
+                `Move failed: ${reason}. Could not check whether task ${taskId} is still in project ${source.projectId} ` +
+                `(${checkReason}), so the copy was kept: task ${copy.id} in project ${copy.projectId} may be a duplicate.`
+            );
+        }
+
+        if (sourceExists) {
+            try {
+                await deleteTask(copy.projectId, copy.id);
+            } catch (rollbackError) {
+                const rollbackReason = rollbackError instanceof Error ? rollbackError.message : String(rollbackError);
+                throw new Error(
+                    `Move failed: ${reason}. Rollback also failed (${rollbackReason}): ` +
+                    `task ${copy.id} in project ${copy.projectId} is a duplicate of task ${taskId} and should be deleted.`
+                );
+            }
+            throw new Error(`Move failed and was rolled back (task ${taskId} was not moved): ${reason}`);
+        }
+        // The source was deleted after all, so the move went through
+    }
+
+    return {
+        id: copy.id,
+        projectId: copy.projectId,
+        previousId: source.id,
+        previousProjectId: source.projectId,
+        title: copy.title,
+    };
+}
@@ -114,6 +114,8 @@ export interface CreateTaskRequest {
     priority?: number;
     sortOrder?: number;
     items?: ChecklistItem[];
+    kind?: string; // "TEXT", "NOTE", "CHECKLIST"
+    tags?: string[];
 }
 
 /**
@@ -134,4 +136,18 @@ export interface UpdateTaskRequest {
     priority?: number;
     sortOrder?: number;
     items?: ChecklistItem[];
-}
\ No newline at end of file
+    status?: number; // 0=Normal (reopens a completed task)
+}
+
+/**
+ * Result of moving a task to another project
+ *
+ * The Open API has no move endpoint, so a moved task is a new task with a new ID.
+ */
+export interface MoveTaskResult {
+    id: string;
+    projectId: string;
+    previousId: string;
+    previousProjectId: string;
+    title: string;
+}
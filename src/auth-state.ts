@@ -69,10 +69,12 @@ export class AuthStateManager {
 
     /**
      * Set to expired
+     * 
+     * @param {string} reason - Why the token could not be renewed (e.g. refresh failure)
      */
-    setExpired(): void {
+    setExpired(reason?: string): void {
         this.currentState = AuthState.EXPIRED;
-        this.lastError = 'Token expired';
+        this.lastError = reason || 'Token expired';
         console.error('Auth state: EXPIRED');
     }
 
@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { getSystemTimeZone, isValidTimeZone } from './utils/timezone.js';
 
 /**
  * Load environment variables from .env file (development only)
@@ -57,12 +58,88 @@ export interface OAuth2Config {
     tokenEndpoint: string;
 }
 
+/**
+ * MCP transport mode
+ * - stdio: Single client connected through stdin/stdout (default)
+ * - http: Streamable HTTP server shared by multiple clients
+ */
+export type TransportMode = 'stdio' | 'http';
+
+/**
+ * Transport configuration
+ */
+export interface TransportConfig {
+    mode: TransportMode;
+    host: string;
+    port: number;
+}
+
+/**
+ * Default bind address and port for the Streamable HTTP transport
+ */
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 8522;
+
 /**
  * Read-only mode configuration
  * Parsed from command line arguments
  */
 let isReadOnlyMode = false;
 
+/**
+ * Dry-run mode configuration
+ * Parsed from command line arguments
+ */
+let isDryRunMode = false;
+
+/**
+ * Tool policy file path
+ * Parsed from command line arguments, falling back to environment variables
+ */
+let policyFilePath: string | undefined;
+
+/**
+ * Transport configuration
+ * Parsed from command line arguments, falling back to environment variables
+ */
+let transportConfig: TransportConfig = {
+    mode: 'stdio',
+    host: DEFAULT_HTTP_HOST,
+    port: DEFAULT_HTTP_PORT,
+};
+
+/**
+ * Get the value of a command line option
+ * Supports both "--name value" and "--name=value" forms
+ */
+function getArgValue(args: string[], name: string): string | undefined {
+    const prefix = `${name}=`;
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === name && i + 1 < args.length) {
+            return args[i + 1];
+        }
+        if (args[i].startsWith(prefix)) {
+            return args[i].slice(prefix.length);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Parse a TCP port number, returning undefined if invalid
+ */
+function parsePort(value: string | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const port = Number(value.trim());
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        console.error(`Warning: Invalid port "${value}", using default ${DEFAULT_HTTP_PORT}`);
+        return undefined;
+    }
+    return port;
+}
+
 /**
  * Parse command line arguments
  */
@@ -72,6 +149,23 @@ function parseCommandLineArgs(): void {
         isReadOnlyMode = true;
         console.error('⚠️  Read-Only Mode Enabled - All write/delete operations are disabled');
     }
+    if (args.includes('--dry-run')) {
+        isDryRunMode = true;
+        console.error('⚠️  Dry-Run Mode Enabled - Write tools only preview their changes');
+    }
+
+    // Tool policy: --policy <path>, or DIDA365_POLICY_FILE
+    policyFilePath = (getArgValue(args, '--policy') ?? process.env.DIDA365_POLICY_FILE)?.trim() || undefined;
+
+    // Transport: --http / --transport <mode>, or DIDA365_TRANSPORT
+    const transport = (getArgValue(args, '--transport') ?? process.env.DIDA365_TRANSPORT)?.toLowerCase().trim();
+    const mode: TransportMode = args.includes('--http') || transport === 'http' ? 'http' : 'stdio';
+
+    transportConfig = {
+        mode,
+        host: (getArgValue(args, '--host') ?? process.env.DIDA365_HTTP_HOST)?.trim() || DEFAULT_HTTP_HOST,
+        port: parsePort(getArgValue(args, '--port') ?? process.env.DIDA365_HTTP_PORT) ?? DEFAULT_HTTP_PORT,
+    };
 }
 
 // Parse args on module load
@@ -84,6 +178,27 @@ export function isReadOnly(): boolean {
     return isReadOnlyMode;
 }
 
+/**
+ * Check if server is running in dry-run mode (write tools preview instead of writing)
+ */
+export function isDryRun(): boolean {
+    return isDryRunMode;
+}
+
+/**
+ * Get the tool policy file path, if one was given
+ */
+export function getPolicyFile(): string | undefined {
+    return policyFilePath;
+}
+
+/**
+ * Get transport configuration (mode, bind address and port)
+ */
+export function getTransportConfig(): TransportConfig {
+    return transportConfig;
+}
+
 /**
  * Get region from environment variable
  */
@@ -119,6 +234,59 @@ function getApiBaseUrl(region: 'china' | 'international'): string {
     return region === 'international' ? 'https://api.ticktick.com' : 'https://api.dida365.com';
 }
 
+/**
+ * Parse a non-negative number from an environment variable
+ */
+function getNumberEnv(name: string, defaultValue: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === '') {
+        return defaultValue;
+    }
+    const value = Number(raw.trim());
+    if (Number.isNaN(value) || value < 0) {
+        console.error(`Warning: Invalid ${name} "${raw}", using default ${defaultValue}`);
+        return defaultValue;
+    }
+    return value;
+}
+
+/**
+ * Get the user's time zone from DIDA365_TIMEZONE, falling back to the system time zone
+ */
+function getTimeZone(): string {
+    const systemTimeZone = getSystemTimeZone();
+    const timeZone = process.env.DIDA365_TIMEZONE?.trim();
+    if (!timeZone) {
+        return systemTimeZone;
+    }
+    if (!isValidTimeZone(timeZone)) {
+        console.error(`Warning: Invalid DIDA365_TIMEZONE "${timeZone}", using system time zone ${systemTimeZone}`);
+        return systemTimeZone;
+    }
+    return timeZone;
+}
+
+/**
+ * Get the first day of the week from DIDA365_WEEK_START (0 = Sunday ... 6 = Saturday, default Monday)
+ *
+ * Accepts a number or an English weekday name ("sunday", "mon").
+ */
+function getWeekStart(): number {
+    const raw = process.env.DIDA365_WEEK_START?.trim().toLowerCase();
+    if (!raw) {
+        return 1;
+    }
+    const names = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+    const value = /^[0-6]$/.test(raw)
+        ? Number(raw)
+        : names.findIndex((name) => raw.length >= 3 && name.startsWith(raw));
+    if (value < 0) {
+        console.error(`Warning: Invalid DIDA365_WEEK_START "${raw}", using Monday`);
+        return 1;
+    }
+    return value;
+}
+
 /**
  * Application configuration constants
  * Contains all fixed configuration values for the application
@@ -155,6 +323,48 @@ export const APP_CONFIG = (() => {
         API: {
             // API base URL based on region
             BASE_URL: getApiBaseUrl(region),
+
+            // Retry policy for 429/5xx/network failures
+            RETRY: {
+                // Total attempts including the first request
+                MAX_ATTEMPTS: 3,
+                // Base delay for exponential backoff
+                BASE_DELAY_MS: 500,
+                // Upper bound for a single backoff delay (also the longest Retry-After honored)
+                MAX_DELAY_MS: 10 * 1000,
+            },
+
+            // Process-wide token-bucket rate limit for all API requests
+            RATE_LIMIT: {
+                // Sustained requests per second (0 disables the limiter)
+                REQUESTS_PER_SECOND: getNumberEnv('DIDA365_RATE_LIMIT_RPS', 5),
+                // Maximum burst size
+                BURST: getNumberEnv('DIDA365_RATE_LIMIT_BURST', 10),
+            },
+
+            // Local read-through cache for projects and project data
+            CACHE: {
+                // Entry time to live (0 disables the cache)
+                TTL_MS: getNumberEnv('DIDA365_CACHE_TTL_SECONDS', 60) * 1000,
+                // Maximum number of cached entries
+                MAX_ENTRIES: 200,
+            },
+        },
+
+        // Date handling
+        DATE: {
+            // IANA time zone used to interpret and format dates (e.g. "Asia/Shanghai")
+            TIME_ZONE: getTimeZone(),
+            // First day of the week for "this week" ranges: 0 = Sunday ... 6 = Saturday
+            WEEK_START: getWeekStart(),
+        },
+
+        // Local trash for deleted tasks and projects (~/.dida365-mcp/trash.json)
+        TRASH: {
+            // Days a deleted item stays restorable (0 disables the trash)
+            RETENTION_DAYS: getNumberEnv('DIDA365_TRASH_RETENTION_DAYS', 30),
+            // Maximum number of trash entries (oldest are purged first)
+            MAX_ENTRIES: getNumberEnv('DIDA365_TRASH_MAX_ENTRIES', 500),
         },
     };
 })();
@@ -238,6 +448,16 @@ export function printConfigInfo(config: OAuth2Config): void {
     console.error(`  Token Endpoint: ${config.tokenEndpoint}`);
     console.error(`  API Base URL: ${APP_CONFIG.API.BASE_URL}`);
     console.error(`  Read-Only Mode: ${isReadOnlyMode ? 'ENABLED ⚠️' : 'DISABLED'}`);
+    console.error(`  Dry-Run Mode: ${isDryRunMode ? 'ENABLED ⚠️' : 'DISABLED'}`);
+    console.error(`  Tool Policy: ${policyFilePath ?? 'NONE'}`);
+    console.error(`  Transport: ${transportConfig.mode === 'http'
+        ? `Streamable HTTP (${transportConfig.host}:${transportConfig.port})`
+        : 'stdio'}`);
+    console.error(`  Time Zone: ${APP_CONFIG.DATE.TIME_ZONE}`);
+    console.error(`  Week Starts On: ${['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][APP_CONFIG.DATE.WEEK_START]}`);
+    console.error(`  Trash: ${APP_CONFIG.TRASH.RETENTION_DAYS > 0
+        ? `${APP_CONFIG.TRASH.RETENTION_DAYS} days, up to ${APP_CONFIG.TRASH.MAX_ENTRIES} entries`
+        : 'DISABLED'}`);
 }
 
 /**
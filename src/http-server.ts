@@ -0,0 +1,293 @@
+/**
+ * Streamable HTTP Server Module
+ *
+ * Hosts the MCP server over the Streamable HTTP transport so that several
+ * MCP clients can share a single server process
+ */
+
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * MCP endpoint path
+ */
+export const MCP_ENDPOINT = '/mcp';
+
+/**
+ * Maximum accepted request body size (4 MB)
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Bind addresses only reachable from this machine
+ */
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+/**
+ * Streamable HTTP server options
+ */
+export interface McpHttpServerOptions {
+    host: string;
+    port: number;
+    /** Factory creating a fully registered McpServer for each new session */
+    createServer: () => McpServer;
+}
+
+/**
+ * Active MCP session
+ */
+interface McpSession {
+    transport: StreamableHTTPServerTransport;
+    server: McpServer;
+}
+
+/**
+ * Streamable HTTP Server
+ *
+ * Each client session gets its own McpServer/transport pair, while the
+ * underlying OAuth manager and API client are shared across sessions.
+ */
+export class McpHttpServer {
+    private options: McpHttpServerOptions;
+    private httpServer: http.Server | null = null;
+    private sessions = new Map<string, McpSession>();
+
+    constructor(options: McpHttpServerOptions) {
+        this.options = options;
+    }
+
+    /**
+     * Start listening for HTTP requests
+     */
+    async start(): Promise<void> {
+        const { host, port } = this.options;
+
+        this.httpServer = http.createServer(async (req, res) => {
+            try {
+                await this.handleRequest(req, res);
+            } catch (error) {
+                console.error('MCP HTTP request error:', error);
+                if (!res.headersSent) {
+                    this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+                }
+            }
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            this.httpServer!.once('error', (error: NodeJS.ErrnoException) => {
+                if (error.code === 'EADDRINUSE') {
+                    reject(new Error(`Port ${port} is already in use. Use --port or DIDA365_HTTP_PORT to choose another port.`));
+                } else {
+                    reject(error);
+                }
+            });
+            this.httpServer!.listen(port, host, () => resolve());
+        });
+
+        console.error(`MCP Streamable HTTP server listening on http://${host}:${port}${MCP_ENDPOINT}`);
+    }
+
+    /**
+     * Gracefully close all sessions and stop the HTTP server
+     */
+    async close(): Promise<void> {
+        const sessions = Array.from(this.sessions.values());
+        this.sessions.clear();
+
+        await Promise.allSettled(sessions.map((session) => this.closeSession(session)));
+
+        if (this.httpServer) {
+            const server = this.httpServer;
+            this.httpServer = null;
+            await new Promise<void>((resolve) => {
+                server.close(() => resolve());
+                // Drop idle keep-alive sockets so close() can complete
+                server.closeIdleConnections?.();
+            });
+            console.error('MCP Streamable HTTP server closed');
+        }
+    }
+
+    /**
+     * Get number of active sessions
+     */
+    getSessionCount(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Handle HTTP request
+     */
+    private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const url = new URL(req.url || '', `http://${req.headers.host}`);
+
+        if (url.pathname !== MCP_ENDPOINT) {
+            res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+            res.end('Not Found');
+            return;
+        }
+
+        const sessionId = this.getSessionId(req);
+
+        if (req.method === 'POST') {
+            let body: unknown;
+            try {
+                body = await this.readJsonBody(req);
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                this.sendJsonRpcError(res, 400, -32700, `Parse error: ${errorMsg}`);
+                return;
+            }
+
+            // Existing session
+            if (sessionId) {
+                const session = this.sessions.get(sessionId);
+                if (!session) {
+                    this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+                    return;
+                }
+                await session.transport.handleRequest(req, res, body);
+                return;
+            }
+
+            // New session must start with an initialize request
+            if (!isInitializeRequest(body)) {
+                this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+                return;
+            }
+
+            const session = await this.createSession();
+            try {
+                await session.transport.handleRequest(req, res, body);
+            } finally {
+                // A session is only stored once initialize succeeds
+                const id = session.transport.sessionId;
+                if (!id || this.sessions.get(id)?.transport !== session.transport) {
+                    await this.closeSession(session);
+                }
+            }
+            return;
+        }
+
+        if (req.method === 'GET' || req.method === 'DELETE') {
+            const session = sessionId ? this.sessions.get(sessionId) : undefined;
+            if (!session) {
+                this.sendJsonRpcError(res, sessionId ? 404 : 400, -32000, 'Invalid or missing session ID');
+                return;
+            }
+            await session.transport.handleRequest(req, res);
+            return;
+        }
+
+        res.writeHead(405, { 'Content-Type': 'text/plain; charset=utf-8', 'Allow': 'GET, POST, DELETE' });
+        res.end('Method Not Allowed');
+    }
+
+    /**
+     * Create a new session with its own McpServer and transport
+     */
+    private async createSession(): Promise<McpSession> {
+        const server = this.options.createServer();
+        const allowedHosts = this.getAllowedHosts();
+        const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            allowedHosts,
+            enableDnsRebindingProtection: allowedHosts !== undefined,
+            onsessioninitialized: (id) => {
+                this.sessions.set(id, { transport, server });
+                console.error(`MCP session initialized: ${id} (${this.sessions.size} active)`);
+            },
+            onsessionclosed: (id) => {
+                this.sessions.delete(id);
+                console.error(`MCP session closed: ${id} (${this.sessions.size} active)`);
+            },
+        });
+
+        transport.onclose = () => {
+            if (transport.sessionId) {
+                this.sessions.delete(transport.sessionId);
+            }
+        };
+
+        try {
+            await server.connect(transport);
+        } catch (error) {
+            await this.closeSession({ transport, server });
+            throw error;
+        }
+        return { transport, server };
+    }
+
+    /**
+     * Close a session's transport and McpServer
+     */
+    private async closeSession(session: McpSession): Promise<void> {
+        await Promise.allSettled([session.transport.close(), session.server.close()]);
+    }
+
+    /**
+     * Get the Host headers accepted on a loopback bind
+     *
+     * Rejecting other Host headers keeps a DNS-rebinding web page from
+     * reaching the local server. Other binds are meant to be reached under
+     * names this server cannot know, so they are left unchecked.
+     */
+    private getAllowedHosts(): string[] | undefined {
+        const { host, port } = this.options;
+        if (!LOOPBACK_HOSTS.includes(host)) {
+            return undefined;
+        }
+        return [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`];
+    }
+
+    /**
+     * Read the mcp-session-id header
+     */
+    private getSessionId(req: http.IncomingMessage): string | undefined {
+        const header = req.headers['mcp-session-id'];
+        return Array.isArray(header) ? header[0] : header;
+    }
+
+    /**
+     * Read and parse a JSON request body
+     */
+    private readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            let size = 0;
+
+            req.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > MAX_BODY_BYTES) {
+                    reject(new Error('Request body too large'));
+                    req.destroy();
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            req.on('end', () => {
+                try {
+                    resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+                } catch (error) {
+                    reject(new Error('Invalid JSON'));
+                }
+            });
+            req.on('error', reject);
+        });
+    }
+
+    /**
+     * Send a JSON-RPC error response
+     */
+    private sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+            jsonrpc: '2.0',
+            error: { code, message },
+            id: null,
+        }));
+    }
+}
@@ -0,0 +1,81 @@
+/**
+ * Import Ledger Module
+ *
+ * Remembers which iCalendar UIDs were imported into which project, so
+ * importing the same .ics file again does not create duplicate tasks
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * Task created from an iCalendar component
+ */
+export interface ImportRecord {
+    uid: string;
+    projectId: string;
+    taskId: string;
+    importedAt: string; // ISO 8601
+}
+
+/**
+ * Ledger file structure
+ */
+interface ImportLedger {
+    version: 1;
+    imports: ImportRecord[];
+}
+
+/**
+ * Ledger storage path
+ */
+const LEDGER_DIR = path.join(os.homedir(), '.dida365-mcp');
+const LEDGER_FILE = path.join(LEDGER_DIR, 'ics-imports.json');
+
+/**
+ * Load the ledger, or an empty one if it does not exist or is unreadable
+ */
+function loadLedger(): ImportLedger {
+    if (!fs.existsSync(LEDGER_FILE)) {
+        return { version: 1, imports: [] };
+    }
+
+    try {
+        const ledger = JSON.parse(fs.readFileSync(LEDGER_FILE, 'utf-8')) as ImportLedger;
+        return Array.isArray(ledger.imports) ? ledger : { version: 1, imports: [] };
+    } catch (error) {
+        console.error('Failed to load import ledger:', error);
+        return { version: 1, imports: [] };
+    }
+}
+
+/**
+ * Find the task previously created for a UID in a project
+ *
+ * @param uid - iCalendar UID
+ * @param projectId - Target project ID
+ * @returns The import record, or undefined if the UID was never imported into the project
+ */
+export function findImport(uid: string, projectId: string): ImportRecord | undefined {
+    return loadLedger().imports.find((record) => record.uid === uid && record.projectId === projectId);
+}
+
+/**
+ * Record imported tasks (replacing earlier records for the same UID and project)
+ */
+export function recordImports(records: ImportRecord[]): void {
+    if (records.length === 0) return;
+
+    const ledger = loadLedger();
+    const keys = new Set(records.map((record) => `${record.projectId}\n${record.uid}`));
+    ledger.imports = [
+        ...ledger.imports.filter((record) => !keys.has(`${record.projectId}\n${record.uid}`)),
+        ...records,
+    ];
+
+    if (!fs.existsSync(LEDGER_DIR)) {
+        fs.mkdirSync(LEDGER_DIR, { recursive: true, mode: 0o700 });
+    }
+    fs.writeFileSync(LEDGER_FILE, JSON.stringify(ledger, null, 2), { mode: 0o600 });
+}
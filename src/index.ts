@@ -2,8 +2,10 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { loadOAuthConfig, printConfigInfo, validateOAuthConfig, isReadOnly, type OAuth2Config } from "./config.js";
+import { loadOAuthConfig, printConfigInfo, validateOAuthConfig, isReadOnly, isDryRun, getPolicyFile, getTransportConfig, type OAuth2Config } from "./config.js";
+import { loadPolicy, type ToolPolicy } from "./policy.js";
 import { OAuthManager } from "./oauth.js";
+import { McpHttpServer } from "./http-server.js";
 import { registerAllTools } from "./tools/index.js";
 import { registerAllResources } from "./resources/index.js";
 
@@ -41,41 +43,112 @@ try {
     process.exit(1);
 }
 
-// Create MCP server instance
-const server = new McpServer({
-    name: "dida365-mcp-server",
-    version: "1.0.0",
-});
-
 // ============================================================================
-// Tool Registration
+// Server Factory (Tool & Resource Registration)
 // ============================================================================
 
-// Register all tools with the server (filter based on read-only mode)
 const readOnlyMode = isReadOnly();
-registerAllTools(server, { oauthManager }, readOnlyMode);
 
 if (readOnlyMode) {
     console.error('⚠️  Read-Only Mode: Write/Delete tools are hidden');
 }
 
-// ============================================================================
-// Resource Registration
-// ============================================================================
+if (isDryRun()) {
+    console.error('⚠️  Dry-Run Mode: Write tools return a preview and change nothing');
+}
 
-// Register all resources with the server (terminology glossary, etc.)
-registerAllResources(server);
+// Load the tool policy; an invalid file stops the server instead of running unrestricted
+let policy: ToolPolicy | undefined;
+const policyFile = getPolicyFile();
+
+if (policyFile) {
+    try {
+        policy = loadPolicy(policyFile);
+        console.error(`Tool policy loaded from ${policyFile}`);
+    } catch (error) {
+        console.error('Failed to load tool policy:', error instanceof Error ? error.message : error);
+        process.exit(1);
+    }
+}
+
+/**
+ * Create a fully registered MCP server instance
+ *
+ * stdio mode uses a single instance; HTTP mode creates one per client session.
+ * All instances share the same OAuthManager.
+ */
+function createServer(): McpServer {
+    const server = new McpServer({
+        name: "dida365-mcp-server",
+        version: "1.0.0",
+    });
+
+    // Register all tools with the server (filter based on read-only mode)
+    registerAllTools(server, { oauthManager, policy }, readOnlyMode);
+
+    // Register all resources with the server (terminology glossary, etc.)
+    registerAllResources(server);
+
+    return server;
+}
 
 // ============================================================================
 // Server Startup
 // ============================================================================
 
-async function main() {
+/**
+ * Start in stdio mode (single client)
+ */
+async function startStdio(): Promise<void> {
+    const server = createServer();
     const transport = new StdioServerTransport();
     await server.connect(transport);
+}
+
+/**
+ * Start in Streamable HTTP mode (multiple clients) with graceful shutdown
+ */
+async function startHttp(host: string, port: number): Promise<void> {
+    const httpServer = new McpHttpServer({ host, port, createServer });
+    await httpServer.start();
+
+    let shuttingDown = false;
+    const shutdown = async (signal: string) => {
+        if (shuttingDown) {
+            return;
+        }
+        shuttingDown = true;
+        console.error(`Received ${signal}, shutting down (${httpServer.getSessionCount()} active session(s))...`);
+
+        // Force exit if graceful shutdown hangs
+        const forceExit = setTimeout(() => process.exit(1), 10000);
+        forceExit.unref();
+
+        try {
+            await httpServer.close();
+            process.exit(0);
+        } catch (error) {
+            console.error("Error during shutdown:", error);
+            process.exit(1);
+        }
+    };
+
+    process.on('SIGINT', () => void shutdown('SIGINT'));
+    process.on('SIGTERM', () => void shutdown('SIGTERM'));
+}
+
+async function main() {
+    const transportConfig = getTransportConfig();
+
+    if (transportConfig.mode === 'http') {
+        await startHttp(transportConfig.host, transportConfig.port);
+    } else {
+        await startStdio();
+    }
 
     console.error("=================================================");
     console.error("Dida365 MCP Server started successfully");
+    console.error(`Transport: ${transportConfig.mode === 'http' ? 'Streamable HTTP' : 'stdio'}`);
     console.error(`OAuth2 Ready - Client ID: ${oauthConfig.clientId.substring(0, 8)}...`);
 
     // Display authorization status
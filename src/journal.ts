@@ -0,0 +1,376 @@
+/**
+ * Operation Journal Module
+ *
+ * Records the before and after state of every change made by the task and
+ * project write tools, so an operation (e.g. a batch update that moved 30
+ * tasks to the wrong week) can be undone later
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { randomUUID } from 'crypto';
+import {
+    getProject,
+    getTask,
+    moveTask,
+    updateProject,
+    updateTask,
+} from './api/index.js';
+import type { MoveTaskResult, Project, Task, UpdateProjectRequest, UpdateTaskRequest } from './api/types.js';
+import { getTrashEntry, recreateTask, restoreFromTrash, trashProject, trashTask } from './trash.js';
+import { isSameValue } from './utils/diff.js';
+
+/**
+ * Single change made by an operation
+ */
+export type JournalChange =
+    | { action: 'createTask'; after: Task }
+    | { action: 'updateTask'; before: Task; after: Task }
+    | { action: 'completeTask'; before: Task }
+    | { action: 'deleteTask'; before: Task; trashId?: string }
+    | { action: 'moveTask'; move: MoveTaskResult }
+    | { action: 'createProject'; after: Project }
+    | { action: 'updateProject'; before: Project; after: Project }
+    | { action: 'deleteProject'; before: Project; taskCount: number; trashId?: string };
+
+/**
+ * One tool call and the changes it made
+ */
+export interface JournalEntry {
+    id: string;
+    tool: string;
+    createdAt: string; // ISO 8601
+    changes: JournalChange[];
+    /** Set once the operation was undone */
+    undoneAt?: string; // ISO 8601
+}
+
+/**
+ * Journal file structure
+ */
+interface JournalFile {
+    version: 1;
+    entries: JournalEntry[]; // Oldest first
+}
+
+/**
+ * Outcome of reverting one change
+ */
+export interface UndoItem {
+    action: JournalChange['action'];
+    title: string;
+    projectId: string;
+    taskId?: string;
+    success: boolean;
+    /** Why the change could not be reverted */
+    error?: string;
+    /** New ID of a recreated task or project (restored items get new IDs) */
+    newId?: string;
+}
+
+/**
+ * Result of undoing an operation
+ */
+export interface UndoResult {
+    journalId: string;
+    tool: string;
+    createdAt: string;
+    reverted: UndoItem[];
+    failed: UndoItem[];
+}
+
+/**
+ * Most operations kept in the journal (oldest are dropped first)
+ */
+export const MAX_JOURNAL_ENTRIES = 200;
+
+/**
+ * Task fields restored when undoing an update, with the value used to clear them
+ */
+const TASK_FIELDS = {
+    title: '',
+    content: '',
+    desc: '',
+    isAllDay: false,
+    startDate: '',
+    dueDate: '',
+    timeZone: '',
+    reminders: [],
+    repeatFlag: '',
+    priority: 0,
+    sortOrder: 0,
+    items: [],
+} satisfies Partial<Record<keyof UpdateTaskRequest, unknown>>;
+
+type TaskField = keyof typeof TASK_FIELDS;
+
+/**
+ * Project fields restored when undoing an update
+ */
+const PROJECT_FIELDS = ['name', 'color', 'sortOrder', 'viewMode', 'kind'] as const;
+
+/**
+ * Journal storage path
+ */
+const JOURNAL_DIR = path.join(os.homedir(), '.dida365-mcp');
+const JOURNAL_FILE = path.join(JOURNAL_DIR, 'journal.json');
+
+/**
+ * Load the journal, or an empty one if it does not exist or is unreadable
+ */
+function loadJournal(): JournalFile {
+    if (!fs.existsSync(JOURNAL_FILE)) {
+        return { version: 1, entries: [] };
+    }
+
+    try {
+        const file = JSON.parse(fs.readFileSync(JOURNAL_FILE, 'utf-8')) as JournalFile;
+        return Array.isArray(file.entries) ? file : { version: 1, entries: [] };
+    } catch (error) {
+        console.error('Failed to load operation journal:', error);
+        return { version: 1, entries: [] };
+    }
+}
+
+function writeJournal(file: JournalFile): void {
+    if (file.entries.length > MAX_JOURNAL_ENTRIES) {
+        file.entries = file.entries.slice(file.entries.length - MAX_JOURNAL_ENTRIES);
+    }
+    if (!fs.existsSync(JOURNAL_DIR)) {
+        fs.mkdirSync(JOURNAL_DIR, { recursive: true, mode: 0o700 });
+    }
+    fs.writeFileSync(JOURNAL_FILE, JSON.stringify(file, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Record the changes made by a tool call
+ *
+ * Failures are logged rather than thrown: the changes were already made.
+ *
+ * @returns Journal ID, or undefined if nothing changed or the journal could not be written
+ */
+export function recordOperation(tool: string, changes: JournalChange[]): string | undefined {
+    if (changes.length === 0) return undefined;
+
+    try {
+        const file = loadJournal();
+        const entry: JournalEntry = { id: randomUUID(), tool, createdAt: new Date().toISOString(), changes };
+        file.entries.push(entry);
+        writeJournal(file);
+        return entry.id;
+    } catch (error) {
+        console.error(`Failed to record '${tool}' in the operation journal:`, error);
+        return undefined;
+    }
+}
+
+/**
+ * Get journal entries, newest first
+ */
+export function listJournal(): JournalEntry[] {
+    return [...loadJournal().entries].reverse();
+}
+
+function changedFields<T, K extends keyof T>(fields: readonly K[], before: T, after: T): K[] {
+    return fields.filter((field) => !isSameValue(before[field], after[field]));
+}
+
+/**
+ * Put a task's fields back to their state before an update
+ */
+async function revertTaskUpdate(before: Task, after: Task, force: boolean): Promise<void> {
+    const fields = changedFields(Object.keys(TASK_FIELDS) as TaskField[], before, after);
+    if (fields.length === 0) return;
+
+    const current = await getTask(after.projectId, after.id);
+    const modified = fields.filter((field) => !isSameValue(current[field], after[field]));
+    if (modified.length > 0 && !force) {
+        throw new Error(`Task was changed after this operation (${modified.join(', ')}); use force to overwrite`);
+    }
+
+    const request: UpdateTaskRequest = { id: after.id, projectId: after.projectId };
+    for (const field of fields) {
+        Object.assign(request, { [field]: before[field] ?? TASK_FIELDS[field] });
+    }
+    const updated = await updateTask(after.id, request);
+
+    const notReverted = fields.filter((field) => !isSameValue(updated[field], before[field]));
+    if (notReverted.length > 0) {
+        throw new Error(`The API did not restore ${notReverted.join(', ')}`);
+    }
+}
+
+/**
+ * Put a project's fields back to their state before an update
+ */
+async function revertProjectUpdate(before: Project, after: Project, force: boolean): Promise<void> {
+    const fields = changedFields(PROJECT_FIELDS, before, after);
+    if (fields.length === 0) return;
+
+    const current = await getProject(after.id, { forceRefresh: true });
+    const modified = fields.filter((field) => !isSameValue(current[field], after[field]));
+    if (modified.length > 0 && !force) {
+        throw new Error(`Project was changed after this operation (${modified.join(', ')}); use force to overwrite`);
+    }
+
+    const request: UpdateProjectRequest = {};
+    for (const field of fields) {
+        Object.assign(request, { [field]: before[field] });
+    }
+    await updateProject(after.id, request);
+}
+
+/**
+ * Apply the inverse of one change
+ *
+ * @returns New ID of a recreated item, if any
+ */
+async function revertChange(change: JournalChange, force: boolean): Promise<string | undefined> {
+    switch (change.action) {
+        case 'createTask':
+            // Deleted through the trash, so undoing the undo stays possible
+            await trashTask(change.after.projectId, change.after.id);
+            return undefined;
+
+        case 'updateTask':
+            await revertTaskUpdate(change.before, change.after, force);
+            return undefined;
+
+        case 'completeTask': {
+            if (change.before.repeatFlag) {
+                // Completing a recurring task moved it to its next occurrence; reopening would not bring the old one back
+                throw new Error('Completing a recurring task cannot be undone; adjust its dates in the Dida365 app');
+            }
+            const reopened = await updateTask(change.before.id, {
+                id: change.before.id,
+                projectId: change.before.projectId,
+                status: 0,
+            });
+            if (reopened.status !== 0) {
+                throw new Error('The API did not reopen the task; reopen it in the Dida365 app');
+            }
+            return undefined;
+        }
+
+        case 'deleteTask': {
+            if (change.trashId && getTrashEntry(change.trashId)) {
+                const restored = await restoreFromTrash(change.trashId);
+                return restored.tasks[0]?.id;
+            }
+            return (await recreateTask(change.before, change.before.projectId)).id;
+        }
+
+        case 'moveTask': {
+            const moved = await moveTask(change.move.projectId, change.move.id, change.move.previousProjectId);
+            return moved.id;
+        }
+
+        case 'createProject':
+            await trashProject(change.after.id);
+            return undefined;
+
+        case 'updateProject':
+            await revertProjectUpdate(change.before, change.after, force);
+            return undefined;
+
+        case 'deleteProject': {
+            if (!change.trashId || !getTrashEntry(change.trashId)) {
+                throw new Error('No copy of the project is left in the trash (expired, restored or trash disabled)');
+            }
+            const restored = await restoreFromTrash(change.trashId);
+            if (restored.failedTasks.length > 0) {
+                throw new Error(
+                    `Project recreated as ${restored.project?.id}, but ${restored.failedTasks.length} task(s) failed ` +
+                    `and are back in the trash: ${restored.failedTasks.map((task) => task.title).join(', ')}`
+                );
+            }
+            return restored.project?.id;
+        }
+    }
+}
+
+/**
+ * Title and IDs of the item a change affected
+ */
+export function describeChange(change: JournalChange): Pick<UndoItem, 'title' | 'projectId' | 'taskId'> {
+    switch (change.action) {
+        case 'createTask':
+            return { title: change.after.title, projectId: change.after.projectId, taskId: change.after.id };
+        case 'updateTask':
+            return { title: change.before.title, projectId: change.after.projectId, taskId: change.after.id };
+        case 'completeTask':
+        case 'deleteTask':
+            return { title: change.before.title, projectId: change.before.projectId, taskId: change.before.id };
+        case 'moveTask':
+            return { title: change.move.title, projectId: change.move.projectId, taskId: change.move.id };
+        case 'createProject':
+            return { title: change.after.name, projectId: change.after.id };
+        case 'updateProject':
+        case 'deleteProject':
+            return { title: change.before.name, projectId: change.before.id };
+    }
+}
+
+/**
+ * Find the operation undoOperation would revert
+ *
+ * @param id - Journal ID, or undefined for the most recent operation not yet undone
+ * @throws {Error} If there is no such operation or it was already undone
+ */
+export function findUndoableOperation(id?: string): JournalEntry {
+    const entries = listJournal();
+    const entry = id !== undefined
+        ? entries.find((candidate) => candidate.id === id.trim())
+        : entries.find((candidate) => !candidate.undoneAt);
+
+    if (!entry) {
+        throw new Error(id !== undefined
+            ? `Operation ${id} not found in the journal`
+            : 'No operation left to undo');
+    }
+    if (entry.undoneAt) {
+        throw new Error(`Operation ${entry.id} was already undone at ${entry.undoneAt}`);
+    }
+    return entry;
+}
+
+/**
+ * Undo an operation by applying the inverse of each change, newest first
+ *
+ * Changes that cannot be reverted (e.g. the task was edited again since, or
+ * was deleted) are reported in `failed`; the rest are still reverted. The
+ * entry keeps only the failed changes, and is marked as undone once none
+ * are left.
+ *
+ * @param id - Journal ID, or undefined for the most recent operation not yet undone
+ * @param options - force: revert fields even if they were changed after the operation
+ * @throws {Error} If there is no such operation or it was already undone
+ */
+export async function undoOperation(id?: string, options: { force?: boolean } = {}): Promise<UndoResult> {
+    const entry = findUndoableOperation(id);
+    const result: UndoResult = { journalId: entry.id, tool: entry.tool, createdAt: entry.createdAt, reverted: [], failed: [] };
+    const remaining: JournalChange[] = [];
+    for (const change of [...entry.changes].reverse()) {
+        const item: UndoItem = { action: change.action, ...describeChange(change), success: true };
+        try {
+            const newId = await revertChange(change, options.force ?? false);
+            result.reverted.push({ ...item, ...(newId && { newId }) });
+        } catch (error) {
+            result.failed.push({ ...item, success: false, error: error instanceof Error ? error.message : String(error) });
+            remaining.unshift(change);
+        }
+    }
+
+    // Keep only what is left to revert, so the undo can be retried (e.g. with force)
+    const file = loadJournal();
+    const stored = file.entries.find((candidate) => candidate.id === entry.id);
+    if (stored) {
+        stored.changes = remaining;
+        if (remaining.length === 0) {
+            stored.undoneAt = new Date().toISOString();
+        }
+        writeJournal(file);
+    }
+    return result;
+}
@@ -9,6 +9,7 @@ import { OAuth2Config, APP_CONFIG } from './config.js';
 import { TokenManager, TokenData, createValidationContext, type TokenValidationContext } from './token.js';
 import { OAuthCallbackServer } from './oauth-server.js';
 import { AuthStateManager, AuthState } from './auth-state.js';
+import { clearApiCache } from './api/cache.js';
 
 /**
  * OAuth Manager
@@ -41,13 +42,20 @@ export class OAuthManager {
             config.clientSecret,
             APP_CONFIG.REGION
         );
-        this.tokenManager = new TokenManager(this.validationContext);
+        this.tokenManager = new TokenManager(this.validationContext, {
+            clientId: config.clientId,
+            clientSecret: config.clientSecret,
+            tokenEndpoint: config.tokenEndpoint,
+        });
         this.stateManager = new AuthStateManager();
 
         // Check if there's a valid Token on startup
         if (this.tokenManager.hasToken() && this.tokenManager.isTokenValid()) {
             this.stateManager.setAuthorized();
             console.error('Found valid token on startup');
+        } else if (this.tokenManager.hasToken() && this.tokenManager.isRefreshable()) {
+            this.stateManager.setAuthorized();
+            console.error('Found expired token on startup, will refresh on next request');
         } else if (this.tokenManager.hasToken()) {
             console.error('Found expired token on startup, need to re-authorize');
         } else {
@@ -117,6 +125,9 @@ export class OAuthManager {
             // Save Token
             this.tokenManager.setToken(tokenData);
 
+            // Cached data may belong to a previously authorized account
+            clearApiCache();
+
             // Update state to authorized
             this.stateManager.setAuthorized();
 
@@ -164,6 +175,7 @@ export class OAuthManager {
         // Construct Token data with client credentials metadata
         const tokenData: TokenData = {
             access_token: data.access_token,
+            ...(data.refresh_token && { refresh_token: data.refresh_token }),
             expires_at: Date.now() + (data.expires_in * 1000),
             created_at: Date.now(),
             scope: data.scope || this.config.scope,
@@ -229,9 +241,12 @@ export class OAuthManager {
 
             return token;
         } catch (error) {
-            // Token fetch failed, update state
+            // Token fetch failed (expired without refresh token, or refresh failed), update state
             if (this.tokenManager.hasToken()) {
-                this.stateManager.setExpired();
+                // A transient refresh failure leaves the state alone; the refresh is retried next time
+                if (!this.tokenManager.isRefreshable()) {
+                    this.stateManager.setExpired(this.tokenManager.getLastRefreshError() ?? undefined);
+                }
             } else {
                 this.stateManager.setNotAuthorized();
             }
@@ -246,6 +261,9 @@ export class OAuthManager {
      * not just the in-memory state. This ensures accurate status even if the
      * token file was manually deleted or modified.
      * 
+     * An expired token with a usable refresh token is still reported as authorized;
+     * the state only becomes EXPIRED when the token cannot be refreshed or the refresh failed.
+     * 
      * @returns {AuthStateInfo} Status information
      */
     getAuthStatus() {
@@ -255,10 +273,13 @@ export class OAuthManager {
             if (!this.tokenManager.hasToken()) {
                 // Token file was deleted, update state
                 this.stateManager.setNotAuthorized();
-            } else if (!this.tokenManager.isTokenValid()) {
-                // Token exists but is expired
-                this.stateManager.setExpired();
+            } else if (!this.tokenManager.isTokenValid() && !this.tokenManager.isRefreshable()) {
+                // Token exists but is expired and cannot be refreshed
+                this.stateManager.setExpired(this.tokenManager.getLastRefreshError() ?? undefined);
             }
+        } else if (this.stateManager.getState() === AuthState.EXPIRED && this.tokenManager.isTokenValid()) {
+            // Token was refreshed (e.g. by the API client) after the state became EXPIRED
+            this.stateManager.setAuthorized();
         }
 
         const info = this.stateManager.getStateInfo();
@@ -279,6 +300,7 @@ export class OAuthManager {
      */
     revokeAuthorization(): void {
         this.tokenManager.clearToken();
+        clearApiCache();
         this.stateManager.setNotAuthorized();
 
         // Clean up authorization state and resources
@@ -0,0 +1,103 @@
+/**
+ * Tool Policy Module
+ *
+ * Loads the policy file given with --policy (or DIDA365_POLICY_FILE) at
+ * startup. Where read-only mode hides every write tool, a policy allows or
+ * denies individual tools and limits what the allowed ones may touch.
+ */
+
+import * as fs from 'fs';
+import { z } from 'zod';
+
+/**
+ * Policy file structure (unknown keys are rejected, so a typo cannot silently disable a rule)
+ */
+const PolicySchema = z.object({
+    /** Only these tools are registered ("*" matches any characters, e.g. "list_*") */
+    allowTools: z.array(z.string().min(1)).optional(),
+    /** These tools are never registered, even if allowed above */
+    denyTools: z.array(z.string().min(1)).optional(),
+    /** Most tasks a single call may create, update, complete, delete, move, import, restore or revert */
+    maxTasksPerBatch: z.number().int().positive().optional(),
+    /** Projects (IDs, names or "inbox") in which tasks and projects may be deleted */
+    deleteOnlyInProjects: z.array(z.string().min(1)).optional(),
+    /** Reject writes to shared projects where the user's permission is not "write" */
+    denySharedProjectWrites: z.boolean().optional(),
+}).strict();
+
+export type ToolPolicy = z.infer<typeof PolicySchema>;
+
+/**
+ * Policy rule a call violated
+ */
+export type PolicyRule = 'maxTasksPerBatch' | 'deleteOnlyInProjects' | 'denySharedProjectWrites';
+
+/**
+ * Error thrown when a tool call is not allowed by the policy
+ */
+export class PolicyViolationError extends Error {
+    public tool: string;
+    public rule: PolicyRule;
+    public details: Record<string, unknown>;
+
+    constructor(tool: string, rule: PolicyRule, message: string, details: Record<string, unknown> = {}) {
+        super(message);
+        this.name = 'PolicyViolationError';
+        this.tool = tool;
+        this.rule = rule;
+        this.details = details;
+    }
+}
+
+/**
+ * Load and validate a policy file
+ *
+ * @throws {Error} If the file cannot be read or is not a valid policy
+ */
+export function loadPolicy(file: string): ToolPolicy {
+    let data: unknown;
+    try {
+        data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Cannot read policy file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const parsed = PolicySchema.safeParse(data);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+        throw new Error(`Invalid policy file ${file}: ${issues.join('; ')}`);
+    }
+    return parsed.data;
+}
+
+function matchesPattern(name: string, pattern: string): boolean {
+    const regex = new RegExp(`^${pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    return regex.test(name);
+}
+
+/**
+ * Check if the policy lets a tool be registered (denyTools wins over allowTools)
+ */
+export function isToolAllowed(policy: ToolPolicy, tool: string): boolean {
+    if (policy.denyTools?.some((pattern) => matchesPattern(tool, pattern))) {
+        return false;
+    }
+    return policy.allowTools === undefined || policy.allowTools.some((pattern) => matchesPattern(tool, pattern));
+}
+
+/**
+ * Check the number of tasks a call would touch against maxTasksPerBatch
+ *
+ * @throws {PolicyViolationError} If the call exceeds the limit
+ */
+export function checkBatchSize(policy: ToolPolicy | undefined, tool: string, taskCount: number): void {
+    const limit = policy?.maxTasksPerBatch;
+    if (limit !== undefined && taskCount > limit) {
+        throw new PolicyViolationError(
+            tool,
+            'maxTasksPerBatch',
+            `This call would touch ${taskCount} tasks, but the policy allows at most ${limit} per call. Split it into smaller batches.`,
+            { taskCount, limit }
+        );
+    }
+}
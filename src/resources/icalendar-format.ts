@@ -201,6 +201,7 @@ RRULE:FREQ=frequency;[INTERVAL=interval];[BYDAY=days];[BYMONTHDAY=days];[COUNT=c
 - Time-based durations (hours, minutes, seconds) require the \`T\` designator after \`P\`
 - Date-based durations (days, weeks) do NOT use the \`T\` designator
 - For UNTIL dates, use UTC format: YYYYMMDDTHHMMSSZ
+- Malformed RRULEs are rejected by create_task/update_task; use the \`preview_recurrence\` tool to list the dates a rule produces (预览重复日期)
 `;
 
 /**
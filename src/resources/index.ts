@@ -7,6 +7,8 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 import { registerTerminologyResource } from "./terminology.js";
 import { registerICalendarFormatResource } from "./icalendar-format.js";
+import { registerTaskCalendarResource } from "./task-calendar.js";
+import { registerSmartListResource } from "./smart-list.js";
 
 /**
  * Register all resources with the MCP server
@@ -18,4 +20,10 @@ export function registerAllResources(server: McpServer): void {
 
     // Register iCalendar format reference resource for reminders and repeat rules
     registerICalendarFormatResource(server);
+
+    // Register task calendar resource template (iCalendar feed per project)
+    registerTaskCalendarResource(server);
+
+    // Register smart list resource template (saved task queries)
+    registerSmartListResource(server);
 }
@@ -0,0 +1,53 @@
+/**
+ * Resource: Smart List
+ * Serves the tasks of a saved smart list as JSON
+ * URI: dida365://smart-list/{name}
+ */
+
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ResourceRegistrationFunction } from "./terminology.js";
+import { getSmartList, listSmartLists, runSmartList } from "../smart-lists.js";
+
+/**
+ * Register the smart list resource template
+ */
+export const registerSmartListResource: ResourceRegistrationFunction = (server) => {
+    server.registerResource(
+        "smart-list",
+        new ResourceTemplate("dida365://smart-list/{name}", {
+            list: async () => ({
+                resources: listSmartLists().map((list) => ({
+                    uri: `dida365://smart-list/${encodeURIComponent(list.name)}`,
+                    name: `${list.name} (smart list)`,
+                    ...(list.description && { description: list.description }),
+                    mimeType: "application/json",
+                })),
+            }),
+        }),
+        {
+            description: `Tasks matching a saved smart list (saved list_tasks query), run when read. {name} is the smart list name.
+智能清单：读取时按保存的筛选条件返回任务。`,
+            mimeType: "application/json",
+        },
+        async (uri, variables) => {
+            const raw = Array.isArray(variables.name) ? variables.name[0] : variables.name;
+            const name = decodeURIComponent(raw ?? "");
+            const list = getSmartList(name);
+            if (!list) {
+                throw new Error(`Smart list "${name}" not found`);
+            }
+
+            const result = await runSmartList(list);
+
+            return {
+                contents: [
+                    {
+                        uri: uri.href,
+                        mimeType: "application/json",
+                        text: JSON.stringify(result, null, 2),
+                    },
+                ],
+            };
+        }
+    );
+};
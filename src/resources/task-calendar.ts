@@ -0,0 +1,75 @@
+/**
+ * Resource: Task Calendar
+ * Serves uncompleted tasks as an iCalendar (RFC 5545) feed per project
+ * URI: dida365://calendar/{project} where project is a project ID, name, "inbox" or "all"
+ */
+
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ResourceRegistrationFunction } from "./terminology.js";
+import { fetchTasksAcrossProjects, listProjects } from "../api/index.js";
+import { buildTaskCalendar } from "../utils/task-calendar.js";
+
+const CALENDAR_MIME_TYPE = "text/calendar";
+
+/**
+ * Register the task calendar resource template
+ */
+export const registerTaskCalendarResource: ResourceRegistrationFunction = (server) => {
+    server.registerResource(
+        "task-calendar",
+        new ResourceTemplate("dida365://calendar/{project}", {
+            list: async () => {
+                // Listing needs authorization; offer only the combined calendar until then
+                const resources = [{
+                    uri: "dida365://calendar/all",
+                    name: "All tasks (所有任务)",
+                    mimeType: CALENDAR_MIME_TYPE,
+                }];
+                try {
+                    const projects = await listProjects();
+                    for (const project of projects) {
+                        resources.push({
+                            uri: `dida365://calendar/${project.id}`,
+                            name: `${project.name} (calendar)`,
+                            mimeType: CALENDAR_MIME_TYPE,
+                        });
+                    }
+                } catch {
+                    // Not authorized yet or API unavailable
+                }
+                return { resources };
+            },
+        }),
+        {
+            description: `Uncompleted tasks as an iCalendar (.ics, RFC 5545) feed for subscribing in calendar apps.
+{project} is a project ID, project name, "inbox" or "all". Timed tasks are VEVENTs, other tasks VTODOs, with RRULE, VALARM and VTIMEZONE.
+以 iCalendar 格式提供清单中的未完成任务，可订阅到其他日历应用。`,
+            mimeType: CALENDAR_MIME_TYPE,
+        },
+        async (uri, variables) => {
+            const raw = Array.isArray(variables.project) ? variables.project[0] : variables.project;
+            const project = decodeURIComponent(raw ?? "all");
+            const projectIds = project.toLowerCase() === "all" ? undefined : [project];
+
+            const { tasks, projects, failedProjects, projectsById } = await fetchTasksAcrossProjects(projectIds);
+            if (projectIds && projects.length === 0) {
+                throw new Error(`Failed to load calendar for "${project}": ${failedProjects[0]?.error ?? "Project not found"}`);
+            }
+
+            const calendar = buildTaskCalendar(tasks, {
+                calendarName: projectIds ? projects[0] : "Dida365",
+                projectNames: new Map([...projectsById.values()].map((p) => [p.id, p.name])),
+            });
+
+            return {
+                contents: [
+                    {
+                        uri: uri.href,
+                        mimeType: CALENDAR_MIME_TYPE,
+                        text: calendar.ics,
+                    },
+                ],
+            };
+        }
+    );
+};
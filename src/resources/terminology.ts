@@ -95,8 +95,20 @@ The **Inbox (收集箱)** is designed for tasks that are **temporarily inconveni
 | 设置提醒 | Set reminder | create_task/update_task with reminders[] |
 | 完成任务 | Complete task | complete_task |
 | 删除任务 | Delete task | delete_task |
+| 把任务移到另一个清单 | Move task to another project | move_task |
+| 导出任务到日历 | Export tasks to a calendar | export_tasks_ics |
+| 导入日历文件为任务 | Import an .ics file as tasks | import_ics |
+| 重复任务下次什么时候 | When does the recurring task happen next | preview_recurrence |
+| 这周的日程安排 | What does my week look like | get_agenda |
+| 保存为智能清单 | Save as a smart list | create_smart_list |
+| 打开智能清单 | Open a smart list | run_smart_list |
+| 回收站里有什么 | What is in the trash | list_trash |
+| 恢复刚删除的任务 | Restore the task I just deleted | restore_from_trash |
+| 撤销上一步操作 | Undo the last change | undo_last_operation |
 | 今天的任务 | Today's tasks | list_tasks with preset: "today" |
 | 逾期任务 | Overdue tasks | list_tasks with preset: "overdue" |
+| 带某标签的任务 | Tasks with a tag | list_tasks with tags: ["work"] |
+| 没有截止日期的任务 | Tasks without a due date | list_tasks with noDueDate: true |
 | 本周任务 | This week's tasks | list_tasks with preset: "thisWeek" |
 
 ## Notes
@@ -0,0 +1,232 @@
+/**
+ * Smart Lists Module
+ *
+ * Saved task queries (smart lists, 智能清单) stored locally, so frequently
+ * used list_tasks filters can be run again by name
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { queryTasks, type FailedProject } from './api/index.js';
+import { annotateTask, type TaskAnnotations } from './utils/humanize.js';
+import type { Task } from './api/types.js';
+import type { TaskQuery } from './utils/task-filter.js';
+
+/**
+ * Saved query
+ */
+export interface SmartList {
+    name: string;
+    description?: string;
+    /** list_tasks parameters; date bounds are resolved each time the list runs */
+    query: TaskQuery;
+    createdAt: string; // ISO 8601
+    updatedAt: string; // ISO 8601
+}
+
+/**
+ * Smart list file structure
+ */
+interface SmartListFile {
+    version: 1;
+    lists: SmartList[];
+}
+
+/**
+ * Result of running a smart list
+ */
+export interface SmartListRun {
+    name: string;
+    description?: string;
+    query: TaskQuery;
+    tasks: Array<Task & TaskAnnotations>;
+    total: number;
+    totalBeforeLimit: number;
+    truncated: boolean;
+    projections?: number;
+    projects: string[];
+    failedProjects: FailedProject[];
+    resolvedRange?: {
+        dueDateFrom?: string;
+        dueDateTo?: string;
+        startDateFrom?: string;
+        startDateTo?: string;
+    };
+}
+
+/**
+ * Longest smart list name
+ */
+export const MAX_SMART_LIST_NAME_LENGTH = 64;
+
+/**
+ * Smart list storage path
+ */
+const SMART_LIST_DIR = path.join(os.homedir(), '.dida365-mcp');
+const SMART_LIST_FILE = path.join(SMART_LIST_DIR, 'smart-lists.json');
+
+/**
+ * Load saved lists, or none if the file does not exist or is unreadable
+ */
+function loadSmartLists(): SmartListFile {
+    if (!fs.existsSync(SMART_LIST_FILE)) {
+        return { version: 1, lists: [] };
+    }
+
+    try {
+        const file = JSON.parse(fs.readFileSync(SMART_LIST_FILE, 'utf-8')) as SmartListFile;
+        return Array.isArray(file.lists) ? file : { version: 1, lists: [] };
+    } catch (error) {
+        console.error('Failed to load smart lists:', error);
+        return { version: 1, lists: [] };
+    }
+}
+
+function writeSmartLists(file: SmartListFile): void {
+    if (!fs.existsSync(SMART_LIST_DIR)) {
+        fs.mkdirSync(SMART_LIST_DIR, { recursive: true, mode: 0o700 });
+    }
+    fs.writeFileSync(SMART_LIST_FILE, JSON.stringify(file, null, 2), { mode: 0o600 });
+}
+
+function sameName(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Validate a smart list name (used in dida365://smart-list/{name} URIs)
+ *
+ * @throws {Error} If the name is empty, too long or contains "/"
+ */
+export function validateSmartListName(name: string): string {
+    const trimmed = name.trim();
+    if (trimmed === '') {
+        throw new Error('Smart list name must be a non-empty string');
+    }
+    if (trimmed.length > MAX_SMART_LIST_NAME_LENGTH) {
+        throw new Error(`Smart list name must be at most ${MAX_SMART_LIST_NAME_LENGTH} characters`);
+    }
+    if (trimmed.includes('/')) {
+        throw new Error('Smart list name must not contain "/"');
+    }
+    return trimmed;
+}
+
+/**
+ * Get all saved smart lists, sorted by name
+ */
+export function listSmartLists(): SmartList[] {
+    return [...loadSmartLists().lists].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Find a smart list by name (case-insensitive)
+ */
+export function getSmartList(name: string): SmartList | undefined {
+    return loadSmartLists().lists.find((list) => sameName(list.name, name));
+}
+
+/**
+ * Save a new smart list
+ *
+ * @throws {Error} If a list with the same name exists
+ */
+export function createSmartList(name: string, query: TaskQuery, description?: string): SmartList {
+    const file = loadSmartLists();
+    const listName = validateSmartListName(name);
+    if (file.lists.some((list) => sameName(list.name, listName))) {
+        throw new Error(`Smart list "${listName}" already exists. Use 'update_smart_list' to change it`);
+    }
+
+    const now = new Date().toISOString();
+    const list: SmartList = {
+        name: listName,
+        ...(description && { description }),
+        query,
+        createdAt: now,
+        updatedAt: now,
+    };
+    file.lists.push(list);
+    writeSmartLists(file);
+    return list;
+}
+
+/**
+ * Update a smart list (rename, new description or new query)
+ *
+ * @throws {Error} If the list does not exist or the new name is taken
+ */
+export function updateSmartList(
+    name: string,
+    changes: { name?: string; description?: string; query?: TaskQuery }
+): SmartList {
+    const file = loadSmartLists();
+    const index = file.lists.findIndex((list) => sameName(list.name, name));
+    if (index < 0) {
+        throw new Error(`Smart list "${name}" not found`);
+    }
+
+    const newName = changes.name !== undefined ? validateSmartListName(changes.name) : file.lists[index].name;
+    if (file.lists.some((list, i) => i !== index && sameName(list.name, newName))) {
+        throw new Error(`Smart list "${newName}" already exists`);
+    }
+
+    const updated: SmartList = {
+        ...file.lists[index],
+        name: newName,
+        ...(changes.description !== undefined && { description: changes.description }),
+        ...(changes.query !== undefined && { query: changes.query }),
+        updatedAt: new Date().toISOString(),
+    };
+    if (updated.description === '') delete updated.description;
+
+    file.lists[index] = updated;
+    writeSmartLists(file);
+    return updated;
+}
+
+/**
+ * Delete a smart list
+ *
+ * @returns The deleted list, or undefined if it did not exist
+ */
+export function deleteSmartList(name: string): SmartList | undefined {
+    const file = loadSmartLists();
+    const index = file.lists.findIndex((list) => sameName(list.name, name));
+    if (index < 0) return undefined;
+
+    const [deleted] = file.lists.splice(index, 1);
+    writeSmartLists(file);
+    return deleted;
+}
+
+/**
+ * Run a smart list's query
+ *
+ * @param list - Smart list
+ * @param options - Result limit (default 50, max 200) and cache options
+ */
+export async function runSmartList(
+    list: SmartList,
+    options: { limit?: number; forceRefresh?: boolean } = {}
+): Promise<SmartListRun> {
+    const limit = Math.min(options.limit ?? 50, 200);
+    const { tasks, projections, projects, failedProjects, resolved } =
+        await queryTasks(list.query, { forceRefresh: options.forceRefresh });
+
+    const limited = tasks.slice(0, limit).map(annotateTask);
+    return {
+        name: list.name,
+        ...(list.description && { description: list.description }),
+        query: list.query,
+        tasks: limited,
+        total: limited.length,
+        totalBeforeLimit: tasks.length,
+        truncated: limited.length < tasks.length,
+        ...(list.query.expandRecurring && { projections }),
+        projects,
+        failedProjects,
+        ...(resolved.resolvedRange && { resolvedRange: resolved.resolvedRange }),
+    };
+}
@@ -15,6 +15,7 @@ import { sha256 } from './utils/hash.js';
  */
 export interface TokenData {
     access_token: string;
+    refresh_token?: string;
     expires_at: number;  // Unix timestamp (ms)
     created_at: number;  // Unix timestamp (ms)
     scope: string;
@@ -36,6 +37,46 @@ export interface TokenValidationContext {
     region: string;
 }
 
+/**
+ * Token refresh configuration
+ * Client credentials and endpoint required for the refresh_token grant
+ */
+export interface TokenRefreshConfig {
+    clientId: string;
+    clientSecret: string;
+    tokenEndpoint: string;
+}
+
+/**
+ * Token endpoint response (RFC 6749 section 5.1)
+ */
+interface TokenResponse {
+    access_token?: string;
+    refresh_token?: string;
+    expires_in?: number;
+    scope?: string;
+    token_type?: string;
+}
+
+/**
+ * Lifetime assumed when the token endpoint omits expires_in (refreshing early is harmless)
+ */
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 3600;
+
+/**
+ * Error thrown when a token refresh fails
+ */
+export class TokenRefreshError extends Error {
+    /** True if the refresh token itself was rejected (re-authorization needed), false for network errors or server outages */
+    public permanent: boolean;
+
+    constructor(message: string, permanent: boolean) {
+        super(message);
+        this.name = 'TokenRefreshError';
+        this.permanent = permanent;
+    }
+}
+
 /**
  * Create a token validation context from raw credentials
  * Pre-computes the clientSecretHash to optimize repeated validations
@@ -57,6 +98,19 @@ export function createValidationContext(
     };
 }
 
+/**
+ * In-flight refresh shared by all TokenManager instances
+ * Tokens are stored in a single file, so concurrent requests (from any instance)
+ * must wait for the same refresh instead of each spending the refresh token.
+ */
+let inFlightRefresh: Promise<TokenData> | null = null;
+
+/**
+ * Last failed refresh (null if none or after a successful refresh)
+ * Only a permanent failure stops the token from being reported as refreshable.
+ */
+let lastRefreshError: { message: string; permanent: boolean } | null = null;
+
 /**
  * Token storage path
  */
@@ -196,6 +250,69 @@ export function validateToken(tokenData: TokenData, context: TokenValidationCont
         validateTokenRegion(tokenData, context.region);
 }
 
+/**
+ * Exchange a refresh token for a new access token
+ *
+ * @param {TokenData} tokenData - Current token data (must include refresh_token)
+ * @param {TokenRefreshConfig} config - Client credentials and token endpoint
+ * @returns {Promise<TokenData>} New token data, preserving metadata of the current token
+ * @throws {TokenRefreshError} If the refresh fails; permanent if the refresh token or client was rejected
+ */
+export async function requestTokenRefresh(tokenData: TokenData, config: TokenRefreshConfig): Promise<TokenData> {
+    if (!tokenData.refresh_token) {
+        throw new TokenRefreshError('No refresh token available', true);
+    }
+
+    const params = new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: tokenData.refresh_token,
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+    });
+
+    let response: Response;
+    try {
+        response = await fetch(config.tokenEndpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: params.toString(),
+        });
+    } catch (error) {
+        throw new TokenRefreshError(`Token refresh failed: ${error instanceof Error ? error.message : String(error)}`, false);
+    }
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        // 401 or an OAuth error for the grant/client means retrying will not help; 5xx, 429 etc. may pass
+        const permanent = response.status === 401 ||
+            (response.status === 400 && /invalid_grant|invalid_client|unauthorized_client/.test(errorText));
+        throw new TokenRefreshError(`Token refresh failed: ${response.status} ${errorText}`, permanent);
+    }
+
+    const data = await response.json() as TokenResponse;
+
+    if (!data.access_token) {
+        throw new TokenRefreshError('Token refresh failed: response did not include an access token', false);
+    }
+
+    const expiresIn = typeof data.expires_in === 'number' && data.expires_in > 0
+        ? data.expires_in
+        : DEFAULT_TOKEN_LIFETIME_SECONDS;
+
+    return {
+        ...tokenData,
+        access_token: data.access_token,
+        // Keep the old refresh token if the server does not rotate it
+        refresh_token: data.refresh_token || tokenData.refresh_token,
+        expires_at: Date.now() + (expiresIn * 1000),
+        created_at: Date.now(),
+        scope: data.scope || tokenData.scope,
+        token_type: data.token_type || tokenData.token_type,
+    };
+}
+
 /**
  * Token Manager class
  * 
@@ -205,17 +322,23 @@ export function validateToken(tokenData: TokenData, context: TokenValidationCont
  * 
  * Uses TokenValidationContext to pre-compute clientSecretHash, avoiding
  * repeated SHA256 calculations during token validation.
+ *
+ * When a refresh configuration is provided, tokens are refreshed silently
+ * ahead of expiry using the stored refresh_token.
  */
 export class TokenManager {
     private validationContext: TokenValidationContext;
+    private refreshConfig?: TokenRefreshConfig;
 
     /**
      * Create a TokenManager instance
      * 
      * @param {TokenValidationContext} context - Pre-computed validation context
+     * @param {TokenRefreshConfig} refreshConfig - Client credentials for refreshing tokens (optional)
      */
-    constructor(context: TokenValidationContext) {
+    constructor(context: TokenValidationContext, refreshConfig?: TokenRefreshConfig) {
         this.validationContext = context;
+        this.refreshConfig = refreshConfig;
 
         // Validate and clean up invalid token on startup
         this.validateStoredToken();
@@ -261,8 +384,11 @@ export class TokenManager {
     /**
      * Get valid Access Token
      * 
+     * Refreshes the token when it is about to expire. If the refresh fails but
+     * the current token has not actually expired yet, the current token is returned.
+     * 
      * @returns {Promise<string>} Valid Access Token
-     * @throws {Error} If no token available or token is expired
+     * @throws {Error} If no token available, or token is expired and cannot be refreshed
      */
     async getValidToken(): Promise<string> {
         const tokenData = this.loadValidToken();
@@ -271,12 +397,95 @@ export class TokenManager {
             throw new Error('No token available. Please authorize first.');
         }
 
-        // Check if expired
-        if (isTokenExpired(tokenData)) {
+        // Check if expired (or about to expire)
+        if (!isTokenExpired(tokenData)) {
+            return tokenData.access_token;
+        }
+
+        if (!this.canRefresh(tokenData)) {
             throw new Error('Token expired. Please re-authorize.');
         }
 
-        return tokenData.access_token;
+        try {
+            const refreshed = await this.refreshToken(tokenData);
+            return refreshed.access_token;
+        } catch (error) {
+            // Still inside the expiry buffer, the current token is usable
+            if (!isTokenExpired(tokenData, 0)) {
+                return tokenData.access_token;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Refresh the token, sharing a single in-flight refresh between concurrent callers
+     * 
+     * @param {TokenData} tokenData - Current token data
+     * @returns {Promise<TokenData>} Refreshed token data
+     */
+    private refreshToken(tokenData: TokenData): Promise<TokenData> {
+        if (!inFlightRefresh) {
+            inFlightRefresh = this.performRefresh(tokenData).finally(() => {
+                inFlightRefresh = null;
+            });
+        }
+        return inFlightRefresh;
+    }
+
+    /**
+     * Perform the refresh request and persist the result
+     */
+    private async performRefresh(tokenData: TokenData): Promise<TokenData> {
+        try {
+            const refreshed = await requestTokenRefresh(tokenData, this.refreshConfig!);
+            saveToken(refreshed);
+            lastRefreshError = null;
+            console.error('Access token refreshed');
+            return refreshed;
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            const permanent = !(error instanceof TokenRefreshError) || error.permanent;
+            lastRefreshError = { message: errorMsg, permanent };
+            console.error(`Failed to refresh access token: ${errorMsg}`);
+            throw new Error(permanent
+                ? `${errorMsg}. Please re-authorize.`
+                : `${errorMsg}. The refresh will be retried on the next request.`);
+        }
+    }
+
+    /**
+     * Check if the given token can be refreshed
+     */
+    private canRefresh(tokenData: TokenData): boolean {
+        return !!tokenData.refresh_token && !!this.refreshConfig;
+    }
+
+    /**
+     * Check if the stored token can be refreshed and its refresh token was not rejected
+     *
+     * A transient failure (network error, server outage) does not count: the
+     * refresh is retried on the next request.
+     * 
+     * @returns {boolean} Whether an expired token is expected to be renewed silently
+     */
+    isRefreshable(): boolean {
+        const tokenData = this.loadValidToken();
+
+        if (!tokenData) {
+            return false;
+        }
+
+        return this.canRefresh(tokenData) && !lastRefreshError?.permanent;
+    }
+
+    /**
+     * Get the error message of the last failed refresh
+     * 
+     * @returns {string | null} Error message, or null if the last refresh succeeded
+     */
+    getLastRefreshError(): string | null {
+        return lastRefreshError?.message ?? null;
     }
 
     /**
@@ -286,6 +495,7 @@ export class TokenManager {
      */
     setToken(tokenData: TokenData): void {
         saveToken(tokenData);
+        lastRefreshError = null;
     }
 
     /**
@@ -317,5 +527,6 @@ export class TokenManager {
      */
     clearToken(): void {
         deleteToken();
+        lastRefreshError = null;
     }
 }
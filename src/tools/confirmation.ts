@@ -0,0 +1,127 @@
+/**
+ * Confirmation for destructive tools
+ *
+ * Destructive tools ask the user before acting. Clients that support MCP
+ * elicitation show the question directly; other clients get a two-step flow
+ * where the first call returns a preview and a short-lived confirmation token,
+ * and only a second call presenting that token performs the action.
+ */
+
+import { randomBytes } from "crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TtlCache } from "../api/cache.js";
+import { sha256 } from "../utils/hash.js";
+
+/**
+ * How long a confirmation token stays valid
+ */
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Maximum number of outstanding confirmation tokens
+ */
+const MAX_PENDING_CONFIRMATIONS = 100;
+
+/**
+ * Destructive request awaiting confirmation
+ */
+export interface ConfirmationRequest {
+    /** Tool name; tokens are only accepted by the same tool */
+    tool: string;
+    /** Resolved targets (e.g. project and task IDs); a token only confirms these exact targets */
+    targets: unknown;
+    /** Question shown to the user */
+    message: string;
+    /** MCP session of the call (HTTP mode); a token is only accepted in the session it was issued to */
+    sessionId?: string;
+}
+
+/**
+ * Result of asking for confirmation
+ */
+export type ConfirmationOutcome =
+    | { status: "confirmed"; via: "elicitation" | "token" }
+    | { status: "declined" }
+    | { status: "pending"; confirmationToken: string; expiresAt: string };
+
+/**
+ * Error thrown for unknown, expired or mismatched confirmation tokens
+ */
+export class ConfirmationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ConfirmationError";
+    }
+}
+
+const pendingConfirmations = new TtlCache<string>(CONFIRMATION_TTL_MS, MAX_PENDING_CONFIRMATIONS);
+
+function fingerprint(request: ConfirmationRequest): string {
+    return sha256(JSON.stringify({ tool: request.tool, targets: request.targets, sessionId: request.sessionId ?? null }));
+}
+
+/**
+ * Ask the user to confirm a destructive request
+ *
+ * A presented token must have been issued for the same tool and targets, in
+ * the same MCP session, and is consumed on use. Without a token, the user is asked through elicitation
+ * if the client supports it (falling back to a token if that fails);
+ * otherwise a new token is issued.
+ *
+ * @param server - MCP server of the current session
+ * @param request - Tool, targets and question
+ * @param confirmationToken - Token returned by the preview call, if any
+ * @throws {ConfirmationError} If the token is invalid, expired or for another request
+ */
+export async function requestConfirmation(
+    server: McpServer,
+    request: ConfirmationRequest,
+    confirmationToken?: string
+): Promise<ConfirmationOutcome> {
+    const key = fingerprint(request);
+
+    if (confirmationToken !== undefined) {
+        const token = confirmationToken.trim();
+        if (pendingConfirmations.get(token) !== key) {
+            throw new ConfirmationError(
+                `Confirmation token is invalid, expired or was issued for a different request. ` +
+                `Call '${request.tool}' again without confirmationToken to get a new preview`
+            );
+        }
+        pendingConfirmations.delete(token);
+        return { status: "confirmed", via: "token" };
+    }
+
+    if (server.server.getClientCapabilities()?.elicitation) {
+        try {
+            const result = await server.server.elicitInput({
+                message: request.message,
+                requestedSchema: {
+                    type: "object",
+                    properties: {
+                        confirm: {
+                            type: "boolean",
+                            title: "Delete (删除)",
+                            description: "Confirm the deletion (确认删除)",
+                            default: false,
+                        },
+                    },
+                    required: ["confirm"],
+                },
+            });
+            return result.action === "accept" && result.content?.confirm === true
+                ? { status: "confirmed", via: "elicitation" }
+                : { status: "declined" };
+        } catch (error) {
+            console.error(`Elicitation failed for '${request.tool}', falling back to confirmation token:`, error);
+        }
+    }
+
+    const token = randomBytes(9).toString("base64url");
+    pendingConfirmations.set(token, key);
+    return {
+        status: "pending",
+        confirmationToken: token,
+        expiresAt: new Date(Date.now() + CONFIRMATION_TTL_MS).toISOString(),
+    };
+}
@@ -26,15 +26,42 @@ import { registerUpdateTask } from "./task/update-task.js";
 import { registerDeleteTask } from "./task/delete-task.js";
 import { registerCompleteTask } from "./task/complete-task.js";
 import { registerListTasks } from "./task/list-tasks.js";
+import { registerSearchTasks } from "./task/search-tasks.js";
+import { registerMoveTask } from "./task/move-task.js";
+import { registerExportTasksIcs } from "./task/export-tasks-ics.js";
+import { registerImportIcs } from "./task/import-ics.js";
+import { registerPreviewRecurrence } from "./task/preview-recurrence.js";
+import { registerGetAgenda } from "./task/get-agenda.js";
+
+// Import smart list tools
+import { registerCreateSmartList } from "./smart-list/create-smart-list.js";
+import { registerListSmartLists } from "./smart-list/list-smart-lists.js";
+import { registerUpdateSmartList } from "./smart-list/update-smart-list.js";
+import { registerDeleteSmartList } from "./smart-list/delete-smart-list.js";
+import { registerRunSmartList } from "./smart-list/run-smart-list.js";
+
+// Import trash tools
+import { registerListTrash } from "./trash/list-trash.js";
+import { registerRestoreFromTrash } from "./trash/restore-from-trash.js";
+
+// Import operation journal tools
+import { registerListOperations } from "./journal/list-operations.js";
+import { registerUndoLastOperation } from "./journal/undo-last-operation.js";
+
+// Tool policy
+import { applyPolicy } from "./policy.js";
 
 /**
  * Register all tools with the MCP server
- * @param server - MCP server instance
- * @param context - Tool context with shared dependencies
+ * @param mcpServer - MCP server instance
+ * @param context - Tool context with shared dependencies (and the tool policy, if any)
  * @param readOnly - If true, only register read-only tools (hide write/delete operations)
  */
-export function registerAllTools(server: McpServer, context: ToolContext, readOnly: boolean = false): void {
-    // Register OAuth/Authentication tools (always available)
+export function registerAllTools(mcpServer: McpServer, context: ToolContext, readOnly: boolean = false): void {
+    // Tools denied by the policy are hidden; allowed ones are checked against its limits on every call
+    const server = context.policy ? applyPolicy(mcpServer, context.policy) : mcpServer;
+
+    // Register OAuth/Authentication tools (always available unless denied by the policy)
     // Note: revoke_auth only clears local tokens, doesn't modify remote data
     registerGetAuthUrl(server, context);
     registerCheckAuthStatus(server, context);
@@ -55,6 +82,10 @@ export function registerAllTools(server: McpServer, context: ToolContext, readOn
     // Register Task management tools
     registerGetTask(server, context);   // Read-only
     registerListTasks(server, context); // Read-only
+    registerSearchTasks(server, context); // Read-only
+    registerExportTasksIcs(server, context); // Read-only
+    registerPreviewRecurrence(server, context); // Read-only
+    registerGetAgenda(server, context); // Read-only
 
     // Write/Delete operations - only register in writable mode
     if (!readOnly) {
@@ -62,5 +93,31 @@ export function registerAllTools(server: McpServer, context: ToolContext, readOn
         registerUpdateTask(server, context);
         registerDeleteTask(server, context);
         registerCompleteTask(server, context);
+        registerMoveTask(server, context);
+        registerImportIcs(server, context);
+    }
+
+    // Register smart list tools (always available)
+    // Note: smart lists are saved queries stored locally; they never modify remote data
+    registerListSmartLists(server, context);
+    registerRunSmartList(server, context);
+    registerCreateSmartList(server, context);
+    registerUpdateSmartList(server, context);
+    registerDeleteSmartList(server, context);
+
+    // Register trash tools
+    registerListTrash(server, context); // Read-only
+
+    // Restoring recreates remote tasks/projects - only register in writable mode
+    if (!readOnly) {
+        registerRestoreFromTrash(server, context);
+    }
+
+    // Register operation journal tools
+    registerListOperations(server, context); // Read-only
+
+    // Undoing changes remote tasks/projects - only register in writable mode
+    if (!readOnly) {
+        registerUndoLastOperation(server, context);
     }
 }
@@ -0,0 +1,62 @@
+/**
+ * Tool: List Operations
+ * Show recent write operations recorded in the operation journal
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { describeChange, listJournal } from "../../journal.js";
+
+export const registerListOperations: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "list_operations",
+        {
+            title: "List Operations",
+            description: `List recent write operations from the local operation journal (操作日志), newest first.
+
+WHEN TO USE:
+- Find the journalId of an earlier operation to pass to 'undo_last_operation'
+- Check what was changed recently and whether it was already undone
+
+OPTIONAL:
+- limit: Maximum operations to return (default 20)`,
+            inputSchema: {
+                limit: z.number().int().min(1).max(200).optional().describe("Maximum operations to return (default 20)"),
+            },
+        },
+        async (args) => {
+            try {
+                const { limit = 20 } = args as { limit?: number };
+
+                const operations = listJournal().slice(0, limit).map((entry) => ({
+                    journalId: entry.id,
+                    tool: entry.tool,
+                    createdAt: entry.createdAt,
+                    ...(entry.undoneAt && { undoneAt: entry.undoneAt }),
+                    changeCount: entry.changes.length,
+                    items: entry.changes.map((change) => ({ action: change.action, ...describeChange(change) })),
+                }));
+                const output = { operations, total: operations.length };
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: operations.length > 0
+                                ? `Found ${operations.length} recent operation(s)`
+                                : "No operations recorded yet",
+                        },
+                        { type: "text", text: JSON.stringify(output) },
+                    ],
+                    structuredContent: output as unknown as Record<string, unknown>,
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                return {
+                    content: [{ type: "text", text: `Failed to list operations: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
@@ -0,0 +1,184 @@
+/**
+ * Tool: Undo Last Operation
+ * Revert the changes made by a journaled write operation
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { describeChange, findUndoableOperation, undoOperation } from "../../journal.js";
+import { isDryRun } from "../../config.js";
+import { requestConfirmation } from "../confirmation.js";
+
+/**
+ * Most items listed in the confirmation question
+ */
+const MAX_LISTED_ITEMS = 10;
+
+export const registerUndoLastOperation: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "undo_last_operation",
+        {
+            title: "Undo Last Operation",
+            description: `Undo the most recent write operation (撤销上一步操作), or a specific one by journal ID.
+
+Every call to create_task, update_task, complete_task, delete_task, move_task, import_ics, create_project, update_project and delete_project is recorded in a local operation journal (操作日志) with the state before and after; their responses include a journalId.
+
+INVERSE OPERATIONS:
+- create_task / import_ics → delete the created tasks (copies kept in the trash)
+- update_task → restore the previous field values
+- complete_task → reopen the tasks (not recurring tasks: completing one advances it to the next occurrence, which cannot be undone)
+- delete_task → recreate the tasks (new IDs)
+- move_task → move the tasks back (new IDs)
+- create_project → delete the project (copy kept in the trash)
+- update_project → restore the previous name, color, view, etc.
+- delete_project → recreate the project and its open tasks from the trash (new IDs)
+
+WHEN TO USE:
+- User says the last change was wrong (撤销, 改回去), e.g. tasks rescheduled to the wrong week
+- Revert an earlier operation → pass its journalId (see 'list_operations')
+
+⚠️ Items edited again after the operation are NOT reverted (reported in failed[]) unless force is true.
+Items that could not be reverted stay in the journal: call again (optionally with force) to retry them. Once an operation is fully undone, the next call undoes the one before it.
+
+CONFIRMATION (确认): Undoing create_task, import_ics or create_project deletes tasks or projects, so it is confirmed like 'delete_task':
+- Clients with elicitation support: the user is asked to confirm before anything is deleted
+- Other clients: the first call changes nothing and returns a preview and a confirmationToken. Show the preview to the user and, only after they agree, call again with the same journalId (returned in the preview) and the confirmationToken (valid for 5 minutes, single use)`,
+            inputSchema: {
+                journalId: z.string().optional().describe("Journal ID of the operation to undo (default: most recent not yet undone)"),
+                force: z.boolean().optional().describe("Revert fields even if they were changed after the operation (default false)"),
+                confirmationToken: z.string().optional().describe("Token from the preview call, after the user confirmed (确认令牌)"),
+            },
+        },
+        async (args, extra) => {
+            try {
+                const { journalId, force, confirmationToken } = args as {
+                    journalId?: string;
+                    force?: boolean;
+                    confirmationToken?: string;
+                };
+
+                if (isDryRun()) {
+                    const entry = findUndoableOperation(journalId);
+                    const preview = {
+                        dryRun: true,
+                        journalId: entry.id,
+                        tool: entry.tool,
+                        createdAt: entry.createdAt,
+                        changes: [...entry.changes].reverse().map((change) => ({ action: change.action, ...describeChange(change) })),
+                    };
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Dry run: ${preview.changes.length} change(s) of '${entry.tool}' from ${entry.createdAt} would be reverted. Nothing was changed.`,
+                            },
+                            { type: "text", text: JSON.stringify(preview) },
+                        ],
+                        structuredContent: preview as unknown as Record<string, unknown>,
+                    };
+                }
+
+                // Reverting a create deletes the created tasks and projects
+                const entry = findUndoableOperation(journalId);
+                const deletions = entry.changes
+                    .filter((change) => change.action === "createTask" || change.action === "createProject")
+                    .map((change) => ({ action: change.action, ...describeChange(change) }));
+
+                if (deletions.length > 0) {
+                    const listed = deletions.slice(0, MAX_LISTED_ITEMS)
+                        .map((item) => `- ${item.action === "createProject" ? "project" : "task"} "${item.title}"`);
+                    if (deletions.length > MAX_LISTED_ITEMS) {
+                        listed.push(`- ...and ${deletions.length - MAX_LISTED_ITEMS} more`);
+                    }
+                    const confirmation = await requestConfirmation(
+                        server,
+                        {
+                            tool: "undo_last_operation",
+                            sessionId: extra.sessionId,
+                            targets: { journalId: entry.id, deletions: deletions.map((item) => `${item.projectId}/${item.taskId ?? ""}`) },
+                            message: `Undoing '${entry.tool}' deletes ${deletions.length} item(s) from Dida365 (copies are kept in the trash). Continue? ` +
+                                `(撤销将从滴答清单删除 ${deletions.length} 项，副本保留在回收站)\n${listed.join("\n")}`,
+                        },
+                        confirmationToken
+                    );
+
+                    if (confirmation.status === "declined") {
+                        const output = { journalId: entry.id, undone: false, cancelled: true, deletions };
+                        return {
+                            content: [
+                                { type: "text", text: "Undo cancelled by the user. Nothing was changed." },
+                                { type: "text", text: JSON.stringify(output) },
+                            ],
+                            structuredContent: output as unknown as Record<string, unknown>,
+                        };
+                    }
+
+                    if (confirmation.status === "pending") {
+                        const output = {
+                            journalId: entry.id,
+                            undone: false,
+                            deletions,
+                            confirmationToken: confirmation.confirmationToken,
+                            expiresAt: confirmation.expiresAt,
+                        };
+                        return {
+                            content: [
+                                {
+                                    type: "text",
+                                    text: `Confirmation required. Undoing '${entry.tool}' would delete ${deletions.length} item(s) (copies kept in the trash):\n${listed.join("\n")}\n` +
+                                        `Nothing was changed. After the user confirms, call 'undo_last_operation' again with journalId "${entry.id}" and confirmationToken "${confirmation.confirmationToken}" (expires ${confirmation.expiresAt}).`,
+                                },
+                                { type: "text", text: JSON.stringify(output) },
+                            ],
+                            structuredContent: output as unknown as Record<string, unknown>,
+                        };
+                    }
+                }
+
+                const result = await undoOperation(entry.id, { force });
+                const total = result.reverted.length + result.failed.length;
+
+                let message: string;
+                if (result.failed.length === 0) {
+                    message = `Undid '${result.tool}' from ${result.createdAt}: ${total} change(s) reverted.`;
+                } else if (result.reverted.length === 0) {
+                    message = `Could not undo '${result.tool}' from ${result.createdAt}: none of ${total} change(s) could be reverted.`;
+                } else {
+                    message = `Partly undid '${result.tool}' from ${result.createdAt}: ${result.reverted.length}/${total} change(s) reverted, ${result.failed.length} could not be reverted.`;
+                }
+                if (result.failed.length > 0) {
+                    message += "\n" + result.failed.map((item) => `- "${item.title}": ${item.error}`).join("\n") +
+                        `\nTo retry, call 'undo_last_operation' again with journalId "${result.journalId}" (and force: true to overwrite later edits).`;
+                }
+
+                return {
+                    content: [
+                        { type: "text", text: message },
+                        { type: "text", text: JSON.stringify(result) },
+                    ],
+                    structuredContent: result as unknown as Record<string, unknown>,
+                    isError: result.failed.length > 0 && result.reverted.length === 0,
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+
+                // Check if it's an authorization error
+                if (errorMsg.includes("401") || errorMsg.includes("Unauthorized") || errorMsg.includes("Authentication failed")) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Authorization failed: ${errorMsg}. Please use the 'get_auth_url' tool to re-authorize.`,
+                            isError: true
+                        }],
+                        isError: true,
+                    };
+                }
+
+                return {
+                    content: [{ type: "text", text: `Failed to undo operation: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
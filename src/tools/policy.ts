@@ -0,0 +1,259 @@
+/**
+ * Tool policy enforcement
+ *
+ * Wraps tool registration so that tools denied by the policy file are never
+ * registered, and every call to an allowed tool is checked against the
+ * policy limits before its handler makes any API call.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { isInboxReference, listProjects, matchProject, ProjectResolutionError, resolveProjectId, type ProjectMatchMode } from "../api/index.js";
+import type { Project } from "../api/types.js";
+import { checkBatchSize, isToolAllowed, PolicyViolationError, type ToolPolicy } from "../policy.js";
+import { describeChange, findUndoableOperation, type JournalChange } from "../journal.js";
+import { getTrashEntry } from "../trash.js";
+
+/**
+ * What a tool call would touch
+ */
+interface PolicyTargets {
+    /** Tasks the call would change (checked against maxTasksPerBatch) */
+    taskCount: number;
+    /** Project references the call would write to */
+    writes: string[];
+    /** Project references the call would delete tasks or projects in (also writes) */
+    deletes: string[];
+    /** How loosely the tool matches project names, so the policy resolves them the same way */
+    match: ProjectMatchMode;
+}
+
+type TaskArgs = { tasks?: Array<{ projectId?: string; fromProjectId?: string; toProjectId?: string }> };
+
+function isString(ref: unknown): ref is string {
+    return typeof ref === "string";
+}
+
+function taskTargets(args: Record<string, unknown>, mode: "write" | "delete"): PolicyTargets {
+    const tasks = (args as TaskArgs).tasks ?? [];
+    const projects = tasks.map((task) => task.projectId).filter(isString);
+    return { taskCount: tasks.length, writes: projects, deletes: mode === "delete" ? projects : [], match: mode === "delete" ? "exact" : "fuzzy" };
+}
+
+/**
+ * A move copies the task into the target project and deletes it from the source
+ */
+function moveTargets(args: Record<string, unknown>): PolicyTargets {
+    const tasks = (args as TaskArgs).tasks ?? [];
+    const sources = tasks.map((task) => task.fromProjectId).filter(isString);
+    const destinations = tasks.map((task) => task.toProjectId).filter(isString);
+    return { taskCount: tasks.length, writes: [...sources, ...destinations], deletes: sources, match: "fuzzy" };
+}
+
+function projectTarget(args: Record<string, unknown>, mode: "write" | "delete"): PolicyTargets {
+    const projectId = typeof args.projectId === "string" ? [args.projectId] : [];
+    return { taskCount: 0, writes: projectId, deletes: mode === "delete" ? projectId : [], match: mode === "delete" ? "exact" : "fuzzy" };
+}
+
+/**
+ * Targets of each tool that writes to Dida365, keyed by tool name
+ *
+ * import_ics only knows its task count after parsing, so it checks
+ * maxTasksPerBatch itself.
+ */
+const TARGETS: Record<string, (args: Record<string, unknown>) => PolicyTargets> = {
+    create_task: (args) => taskTargets(args, "write"),
+    update_task: (args) => taskTargets(args, "write"),
+    complete_task: (args) => taskTargets(args, "write"),
+    delete_task: (args) => taskTargets(args, "delete"),
+    move_task: moveTargets,
+    import_ics: (args) => projectTarget(args, "write"),
+    update_project: (args) => projectTarget(args, "write"),
+    delete_project: (args) => projectTarget(args, "delete"),
+
+    restore_from_trash: (args) => {
+        const ids = Array.isArray(args.ids) ? args.ids.filter((id): id is string => typeof id === "string") : [];
+        const entries = ids.map((id) => getTrashEntry(id));
+        const writes = typeof args.projectId === "string"
+            ? [args.projectId]
+            : entries.flatMap((entry) => entry?.kind === "task" ? [entry.task.projectId] : []);
+        const taskCount = entries.reduce((sum, entry) => sum + (entry?.kind === "project" ? entry.tasks.length : 1), 0);
+        return { taskCount, writes, deletes: [], match: "prefix" };
+    },
+
+    undo_last_operation: (args) => {
+        let changes: JournalChange[];
+        try {
+            changes = findUndoableOperation(typeof args.journalId === "string" ? args.journalId : undefined).changes;
+        } catch {
+            // Nothing to undo; reported by the tool
+            return { taskCount: 0, writes: [], deletes: [], match: "exact" };
+        }
+        // Undoing a create deletes what was created, undoing a move deletes the task from
+        // where it was moved to, and a deleted project is recreated as a new one
+        const writes = changes.flatMap((change) => {
+            if (change.action === "deleteProject") return [];
+            if (change.action === "moveTask") return [change.move.projectId, change.move.previousProjectId];
+            return [describeChange(change).projectId];
+        });
+        const deletes = changes
+            .filter((change) => change.action === "createTask" || change.action === "createProject" || change.action === "moveTask")
+            .map((change) => describeChange(change).projectId);
+        return { taskCount: changes.filter((change) => describeChange(change).taskId).length, writes, deletes, match: "exact" };
+    },
+};
+
+/**
+ * Resolve project references the way the tool will
+ *
+ * @returns The resolved project IDs and the references that match no single project
+ */
+async function resolveTargets(refs: string[], match: ProjectMatchMode): Promise<{ ids: string[]; unresolved: string[] }> {
+    const ids = new Set<string>();
+    const unresolved = new Set<string>();
+    for (const ref of refs) {
+        try {
+            ids.add(await resolveProjectId(ref, { match }));
+        } catch (error) {
+            if (!(error instanceof ProjectResolutionError)) {
+                throw error;
+            }
+            unresolved.add(ref);
+        }
+    }
+    return { ids: [...ids], unresolved: [...unresolved] };
+}
+
+function projectLabel(projectId: string, projects: Project[]): string {
+    const project = projects.find((p) => p.id === projectId);
+    return project ? `"${project.name}" (${projectId})` : projectId;
+}
+
+/**
+ * Check a tool call against the policy limits
+ *
+ * @throws {PolicyViolationError} If the call is not allowed
+ */
+async function enforcePolicy(policy: ToolPolicy, tool: string, args: Record<string, unknown>): Promise<void> {
+    const getTargets = TARGETS[tool];
+    if (!getTargets) return;
+    const targets = getTargets(args);
+
+    checkBatchSize(policy, tool, targets.taskCount);
+
+    const checkDeletes = policy.deleteOnlyInProjects !== undefined && targets.deletes.length > 0;
+    const checkWrites = policy.denySharedProjectWrites === true && targets.writes.length > 0;
+    if (!checkDeletes && !checkWrites) return;
+
+    const projects = await listProjects();
+
+    if (checkDeletes) {
+        const allowed = policy.deleteOnlyInProjects!.flatMap((ref) => {
+            if (isInboxReference(ref)) return ["inbox"];
+            try {
+                return [matchProject(ref, projects, "exact").id];
+            } catch {
+                return [];
+            }
+        });
+        const { ids, unresolved } = await resolveTargets(targets.deletes, targets.match);
+        // A reference the policy cannot pin down might still reach a project, so it is denied
+        if (unresolved.length > 0) {
+            throw new PolicyViolationError(
+                tool,
+                "deleteOnlyInProjects",
+                `The policy cannot check deletes in ${unresolved.map((ref) => `"${ref}"`).join(", ")}, ` +
+                `because it does not match exactly one project. Use the project ID. ` +
+                `Deletes are only allowed in: ${policy.deleteOnlyInProjects!.join(", ")}.`,
+                { projectRefs: unresolved, allowedProjects: policy.deleteOnlyInProjects }
+            );
+        }
+        const denied = ids.filter((id) => !allowed.includes(isInboxReference(id) ? "inbox" : id));
+        if (denied.length > 0) {
+            throw new PolicyViolationError(
+                tool,
+                "deleteOnlyInProjects",
+                `The policy does not allow deletes in ${denied.map((id) => projectLabel(id, projects)).join(", ")}. ` +
+                `Deletes are only allowed in: ${policy.deleteOnlyInProjects!.join(", ")}.`,
+                { projectIds: denied, allowedProjects: policy.deleteOnlyInProjects }
+            );
+        }
+    }
+
+    if (checkWrites) {
+        // Unresolvable references fail in the tool before anything is written
+        const shared = (await resolveTargets([...targets.writes, ...targets.deletes], targets.match)).ids
+            .map((id) => projects.find((p) => p.id === id))
+            .filter((project): project is Project => project?.permission !== undefined && project.permission !== "write");
+        if (shared.length > 0) {
+            throw new PolicyViolationError(
+                tool,
+                "denySharedProjectWrites",
+                `The policy does not allow writes to shared projects without write permission: ` +
+                shared.map((project) => `"${project.name}" (${project.permission})`).join(", ") + ".",
+                { projectIds: shared.map((project) => project.id) }
+            );
+        }
+    }
+}
+
+/**
+ * Tool error for a policy violation, with the violated rule as structured content
+ */
+export function policyViolationResult(error: PolicyViolationError): CallToolResult {
+    const output = {
+        error: {
+            type: "policy_violation",
+            tool: error.tool,
+            rule: error.rule,
+            message: error.message,
+            ...error.details,
+        },
+    };
+    return {
+        content: [
+            { type: "text", text: `Policy violation (${error.rule}): ${error.message}` },
+            { type: "text", text: JSON.stringify(output) },
+        ],
+        structuredContent: output,
+        isError: true,
+    };
+}
+
+/**
+ * Get a server whose registerTool applies the policy
+ *
+ * Denied tools are removed right after registration, so they are hidden from
+ * clients just like write tools in read-only mode.
+ */
+export function applyPolicy(server: McpServer, policy: ToolPolicy): McpServer {
+    const guarded = Object.create(server) as McpServer;
+
+    guarded.registerTool = ((name, config, callback) => {
+        const handler = callback as (...params: unknown[]) => unknown;
+        const registered = server.registerTool(name, config, (async (...params: unknown[]) => {
+            // Tools without an input schema are called with the request context only
+            const args = config.inputSchema ? params[0] as Record<string, unknown> : {};
+            try {
+                await enforcePolicy(policy, name, args);
+            } catch (error) {
+                if (error instanceof PolicyViolationError) {
+                    return policyViolationResult(error);
+                }
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                return {
+                    content: [{ type: "text", text: `Failed to check the tool policy: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+            return handler(...params);
+        }) as typeof callback);
+
+        if (!isToolAllowed(policy, name)) {
+            registered.remove();
+        }
+        return registered;
+    }) as McpServer["registerTool"];
+
+    return guarded;
+}
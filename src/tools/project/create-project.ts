@@ -5,7 +5,11 @@
 
 import { z } from "zod";
 import type { ToolRegistrationFunction } from "../types.js";
-import { createProject } from "../../api/index.js";
+import { createProject, listProjects } from "../../api/index.js";
+import type { CreateProjectRequest } from "../../api/types.js";
+import { recordOperation } from "../../journal.js";
+import { diffFields } from "../../utils/diff.js";
+import { isDryRunCall } from "../../utils/dry-run.js";
 
 export const registerCreateProject: ToolRegistrationFunction = (server, context) => {
     server.registerTool(
@@ -26,16 +30,19 @@ OPTIONAL:
 - kind: 'TASK' (任务清单, default) for tasks, 'NOTE' (笔记清单) for notes
 - sortOrder: Position in project list (排序位置)
 
-RETURNS: Created project with generated ID. Use this ID for subsequent task operations.`,
+RETURNS: Created project with generated ID. Use this ID for subsequent task operations.
+
+DRY RUN (预览): dryRun: true validates the request and returns the project that would be created (without an ID), noting if a project with the same name already exists. Nothing is created.`,
             inputSchema: {
                 name: z.string().describe("The name of the project (清单名称, required)"),
                 color: z.string().optional().describe("Project color in hex format (颜色, e.g., '#F18181'). Optional."),
                 sortOrder: z.number().optional().describe("Sort order for the project (排序位置). Optional."),
                 viewMode: z.enum(["list", "kanban", "timeline"]).optional().describe("View mode (视图模式): 'list' (列表), 'kanban' (看板), 'timeline' (时间线). Defaults to 'list'. Optional."),
                 kind: z.enum(["TASK", "NOTE"]).optional().describe("Project type (类型): 'TASK' (任务清单) for tasks or 'NOTE' (笔记清单) for notes. Defaults to 'TASK'. Optional."),
+                dryRun: z.boolean().optional().describe("Preview the project without creating it (仅预览, default false)"),
             },
             outputSchema: {
-                id: z.string(),
+                id: z.string().optional(), // Absent in dry-run
                 name: z.string(),
                 color: z.string().optional(),
                 sortOrder: z.number().optional(),
@@ -44,16 +51,25 @@ RETURNS: Created project with generated ID. Use this ID for subsequent task oper
                 closed: z.boolean().optional(),
                 groupId: z.string().optional(),
                 permission: z.enum(["read", "write", "comment"]).optional(),
+                journalId: z.string().optional(),
+                dryRun: z.boolean().optional(),
+                changes: z.array(z.object({
+                    field: z.string(),
+                    from: z.unknown().optional(),
+                    to: z.unknown().optional(),
+                })).optional(),
+                note: z.string().optional(),
             },
         },
         async (args) => {
             try {
-                const { name, color, sortOrder, viewMode, kind } = args as {
+                const { name, color, sortOrder, viewMode, kind, dryRun } = args as {
                     name: string;
                     color?: string;
                     sortOrder?: number;
                     viewMode?: "list" | "kanban" | "timeline";
                     kind?: "TASK" | "NOTE";
+                    dryRun?: boolean;
                 };
 
                 // Validate input
@@ -62,7 +78,7 @@ RETURNS: Created project with generated ID. Use this ID for subsequent task oper
                 }
 
                 // Build request data
-                const requestData = {
+                const requestData: CreateProjectRequest = {
                     name: name.trim(),
                     ...(color !== undefined && { color }),
                     ...(sortOrder !== undefined && { sortOrder }),
@@ -70,15 +86,35 @@ RETURNS: Created project with generated ID. Use this ID for subsequent task oper
                     ...(kind !== undefined && { kind }),
                 };
 
+                if (isDryRunCall(dryRun)) {
+                    const fields = Object.keys(requestData) as (keyof CreateProjectRequest)[];
+                    const existing = (await listProjects()).find((project) => project.name === requestData.name);
+                    const output = {
+                        ...requestData,
+                        dryRun: true,
+                        changes: diffFields<CreateProjectRequest>(undefined, requestData, fields),
+                        ...(existing && { note: `A project named "${existing.name}" already exists (${existing.id}); a second one would be created` }),
+                    };
+                    return {
+                        content: [
+                            { type: "text", text: `Dry run: project "${requestData.name}" would be created. Nothing was changed.` },
+                            { type: "text", text: JSON.stringify(output) },
+                        ],
+                        structuredContent: output as unknown as Record<string, unknown>,
+                    };
+                }
+
                 // Use API layer to create project
                 const project = await createProject(requestData);
+                const journalId = recordOperation("create_project", [{ action: "createProject", after: project }]);
+                const output = { ...project, ...(journalId && { journalId }) };
 
                 return {
                     content: [
                         { type: "text", text: `Project created successfully!` },
-                        { type: "text", text: JSON.stringify(project) },
+                        { type: "text", text: JSON.stringify(output) },
                     ],
-                    structuredContent: project as unknown as Record<string, unknown>,
+                    structuredContent: output as unknown as Record<string, unknown>,
                 };
             } catch (error) {
                 const errorMsg = error instanceof Error ? error.message : String(error);
@@ -5,7 +5,21 @@
 
 import { z } from "zod";
 import type { ToolRegistrationFunction } from "../types.js";
-import { deleteProject } from "../../api/index.js";
+import { getProjectData, resolveProjectId } from "../../api/index.js";
+import { isTrashEnabled, trashProject } from "../../trash.js";
+import { recordOperation } from "../../journal.js";
+import { requestConfirmation } from "../confirmation.js";
+import { isDryRunCall } from "../../utils/dry-run.js";
+
+/**
+ * What deleting a project would remove
+ */
+interface ProjectDeletionPreview {
+    projectId: string;
+    projectName: string;
+    /** Open tasks in the project (completed tasks are not counted) */
+    taskCount: number;
+}
 
 export const registerDeleteProject: ToolRegistrationFunction = (server, context) => {
     server.registerTool(
@@ -14,7 +28,7 @@ export const registerDeleteProject: ToolRegistrationFunction = (server, context)
             title: "Delete Project",
             description: `Permanently delete a project (清单) and all its contents.
 
-⚠️ DESTRUCTIVE: This action cannot be undone. All tasks (任务) within the project will also be deleted (此操作无法撤销，清单内所有任务也将被删除).
+⚠️ DESTRUCTIVE: All tasks (任务) within the project will also be deleted (清单内所有任务也将被删除). A copy of the project and its open tasks is kept in the local trash (回收站) → 'restore_from_trash' can recreate them (with new IDs).
 
 WHEN TO USE:
 - User explicitly requests to delete a project (删除清单)
@@ -22,35 +36,137 @@ WHEN TO USE:
 
 WHEN NOT TO USE:
 - Just archiving or hiding a project (not supported)
-- Moving tasks to another project first (移动任务) → use 'update_task'
+- Moving tasks to another project first (移动任务) → use 'move_task'
 
-REQUIRED: projectId (清单ID)`,
+CONFIRMATION (确认):
+- Clients with elicitation support: the user is asked to confirm before anything is deleted
+- Other clients: the first call deletes nothing and returns a preview (project name, number of tasks that would be lost) and a confirmationToken. Show the preview to the user and, only after they agree, call again with the same projectId and the confirmationToken (valid for 5 minutes, single use)
+
+DRY RUN (预览): dryRun: true returns the preview without asking for confirmation or deleting anything.
+
+REQUIRED: projectId (清单ID or project name/清单名称; only an exact name is accepted for deletion, not an approximate name or prefix)`,
             inputSchema: {
-                projectId: z.string().describe("The unique ID of the project to delete (清单ID)"),
+                projectId: z.string().describe("The ID or name of the project to delete (清单ID或名称)"),
+                confirmationToken: z.string().optional().describe("Token from the preview call, after the user confirmed (确认令牌)"),
+                dryRun: z.boolean().optional().describe("Preview the deletion without deleting (仅预览, default false)"),
             },
             outputSchema: {
                 projectId: z.string(),
+                deleted: z.boolean(),
+                cancelled: z.boolean().optional(),
+                preview: z.object({
+                    projectId: z.string(),
+                    projectName: z.string(),
+                    taskCount: z.number(),
+                }).optional(),
+                confirmationToken: z.string().optional(),
+                expiresAt: z.string().optional(),
+                trashId: z.string().optional(),
+                journalId: z.string().optional(),
+                dryRun: z.boolean().optional(),
             },
         },
-        async (args) => {
+        async (args, extra) => {
             try {
-                const { projectId } = args as { projectId: string };
+                const { projectId, confirmationToken, dryRun } = args as {
+                    projectId: string;
+                    confirmationToken?: string;
+                    dryRun?: boolean;
+                };
 
                 // Validate input
                 if (!projectId || typeof projectId !== "string") {
                     throw new Error("projectId is required and must be a string");
                 }
 
-                // Use API layer to delete project
-                await deleteProject(projectId);
+                const resolvedId = await resolveProjectId(projectId, { match: "exact" });
+
+                const { project, tasks } = await getProjectData(resolvedId, { forceRefresh: true });
+                const preview: ProjectDeletionPreview = {
+                    projectId: resolvedId,
+                    projectName: project?.name ?? resolvedId,
+                    taskCount: tasks.length,
+                };
+
+                if (isDryRunCall(dryRun)) {
+                    const output = { projectId: resolvedId, deleted: false, dryRun: true, preview };
+                    const copy = isTrashEnabled() ? "a copy would be kept in the trash" : "the trash is disabled, so no copy would be kept";
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Dry run: project "${preview.projectName}" and its ${preview.taskCount} open task(s) would be deleted; ${copy}. Nothing was changed.`,
+                            },
+                            { type: "text", text: JSON.stringify(output) },
+                        ],
+                        structuredContent: output as Record<string, unknown>,
+                    };
+                }
+
+                const confirmation = await requestConfirmation(
+                    server,
+                    {
+                        tool: "delete_project",
+                        sessionId: extra.sessionId,
+                        targets: resolvedId,
+                        message: `Delete project "${preview.projectName}" and its ${preview.taskCount} open task(s) from Dida365?\n` +
+                            `从滴答清单删除清单「${preview.projectName}」及其中 ${preview.taskCount} 个未完成任务？`,
+                    },
+                    confirmationToken
+                );
+
+                if (confirmation.status === "declined") {
+                    const output = { projectId: resolvedId, deleted: false, cancelled: true, preview };
+                    return {
+                        content: [
+                            { type: "text", text: "Deletion cancelled by the user. Nothing was deleted." },
+                            { type: "text", text: JSON.stringify(output) },
+                        ],
+                        structuredContent: output as Record<string, unknown>,
+                    };
+                }
+
+                if (confirmation.status === "pending") {
+                    const output = {
+                        projectId: resolvedId,
+                        deleted: false,
+                        preview,
+                        confirmationToken: confirmation.confirmationToken,
+                        expiresAt: confirmation.expiresAt,
+                    };
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Confirmation required. Deleting project "${preview.projectName}" would permanently remove ${preview.taskCount} open task(s). ` +
+                                    `Nothing was deleted. After the user confirms, call 'delete_project' again with the same projectId and confirmationToken "${confirmation.confirmationToken}" (expires ${confirmation.expiresAt}).`,
+                            },
+                            { type: "text", text: JSON.stringify(output) },
+                        ],
+                        structuredContent: output as Record<string, unknown>,
+                    };
+                }
+
+                const { project: deleted, tasks: deletedTasks, trashId } = await trashProject(resolvedId);
+                const journalId = recordOperation("delete_project", [
+                    { action: "deleteProject", before: deleted, taskCount: deletedTasks.length, ...(trashId && { trashId }) },
+                ]);
 
                 const output = {
-                    projectId: projectId,
+                    projectId: resolvedId,
+                    deleted: true,
+                    preview,
+                    ...(trashId && { trashId }),
+                    ...(journalId && { journalId }),
                 };
 
                 return {
                     content: [
-                        { type: "text", text: `Project deleted successfully!` },
+                        {
+                            type: "text",
+                            text: `Project "${preview.projectName}" deleted successfully, along with ${preview.taskCount} open task(s).` +
+                                (trashId ? ` A copy was kept in the trash (trashId: ${trashId}).` : ""),
+                        },
                         { type: "text", text: JSON.stringify(output) },
                     ],
                     structuredContent: output as Record<string, unknown>,
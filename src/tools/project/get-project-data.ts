@@ -5,7 +5,20 @@
 
 import { z } from "zod";
 import type { ToolRegistrationFunction } from "../types.js";
-import { getProjectData } from "../../api/index.js";
+import { getProjectData, resolveProjectId } from "../../api/index.js";
+import type { Column, Project, Task } from "../../api/types.js";
+import { annotateTask } from "../../utils/humanize.js";
+import { continuePagination, CursorError, startPagination } from "../../utils/pagination.js";
+
+/**
+ * Project details kept with a get_project_data snapshot, repeated on every page
+ */
+interface ProjectDataSnapshot {
+    /** Resolved project ID the snapshot was taken for, checked against projectId on later pages */
+    projectId: string;
+    project: Project;
+    columns: Column[];
+}
 
 export const registerGetProjectData: ToolRegistrationFunction = (server, context) => {
     server.registerTool(
@@ -26,9 +39,16 @@ WHEN NOT TO USE:
 
 ⚠️ LIMITATION: Only returns UNCOMPLETED tasks (未完成任务, status=0). Completed tasks are not accessible.
 
-RETURNS: { project, tasks[], columns[] } - project metadata (清单信息), task list (任务列表), and kanban columns (看板列).`,
+CACHING: Results are cached briefly; pass forceRefresh: true if changes were made outside this session.
+
+RETURNS: { project, tasks[], columns[] } - project metadata (清单信息), task list (任务列表), and kanban columns (看板列). Tasks with reminders or repeat rules include remindersText, reminderTimes and repeatText (English and Chinese).
+
+PAGINATION (分页): Tasks come in pages of pageSize (default 100, max 500); totalTasks is the number of tasks in the project. If nextCursor is returned, call again with the same projectId and { "cursor": nextCursor } for the next page (a cursor from another project is rejected). Pages come from a snapshot taken by the first call, so no task is missed or repeated while paging; cursors expire after 15 minutes.`,
             inputSchema: {
-                projectId: z.string().describe("The unique ID of the project to retrieve data for (清单ID)"),
+                projectId: z.string().describe("The ID or name of the project to retrieve data for (清单ID或名称)"),
+                forceRefresh: z.boolean().optional().describe("Bypass the local cache and fetch fresh data from the server (跳过缓存, default false)"),
+                pageSize: z.number().optional().describe("Tasks per page (每页数量, default 100, max 500)"),
+                cursor: z.string().optional().describe("nextCursor from the previous page (分页游标)"),
             },
             outputSchema: {
                 project: z.object({
@@ -53,6 +73,10 @@ RETURNS: { project, tasks[], columns[] } - project metadata (清单信息), task
                     dueDate: z.string().optional(),
                     timeZone: z.string().optional(),
                     repeatFlag: z.string().optional(),
+                    reminders: z.array(z.string()).optional(),
+                    remindersText: z.array(z.object({ en: z.string(), zh: z.string() })).optional(),
+                    reminderTimes: z.array(z.string().nullable()).optional(),
+                    repeatText: z.object({ en: z.string(), zh: z.string() }).optional(),
                     priority: z.number().optional(),
                     status: z.number().optional(),
                     sortOrder: z.number().optional(),
@@ -64,23 +88,70 @@ RETURNS: { project, tasks[], columns[] } - project metadata (清单信息), task
                     name: z.string(),
                     sortOrder: z.number().optional(),
                 })).optional(),
+                totalTasks: z.number(),
+                offset: z.number(),
+                nextCursor: z.string().optional(),
+                snapshotAt: z.string(),
             },
         },
         async (args) => {
             try {
-                const { projectId } = args as { projectId: string };
+                const { projectId, forceRefresh, pageSize = 100, cursor } = args as {
+                    projectId: string;
+                    forceRefresh?: boolean;
+                    pageSize?: number;
+                    cursor?: string;
+                };
 
                 // Validate input
                 if (!projectId || typeof projectId !== "string") {
                     throw new Error("projectId is required and must be a string");
                 }
+                const effectivePageSize = Math.min(pageSize, 500);
+                if (!Number.isInteger(effectivePageSize) || effectivePageSize < 1) {
+                    throw new Error("pageSize must be a positive integer");
+                }
+
+                const resolvedId = await resolveProjectId(projectId, { forceRefresh });
+
+                // Later pages come from the snapshot taken by the first page
+                let page;
+                if (cursor) {
+                    page = continuePagination<Task, ProjectDataSnapshot>("get_project_data", cursor, effectivePageSize);
+                    if (page.meta.projectId !== resolvedId) {
+                        throw new CursorError(
+                            `Cursor belongs to project ${page.meta.projectId}, not ${resolvedId}. ` +
+                            `Pass the same projectId as the first page, or start again without cursor`
+                        );
+                    }
+                } else {
+                    // Use API layer to get project data
+                    const data = await getProjectData(resolvedId, { forceRefresh });
+                    page = startPagination<Task, ProjectDataSnapshot>(
+                        "get_project_data",
+                        data.tasks,
+                        { projectId: resolvedId, project: data.project, columns: data.columns },
+                        effectivePageSize
+                    );
+                }
+
+                const { projectId: _snapshotProjectId, ...snapshot } = page.meta;
+                const projectData = {
+                    ...snapshot,
+                    tasks: page.items.map(annotateTask),
+                    totalTasks: page.totalItems,
+                    offset: page.offset,
+                    ...(page.nextCursor && { nextCursor: page.nextCursor }),
+                    snapshotAt: page.snapshotAt,
+                };
 
-                // Use API layer to get project data
-                const projectData = await getProjectData(projectId);
+                const pageNote = page.nextCursor || page.offset > 0
+                    ? ` (tasks ${page.offset + 1}-${page.offset + page.items.length} of ${page.totalItems}${page.nextCursor ? ", more with nextCursor" : ""})`
+                    : "";
 
                 return {
                     content: [
-                        { type: "text", text: `Project Data:` },
+                        { type: "text", text: `Project Data:${pageNote}` },
                         { type: "text", text: JSON.stringify(projectData) },
                     ],
                     structuredContent: projectData as unknown as Record<string, unknown>,
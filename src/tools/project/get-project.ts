@@ -5,14 +5,14 @@
 
 import { z } from "zod";
 import type { ToolRegistrationFunction } from "../types.js";
-import { getProject } from "../../api/index.js";
+import { getProject, resolveProjectId } from "../../api/index.js";
 
 export const registerGetProject: ToolRegistrationFunction = (server, context) => {
     server.registerTool(
         "get_project",
         {
             title: "Get Project",
-            description: `Retrieve metadata for a single project (清单) by ID.
+            description: `Retrieve metadata for a single project (清单) by ID or name.
 
 WHEN TO USE:
 - Check project settings (name/名称, color/颜色, viewMode/视图模式, permissions)
@@ -25,7 +25,8 @@ WHEN NOT TO USE:
 
 RETURNS: Project metadata only (id, name/名称, color/颜色, viewMode/视图模式, kind/类型, permissions). Does NOT include tasks.`,
             inputSchema: {
-                projectId: z.string().describe("The unique ID of the project to retrieve (清单ID)"),
+                projectId: z.string().describe("The ID or name of the project to retrieve (清单ID或名称)"),
+                forceRefresh: z.boolean().optional().describe("Bypass the local cache and fetch fresh data from the server (跳过缓存, default false)"),
             },
             outputSchema: {
                 id: z.string(),
@@ -41,7 +42,7 @@ RETURNS: Project metadata only (id, name/名称, color/颜色, viewMode/视图
         },
         async (args) => {
             try {
-                const { projectId } = args as { projectId: string };
+                const { projectId, forceRefresh } = args as { projectId: string; forceRefresh?: boolean };
 
                 // Validate input
                 if (!projectId || typeof projectId !== "string") {
@@ -49,7 +50,7 @@ RETURNS: Project metadata only (id, name/名称, color/颜色, viewMode/视图
                 }
 
                 // Use API layer to get project
-                const project = await getProject(projectId);
+                const project = await getProject(await resolveProjectId(projectId, { forceRefresh }), { forceRefresh });
 
                 return {
                     content: [
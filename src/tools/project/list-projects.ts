@@ -21,8 +21,12 @@ WHEN TO USE:
 
 RETURNS: Project list with id, name (名称), color (颜色), viewMode (视图模式), permissions, kind (TASK=任务清单/NOTE=笔记清单).
 
+CACHING: Results are cached briefly; pass forceRefresh: true if changes were made outside this session.
+
 💡 TIP: After getting the project list, use 'list_tasks' with projectId to get tasks, or 'get_project_data' for complete project data including tasks.`,
-            inputSchema: {},
+            inputSchema: {
+                forceRefresh: z.boolean().optional().describe("Bypass the local cache and fetch fresh data from the server (跳过缓存, default false)"),
+            },
             outputSchema: {
                 projects: z.array(z.object({
                     id: z.string(),
@@ -38,10 +42,12 @@ RETURNS: Project list with id, name (名称), color (颜色), viewMode (视图
                 total: z.number(),
             },
         },
-        async () => {
+        async (args) => {
             try {
+                const { forceRefresh } = args as { forceRefresh?: boolean };
+
                 // Use API layer to get projects
-                const projects = await listProjects();
+                const projects = await listProjects({ forceRefresh });
 
                 const output = {
                     projects,
@@ -5,7 +5,11 @@
 
 import { z } from "zod";
 import type { ToolRegistrationFunction } from "../types.js";
-import { updateProject } from "../../api/index.js";
+import { getProject, updateProject, resolveProjectId } from "../../api/index.js";
+import type { UpdateProjectRequest } from "../../api/types.js";
+import { recordOperation } from "../../journal.js";
+import { diffFields } from "../../utils/diff.js";
+import { isDryRunCall } from "../../utils/dry-run.js";
 
 export const registerUpdateProject: ToolRegistrationFunction = (server, context) => {
     server.registerTool(
@@ -21,21 +25,24 @@ WHEN TO USE:
 
 PARTIAL UPDATE: Only provide fields you want to change. Unspecified fields remain unchanged.
 
-REQUIRED: projectId (清单ID)
+REQUIRED: projectId (清单ID or project name/清单名称)
 
 OPTIONAL (at least one required):
 - name: New project name (新名称)
 - color: New hex color (新颜色, e.g., '#F18181')
 - viewMode: 'list' (列表), 'kanban' (看板), or 'timeline' (时间线)
 - kind: 'TASK' (任务清单) or 'NOTE' (笔记清单)
-- sortOrder: New position in project list (新排序位置)`,
+- sortOrder: New position in project list (新排序位置)
+
+DRY RUN (预览): dryRun: true resolves the project and returns how it would look with each field change (from → to), without updating it.`,
             inputSchema: {
-                projectId: z.string().describe("The unique ID of the project to update (清单ID, required)"),
+                projectId: z.string().describe("The ID or name of the project to update (清单ID或名称, required)"),
                 name: z.string().optional().describe("New project name (新清单名称). Optional."),
                 color: z.string().optional().describe("New project color in hex format (新颜色, e.g., '#F18181'). Optional."),
                 sortOrder: z.number().optional().describe("New sort order (新排序位置). Optional."),
                 viewMode: z.enum(["list", "kanban", "timeline"]).optional().describe("New view mode (新视图模式): 'list' (列表), 'kanban' (看板), 'timeline' (时间线). Optional."),
                 kind: z.enum(["TASK", "NOTE"]).optional().describe("New project type (新类型): 'TASK' (任务清单), 'NOTE' (笔记清单). Optional."),
+                dryRun: z.boolean().optional().describe("Preview the changes without updating (仅预览, default false)"),
             },
             outputSchema: {
                 id: z.string(),
@@ -47,17 +54,26 @@ OPTIONAL (at least one required):
                 closed: z.boolean().optional(),
                 groupId: z.string().optional(),
                 permission: z.enum(["read", "write", "comment"]).optional(),
+                journalId: z.string().optional(),
+                dryRun: z.boolean().optional(),
+                changes: z.array(z.object({
+                    field: z.string(),
+                    from: z.unknown().optional(),
+                    to: z.unknown().optional(),
+                })).optional(),
+                note: z.string().optional(),
             },
         },
         async (args) => {
             try {
-                const { projectId, name, color, sortOrder, viewMode, kind } = args as {
+                const { projectId, name, color, sortOrder, viewMode, kind, dryRun } = args as {
                     projectId: string;
                     name?: string;
                     color?: string;
                     sortOrder?: number;
                     viewMode?: "list" | "kanban" | "timeline";
                     kind?: "TASK" | "NOTE";
+                    dryRun?: boolean;
                 };
 
                 // Validate input
@@ -71,7 +87,7 @@ OPTIONAL (at least one required):
                 }
 
                 // Build request data (only include fields that are provided)
-                const requestData = {
+                const requestData: UpdateProjectRequest = {
                     ...(name !== undefined && { name: name.trim() }),
                     ...(color !== undefined && { color }),
                     ...(sortOrder !== undefined && { sortOrder }),
@@ -80,14 +96,38 @@ OPTIONAL (at least one required):
                 };
 
                 // Use API layer to update project
-                const project = await updateProject(projectId, requestData);
+                const resolvedId = await resolveProjectId(projectId);
+                const before = await getProject(resolvedId, { forceRefresh: true });
+
+                if (isDryRunCall(dryRun)) {
+                    const fields = Object.keys(requestData) as (keyof UpdateProjectRequest)[];
+                    const changes = diffFields<UpdateProjectRequest>(before, requestData, fields);
+                    const output = {
+                        ...before,
+                        ...requestData,
+                        dryRun: true,
+                        changes,
+                        ...(changes.length === 0 && { note: "No field would change" }),
+                    };
+                    return {
+                        content: [
+                            { type: "text", text: `Dry run: ${changes.length} field(s) of project "${before.name}" would change. Nothing was changed.` },
+                            { type: "text", text: JSON.stringify(output) },
+                        ],
+                        structuredContent: output as unknown as Record<string, unknown>,
+                    };
+                }
+
+                const project = await updateProject(resolvedId, requestData);
+                const journalId = recordOperation("update_project", [{ action: "updateProject", before, after: project }]);
+                const output = { ...project, ...(journalId && { journalId }) };
 
                 return {
                     content: [
                         { type: "text", text: `Project updated successfully!` },
-                        { type: "text", text: JSON.stringify(project) },
+                        { type: "text", text: JSON.stringify(output) },
                     ],
-                    structuredContent: project as unknown as Record<string, unknown>,
+                    structuredContent: output as unknown as Record<string, unknown>,
                 };
             } catch (error) {
                 const errorMsg = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,73 @@
+/**
+ * Tool: Create Smart List
+ * Save a list_tasks query under a name
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { createSmartList } from "../../smart-lists.js";
+import { resolveTaskQuery, type TaskQuery } from "../../utils/task-filter.js";
+import { taskQuerySchema } from "../task/list-tasks.js";
+
+export const registerCreateSmartList: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "create_smart_list",
+        {
+            title: "Create Smart List",
+            description: `Save a task query as a smart list (智能清单) so it can be run again by name.
+
+WHEN TO USE:
+- User wants to keep a filter for later ("save this as 'Work this week'", 保存为智能清单)
+
+REQUIRED:
+- name: Smart list name (名称, unique, case-insensitive, no "/")
+
+OPTIONAL:
+- description: What the list is for
+- Any 'list_tasks' filter and sorting parameter (projectId, preset, dueDateFrom/To, priority, tags/tagMode, startDateFrom/To, noDueDate, kind, checklistMin/Max, hasReminder, hasRepeat, match, sortBy, sortOrder, expandRecurring)
+
+Relative dates ("today", "下周一") are stored as written and resolved each time the list runs.
+
+Smart lists are stored on this computer (~/.dida365-mcp/smart-lists.json), not in Dida365. Run them with 'run_smart_list' or read the resource dida365://smart-list/{name}.`,
+            inputSchema: {
+                name: z.string().describe("Smart list name (智能清单名称)"),
+                description: z.string().optional().describe("Description (描述)"),
+                ...taskQuerySchema,
+            },
+        },
+        async (args) => {
+            try {
+                const { name, description, ...query } = args as TaskQuery & {
+                    name: string;
+                    description?: string;
+                };
+
+                if (!name || typeof name !== "string") {
+                    throw new Error("name is required and must be a non-empty string");
+                }
+
+                // Reject queries that would fail when run
+                resolveTaskQuery(query);
+
+                const list = createSmartList(name, query, description);
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Smart list "${list.name}" saved. Run it with 'run_smart_list' or read dida365://smart-list/${encodeURIComponent(list.name)}`,
+                        },
+                        { type: "text", text: JSON.stringify(list) },
+                    ],
+                    structuredContent: list as unknown as Record<string, unknown>,
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                return {
+                    content: [{ type: "text", text: `Failed to create smart list: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
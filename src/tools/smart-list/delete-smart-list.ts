@@ -0,0 +1,48 @@
+/**
+ * Tool: Delete Smart List
+ * Remove a saved smart list (tasks are not affected)
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { deleteSmartList } from "../../smart-lists.js";
+
+export const registerDeleteSmartList: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "delete_smart_list",
+        {
+            title: "Delete Smart List",
+            description: `Delete a saved smart list (删除智能清单). Only the saved query is removed; no tasks are changed.
+
+REQUIRED:
+- name: Smart list name`,
+            inputSchema: {
+                name: z.string().describe("Smart list name (智能清单名称)"),
+            },
+        },
+        async (args) => {
+            try {
+                const { name } = args as { name: string };
+
+                const deleted = deleteSmartList(name);
+                if (!deleted) {
+                    throw new Error(`Smart list "${name}" not found. Use 'list_smart_lists' to see saved lists`);
+                }
+
+                return {
+                    content: [
+                        { type: "text", text: `Smart list "${deleted.name}" deleted` },
+                        { type: "text", text: JSON.stringify(deleted) },
+                    ],
+                    structuredContent: deleted as unknown as Record<string, unknown>,
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                return {
+                    content: [{ type: "text", text: `Failed to delete smart list: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
@@ -0,0 +1,62 @@
+/**
+ * Tool: List Smart Lists
+ * Show saved smart lists and their queries
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { listSmartLists } from "../../smart-lists.js";
+
+export const registerListSmartLists: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "list_smart_lists",
+        {
+            title: "List Smart Lists",
+            description: `List saved smart lists (智能清单) with their names, descriptions and queries.
+
+WHEN TO USE:
+- User asks which saved lists/filters exist (有哪些智能清单)
+- Find the name to pass to 'run_smart_list', 'update_smart_list' or 'delete_smart_list'`,
+            inputSchema: {},
+            outputSchema: z.object({
+                smartLists: z.array(z.object({
+                    name: z.string(),
+                    description: z.string().optional(),
+                    query: z.record(z.any()),
+                    createdAt: z.string(),
+                    updatedAt: z.string(),
+                    uri: z.string(),
+                })),
+                total: z.number(),
+            }),
+        },
+        async () => {
+            try {
+                const smartLists = listSmartLists().map((list) => ({
+                    ...list,
+                    uri: `dida365://smart-list/${encodeURIComponent(list.name)}`,
+                }));
+                const output = { smartLists, total: smartLists.length };
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: smartLists.length > 0
+                                ? `Found ${smartLists.length} smart list(s)`
+                                : "No smart lists saved yet. Use 'create_smart_list' to save one",
+                        },
+                        { type: "text", text: JSON.stringify(output) },
+                    ],
+                    structuredContent: output as unknown as Record<string, unknown>,
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                return {
+                    content: [{ type: "text", text: `Failed to list smart lists: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
@@ -0,0 +1,86 @@
+/**
+ * Tool: Run Smart List
+ * Run a saved smart list's query and return the matching tasks
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { getSmartList, runSmartList } from "../../smart-lists.js";
+
+export const registerRunSmartList: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "run_smart_list",
+        {
+            title: "Run Smart List",
+            description: `Run a saved smart list (智能清单) and return its tasks, like 'list_tasks' with the saved parameters.
+
+WHEN TO USE:
+- User refers to a saved list by name ("show my 'Work this week' list", 打开智能清单)
+
+REQUIRED:
+- name: Smart list name (see 'list_smart_lists')
+
+OPTIONAL:
+- limit: Maximum number of tasks (default 50, max 200)
+- forceRefresh: Bypass the local cache
+
+Relative dates in the saved query ("today", "下周一") are resolved now; resolvedRange shows the result.
+
+⚠️ PARTIAL RESULTS: Projects that fail to load are skipped and listed in failedProjects.`,
+            inputSchema: {
+                name: z.string().describe("Smart list name (智能清单名称)"),
+                limit: z.number().optional().describe("Maximum number of tasks to return (最大返回数量, default 50, max 200)"),
+                forceRefresh: z.boolean().optional().describe("Bypass the local cache and fetch fresh data from the server (跳过缓存, default false)"),
+            },
+        },
+        async (args) => {
+            try {
+                const { name, limit, forceRefresh = false } = args as {
+                    name: string;
+                    limit?: number;
+                    forceRefresh?: boolean;
+                };
+
+                const list = getSmartList(name);
+                if (!list) {
+                    throw new Error(`Smart list "${name}" not found. Use 'list_smart_lists' to see saved lists`);
+                }
+
+                const output = await runSmartList(list, { limit, forceRefresh });
+
+                const failureNote = output.failedProjects.length > 0
+                    ? `. ⚠️ ${output.failedProjects.length} project(s) could not be loaded and were skipped (see failedProjects)`
+                    : "";
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Smart list "${list.name}": ${output.totalBeforeLimit} task(s) from ${output.projects.length} project(s)${output.truncated ? `, showing first ${output.total}` : ""}${failureNote}`,
+                        },
+                        { type: "text", text: JSON.stringify(output) },
+                    ],
+                    structuredContent: output as unknown as Record<string, unknown>,
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+
+                if (errorMsg.includes("401") || errorMsg.includes("Unauthorized") || errorMsg.includes("Authentication failed")) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Authorization failed: ${errorMsg}. Please use the 'get_auth_url' tool to re-authorize.`,
+                            isError: true,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                return {
+                    content: [{ type: "text", text: `Failed to run smart list: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
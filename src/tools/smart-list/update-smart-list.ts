@@ -0,0 +1,85 @@
+/**
+ * Tool: Update Smart List
+ * Rename a smart list or change its description or query
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { getSmartList, updateSmartList } from "../../smart-lists.js";
+import { resolveTaskQuery, type TaskQuery } from "../../utils/task-filter.js";
+import { taskQuerySchema } from "../task/list-tasks.js";
+
+export const registerUpdateSmartList: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "update_smart_list",
+        {
+            title: "Update Smart List",
+            description: `Change a saved smart list (智能清单): rename it, change its description, or change its query.
+
+REQUIRED:
+- name: Current smart list name
+
+OPTIONAL:
+- newName: New name (重命名)
+- description: New description ("" removes it)
+- Any 'list_tasks' filter and sorting parameter: merged into the saved query (given parameters replace saved ones)
+- replaceQuery: true to replace the whole saved query with the given parameters instead of merging (use it to remove filters)`,
+            inputSchema: {
+                name: z.string().describe("Current smart list name (智能清单名称)"),
+                newName: z.string().optional().describe("New name (新名称)"),
+                description: z.string().optional().describe('New description (描述), "" to remove'),
+                replaceQuery: z.boolean().optional().describe("Replace the saved query instead of merging (替换整个查询, default false)"),
+                ...taskQuerySchema,
+            },
+        },
+        async (args) => {
+            try {
+                const { name, newName, description, replaceQuery = false, ...changes } = args as TaskQuery & {
+                    name: string;
+                    newName?: string;
+                    description?: string;
+                    replaceQuery?: boolean;
+                };
+
+                const existing = getSmartList(name);
+                if (!existing) {
+                    throw new Error(`Smart list "${name}" not found. Use 'list_smart_lists' to see saved lists`);
+                }
+
+                const given = Object.fromEntries(
+                    Object.entries(changes).filter(([, value]) => value !== undefined)
+                ) as TaskQuery;
+                const hasQueryChanges = replaceQuery || Object.keys(given).length > 0;
+                if (!hasQueryChanges && newName === undefined && description === undefined) {
+                    throw new Error("Nothing to update: give newName, description or query parameters");
+                }
+
+                const query = replaceQuery ? given : { ...existing.query, ...given };
+                if (hasQueryChanges) {
+                    // Reject queries that would fail when run
+                    resolveTaskQuery(query);
+                }
+
+                const list = updateSmartList(name, {
+                    name: newName,
+                    description,
+                    ...(hasQueryChanges && { query }),
+                });
+
+                return {
+                    content: [
+                        { type: "text", text: `Smart list "${list.name}" updated` },
+                        { type: "text", text: JSON.stringify(list) },
+                    ],
+                    structuredContent: list as unknown as Record<string, unknown>,
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                return {
+                    content: [{ type: "text", text: `Failed to update smart list: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
@@ -5,12 +5,14 @@
 
 import { z } from "zod";
 import type { ToolRegistrationFunction } from "../types.js";
-import { completeTask } from "../../api/index.js";
-import { batchExecute, formatBatchResultsSimple } from "../../utils/batch.js";
+import { completeTask, getTask, resolveProjectId } from "../../api/index.js";
+import { batchExecute, formatBatchResultsSimple, formatDryRunResults } from "../../utils/batch.js";
+import { recordOperation, type JournalChange } from "../../journal.js";
+import { describeDryRun, isDryRunCall, type DryRunItem } from "../../utils/dry-run.js";
 
 // Single task reference schema
 const TaskRefSchema = z.object({
-    projectId: z.string().describe("Project ID (清单ID, required)"),
+    projectId: z.string().describe("Project ID or name (清单ID或名称, required)"),
     taskId: z.string().describe("Task ID (任务ID, required)"),
 });
 
@@ -33,23 +35,26 @@ WHEN NOT TO USE:
 - Update other task properties (修改任务) → use 'update_task'
 
 REQUIRED (per task):
-- projectId: Project containing the task (清单ID)
+- projectId: Project containing the task (清单ID), or its name
 - taskId: Task to mark complete (任务ID)
 
 INPUT FORMAT: { "tasks": [{ "projectId": "...", "taskId": "..." }, ...] }
 
-⚠️ IDEMPOTENT: Completing an already-completed or non-existent task returns success. Use 'get_task' first to verify if needed.
+⚠️ IDEMPOTENT: Completing an already-completed task returns success. A non-existent task fails for that task.
 
 ⚠️ NOTE: Completed tasks (已完成任务) are no longer returned by 'list_tasks' or 'get_project_data'.
 
-BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.failed > 0.`,
+BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.failed > 0.
+
+DRY RUN (预览): dryRun: true checks each task exists and reports its status change, without completing anything.`,
             inputSchema: {
                 tasks: z.array(TaskRefSchema).min(1).describe("Array of tasks to complete"),
+                dryRun: z.boolean().optional().describe("Preview the changes without completing (仅预览, default false)"),
             },
         },
         async (args) => {
             try {
-                const { tasks } = args as { tasks: TaskRef[] };
+                const { tasks, dryRun } = args as { tasks: TaskRef[]; dryRun?: boolean };
 
                 // Validate tasks array
                 if (!tasks || !Array.isArray(tasks) || tasks.length === 0) {
@@ -67,15 +72,56 @@ BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.f
                     }
                 }
 
-                // Execute batch completion
+                if (isDryRunCall(dryRun)) {
+                    const previews = await batchExecute<TaskRef, DryRunItem>(
+                        tasks,
+                        async (taskRef) => {
+                            const projectId = await resolveProjectId(taskRef.projectId);
+                            const current = await getTask(projectId, taskRef.taskId.trim());
+                            const completed = current.status === 2;
+                            return {
+                                operation: "complete",
+                                target: "task",
+                                projectId,
+                                taskId: current.id,
+                                title: current.title,
+                                changes: completed ? [] : [{ field: "status", from: current.status, to: 2 }],
+                                ...(completed && { note: "Task is already completed" }),
+                            };
+                        }
+                    );
+                    const preview = formatDryRunResults(previews);
+                    return {
+                        content: [
+                            { type: "text", text: describeDryRun(preview.summary, "task", "completed") },
+                            { type: "text", text: JSON.stringify(preview) },
+                        ],
+                        structuredContent: preview as unknown as Record<string, unknown>,
+                        isError: preview.summary.succeeded === 0,
+                    };
+                }
+
+                // Execute batch completion, journaling each task's state before
+                const changes: JournalChange[] = [];
                 const results = await batchExecute<TaskRef, void>(
                     tasks,
                     async (taskRef) => {
-                        await completeTask(taskRef.projectId.trim(), taskRef.taskId.trim());
+                        const projectId = await resolveProjectId(taskRef.projectId);
+                        const before = await getTask(projectId, taskRef.taskId.trim());
+                        await completeTask(projectId, taskRef.taskId.trim());
+                        // Recurring tasks advance to their next occurrence, which cannot be undone
+                        if (before.status !== 2 && !before.repeatFlag) {
+                            changes.push({ action: "completeTask", before });
+                        }
                     }
                 );
 
-                const output = formatBatchResultsSimple(results);
+                const journalId = recordOperation("complete_task", changes);
+
+                const output = {
+                    ...formatBatchResultsSimple(results),
+                    ...(journalId && { journalId }),
+                };
 
                 // Generate summary message
                 const { summary } = output;
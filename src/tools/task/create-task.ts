@@ -5,9 +5,14 @@
 
 import { z } from "zod";
 import type { ToolRegistrationFunction } from "../types.js";
-import { createTask } from "../../api/index.js";
-import { batchExecute, formatBatchResults } from "../../utils/batch.js";
+import { createTask, resolveProjectId } from "../../api/index.js";
+import { batchExecute, formatBatchResults, formatDryRunResults } from "../../utils/batch.js";
+import { resolveTaskDates, formatResolvedDates, type ResolvedDateField } from "../../utils/date-parser.js";
+import { validateRepeatFlag } from "../../utils/recurrence.js";
 import type { Task, CreateTaskRequest } from "../../api/types.js";
+import { recordOperation, type JournalChange } from "../../journal.js";
+import { diffFields } from "../../utils/diff.js";
+import { describeDryRun, isDryRunCall, type DryRunItem } from "../../utils/dry-run.js";
 
 // ChecklistItem schema for sub-tasks
 const ChecklistItemSchema = z.object({
@@ -23,11 +28,11 @@ const ChecklistItemSchema = z.object({
 // Single task input schema
 const TaskInputSchema = z.object({
     title: z.string().describe("Task title (任务标题, required)"),
-    projectId: z.string().describe('Project ID (清单ID, required). Use "inbox" ONLY for tasks temporarily inconvenient to classify (收集箱仅用于临时存放暂时不便分类的任务). Prefer using a specific project when context indicates one.'),
+    projectId: z.string().describe('Project ID or name (清单ID或名称, required), e.g. "工作" or "Work". Use "inbox" ONLY for tasks temporarily inconvenient to classify (收集箱仅用于临时存放暂时不便分类的任务). Prefer using a specific project when context indicates one.'),
     description: z.string().optional().describe("Task description/notes (任务描述/备注). Auto-mapped: to 'content' for TEXT tasks, to 'desc' for CHECKLIST tasks (with items)"),
     isAllDay: z.boolean().optional().describe("Is all-day task (全天任务), default false (optional)"),
-    startDate: z.string().optional().describe("Start time (开始日期), format yyyy-MM-dd'T'HH:mm:ssZ (optional)"),
-    dueDate: z.string().optional().describe("Due time (截止日期), format yyyy-MM-dd'T'HH:mm:ssZ (optional)"),
+    startDate: z.string().optional().describe("Start time (开始日期): yyyy-MM-dd'T'HH:mm:ssZ or a natural-language expression like \"tomorrow 9am\", \"明天上午九点\" (optional)"),
+    dueDate: z.string().optional().describe("Due time (截止日期): yyyy-MM-dd'T'HH:mm:ssZ or a natural-language expression like \"next Friday 5pm\", \"下周五\", \"月底\" (optional)"),
     timeZone: z.string().optional().describe("Time zone (时区), e.g. America/Los_Angeles (optional)"),
     reminders: z.array(z.string()).optional().describe("Reminder list (提醒列表), e.g. ['TRIGGER:PT0S'] (optional)"),
     repeatFlag: z.string().optional().describe("Repeat rule (重复规则), e.g. RRULE:FREQ=DAILY;INTERVAL=1 (optional)"),
@@ -39,6 +44,36 @@ const TaskInputSchema = z.object({
 // Task input type
 type TaskInput = z.infer<typeof TaskInputSchema>;
 
+/**
+ * Build the API request for a task (project name resolved)
+ */
+async function buildCreateRequest(taskInput: TaskInput): Promise<CreateTaskRequest> {
+    // Auto-map description field based on task type:
+    // - If items exist (CHECKLIST task): use 'desc' field
+    // - If no items (TEXT task): use 'content' field
+    const hasItems = taskInput.items && taskInput.items.length > 0;
+    const descriptionMapping = taskInput.description !== undefined
+        ? (hasItems
+            ? { desc: taskInput.description }
+            : { content: taskInput.description })
+        : {};
+
+    return {
+        title: taskInput.title.trim(),
+        projectId: await resolveProjectId(taskInput.projectId),
+        ...descriptionMapping,
+        ...(taskInput.isAllDay !== undefined && { isAllDay: taskInput.isAllDay }),
+        ...(taskInput.startDate !== undefined && { startDate: taskInput.startDate }),
+        ...(taskInput.dueDate !== undefined && { dueDate: taskInput.dueDate }),
+        ...(taskInput.timeZone !== undefined && { timeZone: taskInput.timeZone }),
+        ...(taskInput.reminders !== undefined && { reminders: taskInput.reminders }),
+        ...(taskInput.repeatFlag !== undefined && { repeatFlag: taskInput.repeatFlag }),
+        ...(taskInput.priority !== undefined && { priority: taskInput.priority }),
+        ...(taskInput.sortOrder !== undefined && { sortOrder: taskInput.sortOrder }),
+        ...(taskInput.items !== undefined && { items: taskInput.items }),
+    };
+}
+
 export const registerCreateTask: ToolRegistrationFunction = (server, context) => {
     server.registerTool(
         "create_task",
@@ -59,31 +94,36 @@ The inbox (收集箱) is ONLY for tasks temporarily inconvenient to classify.
 
 REQUIRED (per task):
 - title: Task name (任务标题)
-- projectId: Target project ID (清单ID), or "inbox" for inbox (收集箱) - see above for when to use each
+- projectId: Target project ID or name (清单ID或名称, e.g. "工作"), or "inbox" for inbox (收集箱) - see above for when to use each
 
 OPTIONAL (per task):
 - description: Task notes (任务备注, auto-maps to correct field)
-- dueDate: ISO 8601 format (截止日期, e.g., "2025-11-25T17:00:00+0800")
-- startDate: ISO 8601 format (开始日期)
+- dueDate: Due time (截止日期): ISO 8601 (e.g., "2025-11-25T17:00:00+0800") or natural language ("tomorrow 3pm", "next Friday", "in 2 weeks", "明天下午三点", "下周一", "月底")
+- startDate: Start time (开始日期), same formats as dueDate
 - priority: 0=none (无), 1=low (低), 3=medium (中), 5=high (高)
 - isAllDay: true for all-day tasks (全天任务)
 - timeZone: e.g., "America/Los_Angeles"
 - reminders: ["TRIGGER:PT0S"] (at due time), ["TRIGGER:-PT30M"] (30min before)
-- repeatFlag: "RRULE:FREQ=DAILY;INTERVAL=1" for recurring tasks (重复任务)
+- repeatFlag: "RRULE:FREQ=DAILY;INTERVAL=1" for recurring tasks (重复任务). Malformed rules are rejected; use 'preview_recurrence' to check the dates a rule produces
 - items: Sub-task array (子任务列表) [{title, status: 0|1}] - creates CHECKLIST type
 
 INPUT FORMAT: { "tasks": [{ "title": "...", "projectId": "..." }, ...] }
 
+DATES (日期): Natural-language dates are resolved in the task's timeZone, or the server's configured time zone (DIDA365_TIMEZONE). Date-only expressions ("下周一", "月底") make the task all-day (全天) unless isAllDay is given. The resolved absolute times are returned in resolvedDates.
+
 ⚠️ INBOX NOTE: When using "inbox" (收集箱), returned tasks have projectId like "inbox1023997016". Use this actual ID for update/delete/complete operations.
 
-BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.failed > 0 for failures.`,
+BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.failed > 0 for failures.
+
+DRY RUN (预览): dryRun: true validates the tasks, resolves project names and dates, and returns the fields each task would get, without creating anything.`,
             inputSchema: {
                 tasks: z.array(TaskInputSchema).min(1).describe("Array of tasks to create"),
+                dryRun: z.boolean().optional().describe("Preview without creating (仅预览, default false)"),
             },
         },
         async (args) => {
             try {
-                const { tasks } = args as { tasks: TaskInput[] };
+                const { tasks, dryRun } = args as { tasks: TaskInput[]; dryRun?: boolean };
 
                 // Validate tasks array
                 if (!tasks || !Array.isArray(tasks) || tasks.length === 0) {
@@ -99,41 +139,67 @@ BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.f
                     if (!task.projectId || typeof task.projectId !== "string" || task.projectId.trim() === "") {
                         throw new Error(`tasks[${i}].projectId is required and must be a non-empty string`);
                     }
+                    validateRepeatFlag(task.repeatFlag, `tasks[${i}]`);
+                }
+
+                // Resolve natural-language dates ("明天下午三点") to the API format
+                const resolvedDates: ResolvedDateField[] = [];
+                const resolvedTasks = tasks.map((task, i) => {
+                    const resolved = resolveTaskDates(task, `tasks[${i}]`);
+                    resolvedDates.push(...resolved.resolved);
+                    return resolved.task;
+                });
+
+                if (isDryRunCall(dryRun)) {
+                    const previews = await batchExecute<TaskInput, DryRunItem>(
+                        resolvedTasks,
+                        async (taskInput) => {
+                            const request = await buildCreateRequest(taskInput);
+                            const fields = (Object.keys(request) as (keyof CreateTaskRequest)[]).filter((field) => field !== "projectId");
+                            return {
+                                operation: "create",
+                                target: "task",
+                                projectId: request.projectId,
+                                title: request.title,
+                                changes: diffFields<CreateTaskRequest>(undefined, request, fields),
+                            };
+                        }
+                    );
+                    const preview = {
+                        ...formatDryRunResults(previews),
+                        ...(resolvedDates.length > 0 && { resolvedDates }),
+                    };
+
+                    let message = describeDryRun(preview.summary, "task", "created");
+                    if (resolvedDates.length > 0) {
+                        message += ` Resolved dates: ${formatResolvedDates(resolvedDates)}`;
+                    }
+                    return {
+                        content: [
+                            { type: "text", text: message },
+                            { type: "text", text: JSON.stringify(preview) },
+                        ],
+                        structuredContent: preview as unknown as Record<string, unknown>,
+                        isError: preview.summary.succeeded === 0,
+                    };
                 }
 
                 // Execute batch creation
                 const results = await batchExecute<TaskInput, Task>(
-                    tasks,
-                    async (taskInput) => {
-                        // Auto-map description field based on task type:
-                        // - If items exist (CHECKLIST task): use 'desc' field
-                        // - If no items (TEXT task): use 'content' field
-                        const hasItems = taskInput.items && taskInput.items.length > 0;
-                        const descriptionMapping = taskInput.description !== undefined
-                            ? (hasItems
-                                ? { desc: taskInput.description }
-                                : { content: taskInput.description })
-                            : {};
-
-                        const requestData: CreateTaskRequest = {
-                            title: taskInput.title.trim(),
-                            projectId: taskInput.projectId.trim(),
-                            ...descriptionMapping,
-                            ...(taskInput.isAllDay !== undefined && { isAllDay: taskInput.isAllDay }),
-                            ...(taskInput.startDate !== undefined && { startDate: taskInput.startDate }),
-                            ...(taskInput.dueDate !== undefined && { dueDate: taskInput.dueDate }),
-                            ...(taskInput.timeZone !== undefined && { timeZone: taskInput.timeZone }),
-                            ...(taskInput.reminders !== undefined && { reminders: taskInput.reminders }),
-                            ...(taskInput.repeatFlag !== undefined && { repeatFlag: taskInput.repeatFlag }),
-                            ...(taskInput.priority !== undefined && { priority: taskInput.priority }),
-                            ...(taskInput.sortOrder !== undefined && { sortOrder: taskInput.sortOrder }),
-                            ...(taskInput.items !== undefined && { items: taskInput.items }),
-                        };
-                        return await createTask(requestData);
-                    }
+                    resolvedTasks,
+                    async (taskInput) => await createTask(await buildCreateRequest(taskInput))
                 );
 
-                const output = formatBatchResults(results);
+                const journalId = recordOperation(
+                    "create_task",
+                    results.flatMap((r): JournalChange[] => r.success ? [{ action: "createTask", after: r.result! }] : [])
+                );
+
+                const output = {
+                    ...formatBatchResults(results),
+                    ...(resolvedDates.length > 0 && { resolvedDates }),
+                    ...(journalId && { journalId }),
+                };
 
                 // Generate summary message
                 const { summary } = output;
@@ -150,6 +216,10 @@ BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.f
                     message = `Created ${summary.succeeded}/${summary.total} tasks. ${summary.failed} failed.`;
                 }
 
+                if (resolvedDates.length > 0) {
+                    message += ` Resolved dates: ${formatResolvedDates(resolvedDates)}`;
+                }
+
                 return {
                     content: [
                         { type: "text", text: message },
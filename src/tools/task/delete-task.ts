@@ -5,18 +5,98 @@
 
 import { z } from "zod";
 import type { ToolRegistrationFunction } from "../types.js";
-import { deleteTask } from "../../api/index.js";
-import { batchExecute, formatBatchResultsSimple } from "../../utils/batch.js";
+import { getProjectData, getTask, resolveProjectId } from "../../api/index.js";
+import type { ProjectData } from "../../api/types.js";
+import { batchExecute, formatBatchResultsSimple, formatDryRunResults } from "../../utils/batch.js";
+import { requestConfirmation } from "../confirmation.js";
+import { isTrashEnabled, trashTask } from "../../trash.js";
+import { recordOperation, type JournalChange } from "../../journal.js";
+import { describeDryRun, isDryRunCall, type DryRunItem } from "../../utils/dry-run.js";
 
 // Single task reference schema
 const TaskRefSchema = z.object({
-    projectId: z.string().describe("Project ID (清单ID, required)"),
+    projectId: z.string().describe("Project ID or name (清单ID或名称, required)"),
     taskId: z.string().describe("Task ID (任务ID, required)"),
 });
 
 // Task reference type
 type TaskRef = z.infer<typeof TaskRefSchema>;
 
+/**
+ * What deleting the tasks would remove
+ */
+interface TaskDeletionPreview {
+    taskCount: number;
+    tasks: Array<{
+        projectId: string;
+        projectName?: string;
+        taskId: string;
+        title?: string;
+        /** False if the task is not among the project's open tasks (completed or missing) */
+        found: boolean;
+    }>;
+}
+
+/**
+ * Most tasks listed in the confirmation question
+ */
+const MAX_LISTED_TASKS = 10;
+
+/**
+ * Resolve task references and look up their titles
+ *
+ * Unresolvable projects are kept as given so the batch reports them as failures.
+ */
+async function buildDeletionPreview(tasks: TaskRef[]): Promise<TaskDeletionPreview> {
+    const seen = new Set<string>();
+    const projectData = new Map<string, ProjectData | undefined>();
+    const preview: TaskDeletionPreview = { taskCount: 0, tasks: [] };
+
+    for (const ref of tasks) {
+        let projectId = ref.projectId.trim();
+        try {
+            projectId = await resolveProjectId(projectId, { match: "exact" });
+        } catch {
+            // Reported by the batch
+        }
+        const taskId = ref.taskId.trim();
+        if (seen.has(`${projectId}/${taskId}`)) continue;
+        seen.add(`${projectId}/${taskId}`);
+
+        if (!projectData.has(projectId)) {
+            try {
+                projectData.set(projectId, await getProjectData(projectId, { forceRefresh: true }));
+            } catch {
+                projectData.set(projectId, undefined);
+            }
+        }
+        const data = projectData.get(projectId);
+        const task = data?.tasks.find((t) => t.id === taskId);
+
+        preview.tasks.push({
+            projectId,
+            ...(data?.project?.name && { projectName: data.project.name }),
+            taskId,
+            ...(task && { title: task.title }),
+            found: task !== undefined,
+        });
+    }
+
+    preview.taskCount = preview.tasks.length;
+    return preview;
+}
+
+function describePreview(preview: TaskDeletionPreview): string {
+    const lines = preview.tasks.slice(0, MAX_LISTED_TASKS).map((task) =>
+        `- ${task.title !== undefined ? `"${task.title}"` : `${task.taskId} (not found among open tasks)`}` +
+        ` in ${task.projectName ?? task.projectId}`
+    );
+    if (preview.tasks.length > MAX_LISTED_TASKS) {
+        lines.push(`- ...and ${preview.tasks.length - MAX_LISTED_TASKS} more`);
+    }
+    return lines.join("\n");
+}
+
 export const registerDeleteTask: ToolRegistrationFunction = (server, context) => {
     server.registerTool(
         "delete_task",
@@ -24,7 +104,7 @@ export const registerDeleteTask: ToolRegistrationFunction = (server, context) =>
             title: "Delete Task(s)",
             description: `Permanently delete one or more tasks (任务). Supports batch deletion.
 
-⚠️ DESTRUCTIVE: This action cannot be undone! (此操作无法撤销!)
+⚠️ DESTRUCTIVE: Tasks are deleted from Dida365. A full copy (including checklist items) is kept in the local trash (回收站) → 'restore_from_trash' can recreate them (with new IDs).
 
 WHEN TO USE:
 - User explicitly requests to remove/delete a task (删除任务)
@@ -35,21 +115,33 @@ WHEN NOT TO USE:
 - Archive a task (not supported by API)
 
 REQUIRED (per task):
-- projectId: Project containing the task (清单ID)
+- projectId: Project containing the task (清单ID), or its exact name (清单全名)
 - taskId: Task to delete (任务ID)
 
 INPUT FORMAT: { "tasks": [{ "projectId": "...", "taskId": "..." }, ...] }
 
-⚠️ IDEMPOTENT: Deleting a non-existent task returns success. Use 'get_task' first to verify existence if needed.
+⚠️ NOT FOUND: Deleting a non-existent task fails for that task (nothing is deleted).
+
+BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.failed > 0.
 
-BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.failed > 0.`,
+CONFIRMATION (确认):
+- Clients with elicitation support: the user is asked to confirm before anything is deleted
+- Other clients: the first call deletes nothing and returns a preview (task titles, projects, number of tasks that would be lost) and a confirmationToken. Show the preview to the user and, only after they agree, call again with the same tasks and the confirmationToken (valid for 5 minutes, single use)
+
+DRY RUN (预览): dryRun: true checks each task exists and lists what would be deleted, without asking for confirmation or deleting anything.`,
             inputSchema: {
                 tasks: z.array(TaskRefSchema).min(1).describe("Array of tasks to delete"),
+                confirmationToken: z.string().optional().describe("Token from the preview call, after the user confirmed (确认令牌)"),
+                dryRun: z.boolean().optional().describe("Preview the deletion without deleting (仅预览, default false)"),
             },
         },
-        async (args) => {
+        async (args, extra) => {
             try {
-                const { tasks } = args as { tasks: TaskRef[] };
+                const { tasks, confirmationToken, dryRun } = args as {
+                    tasks: TaskRef[];
+                    confirmationToken?: string;
+                    dryRun?: boolean;
+                };
 
                 // Validate tasks array
                 if (!tasks || !Array.isArray(tasks) || tasks.length === 0) {
@@ -67,15 +159,97 @@ BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.f
                     }
                 }
 
-                // Execute batch deletion
+                if (isDryRunCall(dryRun)) {
+                    const previews = await batchExecute<TaskRef, DryRunItem>(
+                        tasks,
+                        async (taskRef) => {
+                            const projectId = await resolveProjectId(taskRef.projectId, { match: "exact" });
+                            const current = await getTask(projectId, taskRef.taskId.trim());
+                            return {
+                                operation: "delete",
+                                target: "task",
+                                projectId,
+                                taskId: current.id,
+                                title: current.title,
+                                changes: [],
+                                note: isTrashEnabled() ? "A copy would be kept in the trash" : "The trash is disabled; no copy would be kept",
+                            };
+                        }
+                    );
+                    const dryRunPreview = formatDryRunResults(previews);
+                    return {
+                        content: [
+                            { type: "text", text: describeDryRun(dryRunPreview.summary, "task", "deleted") },
+                            { type: "text", text: JSON.stringify(dryRunPreview) },
+                        ],
+                        structuredContent: dryRunPreview as unknown as Record<string, unknown>,
+                        isError: dryRunPreview.summary.succeeded === 0,
+                    };
+                }
+
+                const preview = await buildDeletionPreview(tasks);
+                const confirmation = await requestConfirmation(
+                    server,
+                    {
+                        tool: "delete_task",
+                        sessionId: extra.sessionId,
+                        targets: preview.tasks.map((task) => `${task.projectId}/${task.taskId}`).sort(),
+                        message: `Delete ${preview.taskCount} task(s) from Dida365? (从滴答清单删除 ${preview.taskCount} 个任务？)\n` +
+                            describePreview(preview),
+                    },
+                    confirmationToken
+                );
+
+                if (confirmation.status === "declined") {
+                    const output = { deleted: false, cancelled: true, preview };
+                    return {
+                        content: [
+                            { type: "text", text: "Deletion cancelled by the user. Nothing was deleted." },
+                            { type: "text", text: JSON.stringify(output) },
+                        ],
+                        structuredContent: output as unknown as Record<string, unknown>,
+                    };
+                }
+
+                if (confirmation.status === "pending") {
+                    const output = {
+                        deleted: false,
+                        preview,
+                        confirmationToken: confirmation.confirmationToken,
+                        expiresAt: confirmation.expiresAt,
+                    };
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Confirmation required. ${preview.taskCount} task(s) would be permanently deleted:\n${describePreview(preview)}\n` +
+                                    `Nothing was deleted. After the user confirms, call 'delete_task' again with the same tasks and confirmationToken "${confirmation.confirmationToken}" (expires ${confirmation.expiresAt}).`,
+                            },
+                            { type: "text", text: JSON.stringify(output) },
+                        ],
+                        structuredContent: output as unknown as Record<string, unknown>,
+                    };
+                }
+
+                // Execute batch deletion, keeping a copy of each task in the trash
+                const trashIds: string[] = [];
+                const changes: JournalChange[] = [];
                 const results = await batchExecute<TaskRef, void>(
                     tasks,
                     async (taskRef) => {
-                        await deleteTask(taskRef.projectId.trim(), taskRef.taskId.trim());
+                        const { task, trashId } = await trashTask(await resolveProjectId(taskRef.projectId, { match: "exact" }), taskRef.taskId.trim());
+                        if (trashId) trashIds.push(trashId);
+                        changes.push({ action: "deleteTask", before: task, ...(trashId && { trashId }) });
                     }
                 );
 
-                const output = formatBatchResultsSimple(results);
+                const journalId = recordOperation("delete_task", changes);
+
+                const output = {
+                    ...formatBatchResultsSimple(results),
+                    ...(trashIds.length > 0 && { trashIds }),
+                    ...(journalId && { journalId }),
+                };
 
                 // Generate summary message
                 const { summary } = output;
@@ -91,6 +265,9 @@ BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.f
                 } else {
                     message = `Deleted ${summary.succeeded}/${summary.total} tasks. ${summary.failed} failed.`;
                 }
+                if (trashIds.length > 0) {
+                    message += " Copies were kept in the trash (see 'list_trash').";
+                }
 
                 return {
                     content: [
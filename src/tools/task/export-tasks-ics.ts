@@ -0,0 +1,171 @@
+/**
+ * Tool: Export Tasks as iCalendar
+ * Render tasks from selected projects as an RFC 5545 VCALENDAR (.ics)
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { fetchTasksAcrossProjects } from "../../api/index.js";
+import { filterTasks, resolveRangeBound } from "../../utils/task-filter.js";
+import type { DatePreset } from "../../utils/date-range.js";
+import { buildTaskCalendar } from "../../utils/task-calendar.js";
+
+export const registerExportTasksIcs: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "export_tasks_ics",
+        {
+            title: "Export Tasks as iCalendar",
+            description: `Export tasks (任务) as an iCalendar file (.ics, RFC 5545) that calendar apps (Google Calendar, Outlook, Apple Calendar) can import.
+
+WHEN TO USE:
+- User wants tasks or due dates in another calendar app (导出到日历)
+- Share a project's schedule as a .ics file (导出清单日程)
+
+MAPPING:
+- Tasks with a due/start TIME → VEVENT (日程); all-day and undated tasks → VTODO (待办)
+- repeatFlag (重复规则) → RRULE (TickTick-only parts such as TT_SKIP are dropped)
+- reminders (提醒) → VALARM
+- timeZone (时区) → VTIMEZONE
+- priority (优先级), tags (标签), checklist items (子任务) and project name are included
+
+OPTIONAL FILTERS (same as 'list_tasks'):
+- projectId: Single ID or name, array of IDs/names, or "inbox" (收集箱) (omit for all projects/所有清单)
+- preset: "today", "tomorrow", "thisWeek", "overdue"
+- dueDateFrom/dueDateTo: ISO 8601 or natural language ("today", "下周一", "月底")
+- priority: [0=none (无), 1=low (低), 3=medium (中), 5=high (高)]
+- calendarName: Calendar display name (日历名称, default "Dida365")
+
+SUBSCRIBE: Clients that support MCP resources can read dida365://calendar/{project} (project ID, name, or "all") for an always-current calendar.
+
+⚠️ LIMITATION: Only exports UNCOMPLETED tasks (未完成任务). Projects that fail to load are listed in failedProjects.`,
+            inputSchema: {
+                projectId: z
+                    .union([z.string(), z.array(z.string())])
+                    .optional()
+                    .describe('Project ID(s) or name(s) (清单ID或名称) to export. Use "inbox" for inbox tasks (收集箱). If omitted, exports all projects (所有清单).'),
+                preset: z
+                    .enum(["today", "tomorrow", "thisWeek", "overdue"])
+                    .optional()
+                    .describe("Quick date filter preset (快速筛选): today (今天), tomorrow (明天), thisWeek (本周), overdue (逾期)"),
+                dueDateFrom: z
+                    .string()
+                    .optional()
+                    .describe('Only tasks with due date >= this value (截止日期起始): ISO 8601 or natural language'),
+                dueDateTo: z
+                    .string()
+                    .optional()
+                    .describe('Only tasks with due date <= this value (截止日期结束): ISO 8601 or natural language'),
+                priority: z
+                    .union([z.number(), z.array(z.number())])
+                    .optional()
+                    .describe("Filter by priority (优先级): 0=none (无), 1=low (低), 3=medium (中), 5=high (高)"),
+                calendarName: z
+                    .string()
+                    .optional()
+                    .describe('Calendar display name (日历名称, default "Dida365")'),
+                forceRefresh: z
+                    .boolean()
+                    .optional()
+                    .describe("Bypass the local cache and fetch fresh data from the server (跳过缓存, default false)"),
+            },
+            outputSchema: z.object({
+                ics: z.string(),
+                total: z.number(),
+                events: z.number(),
+                todos: z.number(),
+                projects: z.array(z.string()),
+                failedProjects: z.array(z.object({
+                    projectId: z.string(),
+                    projectName: z.string().optional(),
+                    error: z.string(),
+                })),
+            }),
+        },
+        async (args) => {
+            try {
+                const {
+                    projectId,
+                    preset,
+                    dueDateFrom,
+                    dueDateTo,
+                    priority,
+                    calendarName,
+                    forceRefresh = false,
+                } = args as {
+                    projectId?: string | string[];
+                    preset?: DatePreset;
+                    dueDateFrom?: string;
+                    dueDateTo?: string;
+                    priority?: number | number[];
+                    calendarName?: string;
+                    forceRefresh?: boolean;
+                };
+
+                const projectIds = projectId ? (Array.isArray(projectId) ? projectId : [projectId]) : undefined;
+                const priorityArray = priority !== undefined ? (Array.isArray(priority) ? priority : [priority]) : undefined;
+
+                // Resolve date range bounds before loading any data
+                const resolvedFrom = dueDateFrom ? resolveRangeBound(dueDateFrom, "dueDateFrom", false) : undefined;
+                const resolvedTo = dueDateTo ? resolveRangeBound(dueDateTo, "dueDateTo", true) : undefined;
+
+                const { tasks, projects, failedProjects, projectsById } =
+                    await fetchTasksAcrossProjects(projectIds, { forceRefresh });
+
+                const selected = filterTasks(tasks, {
+                    dueDateFrom: resolvedFrom,
+                    dueDateTo: resolvedTo,
+                    priority: priorityArray,
+                    preset,
+                });
+
+                const projectNames = new Map([...projectsById.values()].map((p) => [p.id, p.name]));
+                const calendar = buildTaskCalendar(selected, {
+                    calendarName: calendarName?.trim() || (projects.length === 1 ? projects[0] : undefined),
+                    projectNames,
+                });
+
+                const output = {
+                    ics: calendar.ics,
+                    total: selected.length,
+                    events: calendar.events,
+                    todos: calendar.todos,
+                    projects,
+                    failedProjects,
+                };
+
+                const failureNote = failedProjects.length > 0
+                    ? `. ⚠️ ${failedProjects.length} project(s) could not be loaded and were skipped (see failedProjects)`
+                    : "";
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Exported ${selected.length} task(s) from ${projects.length} project(s) as iCalendar (${calendar.events} event(s), ${calendar.todos} to-do(s))${failureNote}`,
+                        },
+                        { type: "text", text: calendar.ics },
+                    ],
+                    structuredContent: output as unknown as Record<string, unknown>,
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+
+                if (errorMsg.includes("401") || errorMsg.includes("Unauthorized") || errorMsg.includes("Authentication failed")) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Authorization failed: ${errorMsg}. Please use the 'get_auth_url' tool to re-authorize.`,
+                            isError: true,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                return {
+                    content: [{ type: "text", text: `Failed to export tasks: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
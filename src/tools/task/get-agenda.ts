@@ -0,0 +1,214 @@
+/**
+ * Tool: Get Agenda
+ * Tasks grouped by day over a date range
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { fetchTasksAcrossProjects } from "../../api/index.js";
+import { APP_CONFIG } from "../../config.js";
+import { buildAgenda } from "../../utils/agenda.js";
+import { parseDateExpression } from "../../utils/date-parser.js";
+import { getCalendarDate, getDayRange } from "../../utils/date-range.js";
+import { projectRecurringTasks } from "../../utils/task-filter.js";
+import { isValidTimeZone } from "../../utils/timezone.js";
+
+/**
+ * Longest agenda range in days
+ */
+const MAX_AGENDA_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const registerGetAgenda: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "get_agenda",
+        {
+            title: "Get Agenda",
+            description: `Show tasks (任务) grouped by day (日程/议程视图) for a date range, in a time zone.
+
+WHEN TO USE:
+- "What does my week look like?" (我这周安排是什么), daily/weekly planning (日程安排)
+- Need tasks bucketed per day instead of a flat list
+
+WHEN NOT TO USE:
+- Need a filtered flat list (priority, custom sorting) → use 'list_tasks'
+
+OPTIONAL:
+- from: First day, ISO 8601 or natural language ("today", "next Monday", "下周一"), default today
+- to: Last day (inclusive), or use days instead
+- days: Number of days (天数, default 7, max 31)
+- projectId: Single ID or name, array of IDs/names, or "inbox" (收集箱) (omit for all projects/所有清单)
+- timeZone: Time zone the days are in (时区), default is the configured time zone
+- includeOverdue: List overdue tasks (逾期任务) first, default true
+- includeEmptyDays: Keep days without tasks, default true
+- expandRecurring: Show later occurrences of recurring tasks (重复任务) in the range, default true
+
+RETURNS:
+- overdue: Tasks whose last day is before today, most overdue first (listed once, not in days)
+- days[]: { date (yyyy-MM-dd), weekday, allDay (全天任务), timed (定时任务, sorted by time) }
+- Items: id, projectId, projectName, title, priority, startDate, dueDate, startTime/endTime (HH:mm on that day, in timeZone), overdue
+- Multi-day tasks (startDate → dueDate, 跨天任务) appear on each day they span, with spanDay/spanDays (e.g. day 2 of 3)
+- Recurring occurrences have isProjection: true and keep the recurring task's id (rules limited by COUNT are not projected)
+
+All-day tasks stay on their calendar day regardless of timeZone; timed tasks are placed by their local time in timeZone.
+
+⚠️ LIMITATION: Only UNCOMPLETED tasks (未完成任务). Tasks without dates are not shown.
+
+⚠️ PARTIAL RESULTS: Projects that fail to load are skipped and listed in failedProjects. Tell the user when results are incomplete.`,
+            inputSchema: {
+                from: z.string().optional().describe('First day (开始日期): ISO 8601 or natural language, e.g. "today", "下周一" (default today)'),
+                to: z.string().optional().describe('Last day, inclusive (结束日期): ISO 8601 or natural language, e.g. "Sunday", "月底"'),
+                days: z.number().optional().describe("Number of days (天数, default 7, max 31). Ignored when to is given"),
+                projectId: z
+                    .union([z.string(), z.array(z.string())])
+                    .optional()
+                    .describe('Project ID(s) or name(s) (清单ID或名称). Use "inbox" for inbox tasks (收集箱). If omitted, uses all projects (所有清单).'),
+                timeZone: z.string().optional().describe("Time zone (时区), e.g. Asia/Shanghai (default: configured time zone)"),
+                includeOverdue: z.boolean().optional().describe("List overdue tasks first (包含逾期任务, default true)"),
+                includeEmptyDays: z.boolean().optional().describe("Include days without tasks (包含空白日期, default true)"),
+                expandRecurring: z.boolean().optional().describe("Show later occurrences of recurring tasks in the range (展开重复任务, default true)"),
+                forceRefresh: z.boolean().optional().describe("Bypass the local cache and fetch fresh data from the server (跳过缓存, default false)"),
+            },
+            outputSchema: z.object({
+                timeZone: z.string(),
+                from: z.string(),
+                to: z.string(),
+                overdue: z.array(z.any()),
+                days: z.array(z.object({
+                    date: z.string(),
+                    weekday: z.string(),
+                    allDay: z.array(z.any()),
+                    timed: z.array(z.any()),
+                })),
+                projects: z.array(z.string()),
+                failedProjects: z.array(z.object({
+                    projectId: z.string(),
+                    projectName: z.string().optional(),
+                    error: z.string(),
+                })),
+            }),
+        },
+        async (args) => {
+            try {
+                const {
+                    from = "today",
+                    to,
+                    days = 7,
+                    projectId,
+                    timeZone = APP_CONFIG.DATE.TIME_ZONE,
+                    includeOverdue = true,
+                    includeEmptyDays = true,
+                    expandRecurring = true,
+                    forceRefresh = false,
+                } = args as {
+                    from?: string;
+                    to?: string;
+                    days?: number;
+                    projectId?: string | string[];
+                    timeZone?: string;
+                    includeOverdue?: boolean;
+                    includeEmptyDays?: boolean;
+                    expandRecurring?: boolean;
+                    forceRefresh?: boolean;
+                };
+
+                if (!isValidTimeZone(timeZone)) {
+                    throw new Error(`Invalid time zone "${timeZone}". Use an IANA name such as "Asia/Shanghai"`);
+                }
+
+                // Resolve the range to whole days in the agenda time zone
+                const resolve = (value: string, field: string): Date => {
+                    try {
+                        return parseDateExpression(value, { timeZone }).date;
+                    } catch (error) {
+                        throw new Error(`${field}: ${error instanceof Error ? error.message : String(error)}`);
+                    }
+                };
+                const fromDate = resolve(from, "from");
+                let dayCount = days;
+                if (to) {
+                    const first = getCalendarDate(fromDate, timeZone);
+                    const last = getCalendarDate(resolve(to, "to"), timeZone);
+                    dayCount = Math.round(
+                        (Date.UTC(last.year, last.month - 1, last.day) - Date.UTC(first.year, first.month - 1, first.day)) / 86400000
+                    ) + 1;
+                    if (dayCount < 1) {
+                        throw new Error(`to (${to}) is before from (${from})`);
+                    }
+                }
+                if (!Number.isInteger(dayCount) || dayCount < 1) {
+                    throw new Error("days must be a positive integer");
+                }
+                if (dayCount > MAX_AGENDA_DAYS) {
+                    throw new Error(`The agenda covers at most ${MAX_AGENDA_DAYS} days (requested ${dayCount})`);
+                }
+
+                const projectIds = projectId ? (Array.isArray(projectId) ? projectId : [projectId]) : undefined;
+                const { tasks, projects, failedProjects, projectsById } =
+                    await fetchTasksAcrossProjects(projectIds, { forceRefresh });
+
+                // Project from a day early: all-day occurrences are stored at midnight in the
+                // task's own time zone, which can fall before the first agenda day starts here
+                const range = getDayRange(getCalendarDate(fromDate, timeZone), dayCount, timeZone);
+                const projected = expandRecurring
+                    ? projectRecurringTasks(tasks, range.to, new Date(range.from.getTime() - DAY_MS))
+                    : [];
+                const projectNames = new Map([...projectsById].map(([id, project]) => [id, project.name]));
+
+                const agenda = buildAgenda([...tasks, ...projected], {
+                    from: fromDate,
+                    days: dayCount,
+                    timeZone,
+                    includeOverdue,
+                    includeEmptyDays,
+                    projectNames,
+                });
+
+                const output = {
+                    ...agenda,
+                    projects,
+                    failedProjects,
+                };
+
+                const scheduled = new Set(
+                    agenda.days.flatMap((day) => [...day.allDay, ...day.timed].map((item) => `${item.id}\n${item.dueDate}`))
+                ).size;
+                const busyDays = agenda.days.filter((day) => day.allDay.length > 0 || day.timed.length > 0).length;
+                const overdueNote = agenda.overdue.length > 0 ? `, ${agenda.overdue.length} overdue` : "";
+                const failureNote = failedProjects.length > 0
+                    ? `. ⚠️ ${failedProjects.length} project(s) could not be loaded and were skipped (see failedProjects)`
+                    : "";
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Agenda ${agenda.from} to ${agenda.to} (${timeZone}): ${scheduled} task(s) on ${busyDays} day(s)${overdueNote}${failureNote}`,
+                        },
+                        { type: "text", text: JSON.stringify(output) },
+                    ],
+                    structuredContent: output as unknown as Record<string, unknown>,
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+
+                if (errorMsg.includes("401") || errorMsg.includes("Unauthorized") || errorMsg.includes("Authentication failed")) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Authorization failed: ${errorMsg}. Please use the 'get_auth_url' tool to re-authorize.`,
+                            isError: true,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                return {
+                    content: [{ type: "text", text: `Failed to get agenda: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
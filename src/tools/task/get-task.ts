@@ -5,7 +5,8 @@
 
 import { z } from "zod";
 import type { ToolRegistrationFunction } from "../types.js";
-import { getTask } from "../../api/index.js";
+import { getTask, resolveProjectId } from "../../api/index.js";
+import { annotateTask } from "../../utils/humanize.js";
 
 export const registerGetTask: ToolRegistrationFunction = (server, context) => {
     server.registerTool(
@@ -23,17 +24,19 @@ WHEN NOT TO USE:
 - List multiple tasks → use 'list_tasks'
 - Get all tasks in a project (清单) → use 'get_project_data' or 'list_tasks'
 
-REQUIRED: projectId (清单ID), taskId (任务ID)
+REQUIRED: projectId (清单ID or project name/清单名称), taskId (任务ID)
 
 RESPONSE FIELDS:
 - content: Description for TEXT tasks (no sub-tasks)
 - desc: Description for CHECKLIST tasks (with sub-tasks/子任务)
 - kind: "TEXT" or "CHECKLIST"
 - items: Sub-task list (子任务列表, CHECKLIST only)
+- remindersText / repeatText: Reminders (提醒) and repeat rule (重复规则) in words, English and Chinese ({ en, zh })
+- reminderTimes: When each reminder fires (提醒时间), computed from dueDate
 
 NOTE: When creating/updating, use unified 'description' parameter which auto-maps to the correct field.`,
             inputSchema: {
-                projectId: z.string().describe("Project ID (清单ID, required)"),
+                projectId: z.string().describe("Project ID or name (清单ID或名称, required)"),
                 taskId: z.string().describe("Task ID (任务ID, required)"),
             },
             outputSchema: z.object({
@@ -52,6 +55,9 @@ NOTE: When creating/updating, use unified 'description' parameter which auto-map
                 sortOrder: z.number().optional(),
                 reminders: z.array(z.string()).optional(),
                 repeatFlag: z.string().optional(),
+                remindersText: z.array(z.object({ en: z.string(), zh: z.string() })).optional(),
+                reminderTimes: z.array(z.string().nullable()).optional(),
+                repeatText: z.object({ en: z.string(), zh: z.string() }).optional(),
                 items: z.array(z.any()).optional(),
                 kind: z.string().optional(),
                 tags: z.array(z.string()).optional(),
@@ -74,7 +80,7 @@ NOTE: When creating/updating, use unified 'description' parameter which auto-map
                 }
 
                 // Use API layer to get task
-                const task = await getTask(projectId.trim(), taskId.trim());
+                const task = annotateTask(await getTask(await resolveProjectId(projectId), taskId.trim()));
 
                 return {
                     content: [
@@ -0,0 +1,268 @@
+/**
+ * Tool: Import iCalendar
+ * Create tasks from the VTODO/VEVENT components of an iCalendar (.ics) text
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { createTask, getProjectData, resolveProjectId } from "../../api/index.js";
+import { batchExecute, formatBatchResults } from "../../utils/batch.js";
+import { extractTasksFromIcs, type IcsTaskCandidate } from "../../utils/task-calendar.js";
+import { isValidTimeZone } from "../../utils/timezone.js";
+import { findImport, recordImports, type ImportRecord } from "../../import-ledger.js";
+import type { Task, CreateTaskRequest } from "../../api/types.js";
+import { recordOperation, type JournalChange } from "../../journal.js";
+import { isDryRunCall } from "../../utils/dry-run.js";
+import { checkBatchSize, PolicyViolationError } from "../../policy.js";
+import { policyViolationResult } from "../policy.js";
+
+/**
+ * UIDs written by export_tasks_ics
+ */
+const EXPORTED_UID_PATTERN = /^([0-9a-zA-Z]+)@dida365-mcp$/;
+
+/**
+ * Component that already exists as a task in the target project
+ */
+interface DuplicateComponent {
+    uid: string;
+    title: string;
+    taskId: string;
+    reason: string;
+}
+
+export const registerImportIcs: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "import_ics",
+        {
+            title: "Import iCalendar",
+            description: `Create tasks (任务) from an iCalendar (.ics) text, e.g. meeting series or course schedules (导入日历文件).
+
+WHEN TO USE:
+- User pastes or attaches .ics content and wants it as tasks (把日历/课程表导入为任务)
+
+REQUIRED:
+- ics: The iCalendar text (BEGIN:VCALENDAR ... END:VCALENDAR)
+- projectId: Target project ID or name (清单ID或名称), or "inbox" (收集箱)
+
+OPTIONAL:
+- dryRun: true to preview the tasks that would be created without creating anything (预览, recommended first)
+- reimport: true to create tasks again for UIDs that were already imported into this project
+- timeZone: Time zone for times without one (floating times), default is the configured time zone
+
+MAPPING (VTODO and VEVENT):
+- SUMMARY → title, DESCRIPTION (+ LOCATION) → content
+- DTSTART → startDate; DUE (VTODO) / DTEND or DURATION (VEVENT) → dueDate; DATE values → all-day (全天)
+- RRULE → repeatFlag (重复规则); RDATE → custom dates
+- VALARM → reminders (提醒)
+- PRIORITY 1-4 → high (高), 5 → medium (中), 6-9 → low (低)
+
+SKIPPED: Completed/cancelled components, single-occurrence overrides (RECURRENCE-ID) and repeated UIDs. Listed in skipped.
+
+DE-DUPLICATION: Each created task is remembered by UID. Importing the same file again into the same project skips those components (listed in duplicates), as do tasks exported from this project by 'export_tasks_ics'.
+
+BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.failed > 0.`,
+            inputSchema: {
+                ics: z.string().describe("iCalendar text (.ics content) containing VTODO and/or VEVENT components"),
+                projectId: z.string().describe('Target project ID or name (目标清单ID或名称, required). Use "inbox" for the inbox (收集箱)'),
+                dryRun: z.boolean().optional().describe("Preview the tasks without creating them (仅预览, default false)"),
+                reimport: z.boolean().optional().describe("Import components whose UID was already imported into this project (重新导入, default false)"),
+                timeZone: z.string().optional().describe("Time zone for floating times (浮动时间的时区), e.g. Asia/Shanghai (default: configured time zone)"),
+            },
+        },
+        async (args) => {
+            try {
+                const { ics, projectId, dryRun, reimport = false, timeZone } = args as {
+                    ics: string;
+                    projectId: string;
+                    dryRun?: boolean;
+                    reimport?: boolean;
+                    timeZone?: string;
+                };
+
+                if (!ics || typeof ics !== "string" || ics.trim() === "") {
+                    throw new Error("ics is required and must be a non-empty string");
+                }
+                if (!projectId || typeof projectId !== "string" || projectId.trim() === "") {
+                    throw new Error("projectId is required and must be a non-empty string");
+                }
+                if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+                    throw new Error(`Invalid time zone "${timeZone}". Use an IANA name such as "Asia/Shanghai"`);
+                }
+
+                const { tasks: candidates, skipped } = extractTasksFromIcs(ics, timeZone);
+                if (candidates.length === 0 && skipped.length === 0) {
+                    throw new Error("No VTODO or VEVENT components found in the iCalendar text");
+                }
+
+                const targetProjectId = await resolveProjectId(projectId);
+
+                // Skip components that already exist as tasks in the target project
+                const duplicates: DuplicateComponent[] = [];
+                let toCreate: IcsTaskCandidate[] = candidates;
+                if (!reimport) {
+                    const exportedIds = candidates.some((c) => c.uid && EXPORTED_UID_PATTERN.test(c.uid))
+                        ? new Set((await getProjectData(targetProjectId)).tasks.map((t) => t.id))
+                        : new Set<string>();
+
+                    toCreate = candidates.filter((candidate) => {
+                        if (!candidate.uid) return true;
+
+                        const previous = findImport(candidate.uid, targetProjectId);
+                        if (previous) {
+                            duplicates.push({
+                                uid: candidate.uid,
+                                title: candidate.request.title,
+                                taskId: previous.taskId,
+                                reason: `Already imported on ${previous.importedAt}`,
+                            });
+                            return false;
+                        }
+
+                        const exportedId = candidate.uid.match(EXPORTED_UID_PATTERN)?.[1];
+                        if (exportedId && exportedIds.has(exportedId)) {
+                            duplicates.push({
+                                uid: candidate.uid,
+                                title: candidate.request.title,
+                                taskId: exportedId,
+                                reason: "Exported from this project",
+                            });
+                            return false;
+                        }
+                        return true;
+                    });
+                }
+
+                const requests: CreateTaskRequest[] = toCreate.map((candidate) => ({
+                    ...candidate.request,
+                    projectId: targetProjectId,
+                }));
+
+                checkBatchSize(context.policy, "import_ics", requests.length);
+
+                if (isDryRunCall(dryRun)) {
+                    const preview = {
+                        dryRun: true,
+                        projectId: targetProjectId,
+                        tasks: toCreate.map((candidate, i) => ({
+                            uid: candidate.uid,
+                            component: candidate.component,
+                            task: requests[i],
+                            ...(candidate.warnings.length > 0 && { warnings: candidate.warnings }),
+                        })),
+                        duplicates,
+                        skipped,
+                    };
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Dry run: ${requests.length} task(s) would be created, ${duplicates.length} duplicate(s) and ${skipped.length} skipped component(s). Nothing was created.`,
+                            },
+                            { type: "text", text: JSON.stringify(preview) },
+                        ],
+                        structuredContent: preview as unknown as Record<string, unknown>,
+                    };
+                }
+
+                // Execute batch creation
+                const results = await batchExecute<CreateTaskRequest, Task>(
+                    requests,
+                    (request) => createTask(request)
+                );
+
+                // Remember created tasks so the same file is not imported twice
+                const now = new Date().toISOString();
+                const records: ImportRecord[] = [];
+                results.forEach((result, i) => {
+                    const uid = toCreate[i].uid;
+                    if (result.success && uid) {
+                        records.push({ uid, projectId: targetProjectId, taskId: result.result!.id, importedAt: now });
+                    }
+                });
+                // The tasks already exist: a ledger failure must not turn the import into an error,
+                // or a retry would create them all again
+                let ledgerWarning: string | undefined;
+                try {
+                    recordImports(records);
+                } catch (error) {
+                    const reason = error instanceof Error ? error.message : String(error);
+                    console.error("Failed to record imported UIDs:", error);
+                    ledgerWarning = `The imported UIDs could not be recorded (${reason}), so importing this file again ` +
+                        `would create the ${records.length} task(s) a second time`;
+                }
+
+                const journalId = recordOperation(
+                    "import_ics",
+                    results.flatMap((r): JournalChange[] => r.success ? [{ action: "createTask", after: r.result! }] : [])
+                );
+
+                const warnings = toCreate.flatMap((candidate) =>
+                    candidate.warnings.map((warning) => `${candidate.request.title}: ${warning}`)
+                );
+                if (ledgerWarning) {
+                    warnings.push(ledgerWarning);
+                }
+
+                const output = {
+                    ...formatBatchResults(results),
+                    duplicates,
+                    skipped,
+                    ...(warnings.length > 0 && { warnings }),
+                    ...(journalId && { journalId }),
+                };
+
+                // Generate summary message
+                const { summary } = output;
+                let message: string;
+                if (summary.total === 0) {
+                    message = "No new tasks to import";
+                } else if (summary.failed === 0) {
+                    message = `Imported ${summary.total} task(s) successfully!`;
+                } else if (summary.succeeded === 0) {
+                    message = `Failed to import all ${summary.total} tasks`;
+                } else {
+                    message = `Imported ${summary.succeeded}/${summary.total} tasks. ${summary.failed} failed.`;
+                }
+                if (duplicates.length > 0 || skipped.length > 0) {
+                    message += ` Skipped ${duplicates.length} duplicate(s) and ${skipped.length} other component(s).`;
+                }
+                if (ledgerWarning) {
+                    message += ` Warning: ${ledgerWarning}.`;
+                }
+
+                return {
+                    content: [
+                        { type: "text", text: message },
+                        { type: "text", text: JSON.stringify(output) },
+                    ],
+                    structuredContent: output as unknown as Record<string, unknown>,
+                    isError: summary.failed > 0 && summary.succeeded === 0,
+                };
+            } catch (error) {
+                if (error instanceof PolicyViolationError) {
+                    return policyViolationResult(error);
+                }
+                const errorMsg = error instanceof Error ? error.message : String(error);
+
+                // Check if it's an authorization error
+                if (errorMsg.includes("401") || errorMsg.includes("Unauthorized") || errorMsg.includes("Authentication failed")) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Authorization failed: ${errorMsg}. Please use the 'get_auth_url' tool to re-authorize.`,
+                            isError: true
+                        }],
+                        isError: true,
+                    };
+                }
+
+                return {
+                    content: [{ type: "text", text: `Failed to import iCalendar: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
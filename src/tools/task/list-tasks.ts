@@ -5,166 +5,103 @@
 
 import { z } from "zod";
 import type { ToolRegistrationFunction } from "../types.js";
-import { listProjects, getProjectData } from "../../api/index.js";
-import type { Task, Project } from "../../api/types.js";
-
-// Preset date ranges
-type DatePreset = "today" | "tomorrow" | "thisWeek" | "overdue";
-
-/**
- * Normalize a date to start of day in local timezone
- */
-function normalizeToLocalDate(date: Date): Date {
-    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
-}
+import { queryTasks, type FailedProject } from "../../api/index.js";
+import type { Task } from "../../api/types.js";
+import type { ResolvedTaskQuery, TaskQuery } from "../../utils/task-filter.js";
+import { annotateTask } from "../../utils/humanize.js";
+import { continuePagination, startPagination } from "../../utils/pagination.js";
 
 /**
- * Parse a date string and normalize to local date for comparison
+ * Task selection parameters, shared with smart lists (saved queries)
  */
-function parseAndNormalizeDate(dateStr: string): Date {
-    const date = new Date(dateStr);
-    return normalizeToLocalDate(date);
-}
+export const taskQuerySchema = {
+    projectId: z
+        .union([z.string(), z.array(z.string())])
+        .optional()
+        .describe('Project ID(s) or name(s) (清单ID或名称) to filter. Use "inbox" for inbox tasks (收集箱). If omitted, searches all projects (所有清单).'),
+    dueDateFrom: z
+        .string()
+        .optional()
+        .describe('Filter tasks with due date >= this value (截止日期起始): ISO 8601 or natural language, e.g. "today", "下周一"'),
+    dueDateTo: z
+        .string()
+        .optional()
+        .describe('Filter tasks with due date <= this value (截止日期结束): ISO 8601 or natural language, e.g. "end of month", "月底"'),
+    priority: z
+        .union([z.number(), z.array(z.number())])
+        .optional()
+        .describe("Filter by priority (优先级): 0=none (无), 1=low (低), 3=medium (中), 5=high (高)"),
+    preset: z
+        .enum(["today", "tomorrow", "thisWeek", "overdue"])
+        .optional()
+        .describe("Quick date filter preset (快速筛选): today (今天), tomorrow (明天), thisWeek (本周), overdue (逾期)"),
+    tags: z
+        .union([z.string(), z.array(z.string())])
+        .optional()
+        .describe("Filter by tag(s) (标签), matched case-insensitively"),
+    tagMode: z
+        .enum(["any", "all", "none"])
+        .optional()
+        .describe("How tags match (标签匹配): any (任一, default), all (全部), none (不含)"),
+    startDateFrom: z
+        .string()
+        .optional()
+        .describe('Filter tasks with start date >= this value (开始日期起始): ISO 8601 or natural language'),
+    startDateTo: z
+        .string()
+        .optional()
+        .describe('Filter tasks with start date <= this value (开始日期结束): ISO 8601 or natural language'),
+    noDueDate: z
+        .boolean()
+        .optional()
+        .describe("true: only tasks without a due date (无截止日期); false: only tasks with one"),
+    kind: z
+        .union([z.enum(["TEXT", "NOTE", "CHECKLIST"]), z.array(z.enum(["TEXT", "NOTE", "CHECKLIST"]))])
+        .optional()
+        .describe("Filter by task kind (任务类型): TEXT, NOTE (笔记), CHECKLIST (清单)"),
+    checklistMin: z
+        .number()
+        .optional()
+        .describe("Minimum share of completed checklist items, 0-1 (子任务完成比例下限)"),
+    checklistMax: z
+        .number()
+        .optional()
+        .describe("Maximum share of completed checklist items, 0-1 (子任务完成比例上限)"),
+    hasReminder: z
+        .boolean()
+        .optional()
+        .describe("Filter tasks with (true) or without (false) reminders (提醒)"),
+    hasRepeat: z
+        .boolean()
+        .optional()
+        .describe("Filter tasks with (true) or without (false) a repeat rule (重复)"),
+    match: z
+        .enum(["all", "any"])
+        .optional()
+        .describe("Combine filters with AND (all, default, 且) or OR (any, 或)"),
+    sortBy: z
+        .enum(["dueDate", "priority", "createdTime"])
+        .optional()
+        .describe("Sort field (排序字段): dueDate (截止日期, default), priority (优先级), createdTime (创建时间)"),
+    sortOrder: z
+        .enum(["asc", "desc"])
+        .optional()
+        .describe("Sort order (排序方向): asc (升序, default), desc (降序)"),
+    expandRecurring: z
+        .boolean()
+        .optional()
+        .describe("Also list later occurrences of recurring tasks within the date window as projections (展开重复任务, default false)"),
+};
 
 /**
- * Get date range for a preset (in local timezone)
+ * Result details kept with a list_tasks snapshot, repeated on every page
  */
-function getDateRangeForPreset(preset: DatePreset): { from: Date; to: Date } {
-    const now = new Date();
-    const today = normalizeToLocalDate(now);
-
-    switch (preset) {
-        case "today":
-            return {
-                from: today,
-                to: new Date(today.getTime() + 24 * 60 * 60 * 1000 - 1),
-            };
-        case "tomorrow": {
-            const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
-            return {
-                from: tomorrow,
-                to: new Date(tomorrow.getTime() + 24 * 60 * 60 * 1000 - 1),
-            };
-        }
-        case "thisWeek": {
-            const dayOfWeek = today.getDay();
-            const startOfWeek = new Date(today.getTime() - dayOfWeek * 24 * 60 * 60 * 1000);
-            const endOfWeek = new Date(startOfWeek.getTime() + 7 * 24 * 60 * 60 * 1000 - 1);
-            return { from: startOfWeek, to: endOfWeek };
-        }
-        case "overdue":
-            return {
-                from: new Date(0), // Beginning of time
-                to: new Date(today.getTime() - 1), // Yesterday end
-            };
-        default:
-            throw new Error(`Unknown preset: ${preset}`);
-    }
-}
-
-/**
- * Filter tasks based on criteria
- */
-function filterTasks(
-    tasks: Task[],
-    options: {
-        dueDateFrom?: string;
-        dueDateTo?: string;
-        priority?: number[];
-        preset?: DatePreset;
-    }
-): Task[] {
-    let filtered = [...tasks];
-
-    // Apply preset date range
-    if (options.preset) {
-        const { from, to } = getDateRangeForPreset(options.preset);
-
-        if (options.preset === "overdue") {
-            // For overdue, only include tasks with due dates before today
-            filtered = filtered.filter((task) => {
-                if (!task.dueDate) return false;
-                // Normalize task due date to local date for comparison
-                const dueDate = parseAndNormalizeDate(task.dueDate);
-                return dueDate < from; // Before start of today
-            });
-        } else {
-            filtered = filtered.filter((task) => {
-                if (!task.dueDate) return false;
-                // Normalize task due date to local date for comparison
-                const dueDate = parseAndNormalizeDate(task.dueDate);
-                return dueDate >= from && dueDate <= to;
-            });
-        }
-    }
-
-    // Apply custom date range filters
-    if (options.dueDateFrom) {
-        const fromDate = new Date(options.dueDateFrom);
-        filtered = filtered.filter((task) => {
-            if (!task.dueDate) return false;
-            return new Date(task.dueDate) >= fromDate;
-        });
-    }
-
-    if (options.dueDateTo) {
-        const toDate = new Date(options.dueDateTo);
-        filtered = filtered.filter((task) => {
-            if (!task.dueDate) return false;
-            return new Date(task.dueDate) <= toDate;
-        });
-    }
-
-    // Apply priority filter
-    if (options.priority && options.priority.length > 0) {
-        filtered = filtered.filter((task) =>
-            options.priority!.includes(task.priority ?? 0)
-        );
-    }
-
-    return filtered;
-}
-
-/**
- * Sort tasks by specified field
- */
-function sortTasks(
-    tasks: Task[],
-    sortBy: "dueDate" | "priority" | "createdTime" = "dueDate",
-    sortOrder: "asc" | "desc" = "asc"
-): Task[] {
-    const sorted = [...tasks];
-
-    sorted.sort((a, b) => {
-        let comparison = 0;
-
-        switch (sortBy) {
-            case "dueDate": {
-                const dateA = a.dueDate ? new Date(a.dueDate).getTime() : Infinity;
-                const dateB = b.dueDate ? new Date(b.dueDate).getTime() : Infinity;
-                comparison = dateA - dateB;
-                break;
-            }
-            case "priority": {
-                // Higher priority (5) should come first in desc, last in asc
-                const prioA = a.priority ?? 0;
-                const prioB = b.priority ?? 0;
-                comparison = prioA - prioB;
-                break;
-            }
-            case "createdTime": {
-                // Use sortOrder as proxy for creation time
-                const orderA = a.sortOrder ?? 0;
-                const orderB = b.sortOrder ?? 0;
-                comparison = orderA - orderB;
-                break;
-            }
-        }
-
-        return sortOrder === "desc" ? -comparison : comparison;
-    });
-
-    return sorted;
+interface ListTasksSnapshot {
+    filtered: boolean;
+    projections?: number;
+    projects: string[];
+    failedProjects: FailedProject[];
+    resolvedRange?: ResolvedTaskQuery["resolvedRange"];
 }
 
 export const registerListTasks: ToolRegistrationFunction = (server, context) => {
@@ -176,7 +113,7 @@ export const registerListTasks: ToolRegistrationFunction = (server, context) =>
 
 WHEN TO USE:
 - Find tasks due today (今天的任务), this week (本周任务), or overdue (逾期任务)
-- Filter tasks by priority (优先级) or date range (日期范围)
+- Filter tasks by priority (优先级), date range (日期范围), tags (标签), kind or checklist progress
 - Search tasks across multiple projects (清单) or inbox (收集箱)
 - Get a filtered subset of tasks
 
@@ -187,13 +124,30 @@ WHEN NOT TO USE:
 QUICK FILTERS (preset 快速筛选):
 - "today": Tasks due today (今天的任务)
 - "tomorrow": Tasks due tomorrow (明天的任务)
-- "thisWeek": Tasks due this week (本周任务)
+- "thisWeek": Tasks due this week (本周任务), weeks start on the configured day (DIDA365_WEEK_START, default Monday)
 - "overdue": Past-due tasks (逾期任务)
 
 OPTIONAL FILTERS:
-- projectId: Single ID, array of IDs, or "inbox" (收集箱) (omit for all projects/所有清单)
-- dueDateFrom/dueDateTo: Custom date range (自定义日期范围, ISO 8601)
+- projectId: Single ID or name, array of IDs/names, or "inbox" (收集箱) (omit for all projects/所有清单)
+- dueDateFrom/dueDateTo: Custom date range (自定义日期范围), ISO 8601 or natural language ("today", "next Friday", "下周一", "月底"); a date-only dueDateTo includes that whole day. Resolved bounds are echoed in resolvedRange
+- Ranges are days in the configured time zone (DIDA365_TIMEZONE); all-day tasks (全天任务) count on their own calendar day
 - priority: [0=none (无), 1=low (低), 3=medium (中), 5=high (高)]
+- tags + tagMode: Tags (标签) to match; tagMode "any" (default, 任一), "all" (全部) or "none" (不含)
+- startDateFrom/startDateTo: Start date range (开始日期范围), same formats as the due date range
+- noDueDate: true for tasks without a due date (无截止日期), false for tasks with one
+- kind: "TEXT" (任务), "NOTE" (笔记) or "CHECKLIST" (清单任务), or an array
+- checklistMin/checklistMax: Share of completed checklist items (子任务完成比例), 0-1, e.g. { "checklistMin": 0.5 }; tasks without items never match
+- hasReminder/hasRepeat: true/false for tasks with/without reminders (提醒) or repeat rules (重复)
+
+COMBINING FILTERS: match "all" (default, AND/且) requires every filter; match "any" (OR/或) requires at least one. preset, the due date range and the start date range each count as one filter.
+
+RECURRING TASKS (重复任务): A recurring task is stored once, with the due date of its current occurrence. Set expandRecurring: true to also list its later occurrences within the window (e.g. every Monday of "thisWeek" planning views). Each extra occurrence has isProjection: true and occurrenceDate; it keeps the recurring task's id, so use that id to update or complete the task. Requires preset "today"/"tomorrow"/"thisWeek" or dueDateTo. Rules limited by COUNT (e.g. "5 times") are not projected, because the task does not record how many occurrences are already done; only their current occurrence is listed.
+
+READABLE FIELDS: Tasks with reminders or repeat rules include remindersText, reminderTimes (when each reminder fires) and repeatText, in English and Chinese ({ en, zh }).
+
+PAGINATION (分页): Results come in pages of pageSize tasks (default 50, max 200). If nextCursor is returned, call again with only { "cursor": nextCursor } (optionally pageSize) for the next page. Pages come from a snapshot taken by the first call, so no task is missed or repeated while paging; cursors expire after 15 minutes.
+
+CACHING: Project data is cached briefly and invalidated by this server's write tools. Pass forceRefresh: true if tasks were changed elsewhere (e.g. in the Dida365 app).
 
 SORTING:
 - sortBy: "dueDate" (截止日期, default), "priority" (优先级), "createdTime" (创建时间)
@@ -201,183 +155,122 @@ SORTING:
 
 ⚠️ LIMITATION: Only returns UNCOMPLETED tasks (未完成任务, status=0). Completed tasks not available.
 
+⚠️ PARTIAL RESULTS: Projects that fail to load are skipped and listed in failedProjects (with the reason). Tell the user when results are incomplete.
+
 EXAMPLES:
 - Today's tasks (今天的任务): { "preset": "today" }
-- High priority from inbox (收集箱高优先级): { "projectId": "inbox", "priority": [5] }`,
+- High priority from inbox (收集箱高优先级): { "projectId": "inbox", "priority": [5] }
+- Tagged "work" or high priority (工作标签或高优先级): { "tags": ["work"], "priority": [5], "match": "any" }
+- Half-done checklists without a due date: { "kind": "CHECKLIST", "checklistMin": 0.5, "checklistMax": 0.99, "noDueDate": true }`,
             inputSchema: {
-                projectId: z
-                    .union([z.string(), z.array(z.string())])
-                    .optional()
-                    .describe('Project ID(s) (清单ID) to filter. Use "inbox" for inbox tasks (收集箱). If omitted, searches all projects (所有清单).'),
-                dueDateFrom: z
-                    .string()
+                ...taskQuerySchema,
+                pageSize: z
+                    .number()
                     .optional()
-                    .describe("Filter tasks with due date >= this value (截止日期起始, ISO 8601 format)"),
-                dueDateTo: z
+                    .describe("Tasks per page (每页数量, default 50, max 200)"),
+                cursor: z
                     .string()
                     .optional()
-                    .describe("Filter tasks with due date <= this value (截止日期结束, ISO 8601 format)"),
-                priority: z
-                    .union([z.number(), z.array(z.number())])
-                    .optional()
-                    .describe("Filter by priority (优先级): 0=none (无), 1=low (低), 3=medium (中), 5=high (高)"),
-                preset: z
-                    .enum(["today", "tomorrow", "thisWeek", "overdue"])
-                    .optional()
-                    .describe("Quick date filter preset (快速筛选): today (今天), tomorrow (明天), thisWeek (本周), overdue (逾期)"),
+                    .describe("nextCursor from the previous page (分页游标). Other filters are ignored when given"),
                 limit: z
                     .number()
                     .optional()
-                    .describe("Maximum number of tasks to return (最大返回数量, default 50, max 200)"),
-                sortBy: z
-                    .enum(["dueDate", "priority", "createdTime"])
-                    .optional()
-                    .describe("Sort field (排序字段): dueDate (截止日期, default), priority (优先级), createdTime (创建时间)"),
-                sortOrder: z
-                    .enum(["asc", "desc"])
+                    .describe("Same as pageSize (kept for compatibility)"),
+                forceRefresh: z
+                    .boolean()
                     .optional()
-                    .describe("Sort order (排序方向): asc (升序, default), desc (降序)"),
+                    .describe("Bypass the local cache and fetch fresh data from the server (跳过缓存, default false)"),
             },
             outputSchema: z.object({
                 tasks: z.array(z.any()),
                 total: z.number(),
+                totalBeforeLimit: z.number(),
+                offset: z.number(),
+                truncated: z.boolean(),
+                nextCursor: z.string().optional(),
+                snapshotAt: z.string(),
                 filtered: z.boolean(),
+                projections: z.number().optional(),
                 projects: z.array(z.string()),
+                failedProjects: z.array(z.object({
+                    projectId: z.string(),
+                    projectName: z.string().optional(),
+                    error: z.string(),
+                })),
+                resolvedRange: z.object({
+                    dueDateFrom: z.string().optional(),
+                    dueDateTo: z.string().optional(),
+                    startDateFrom: z.string().optional(),
+                    startDateTo: z.string().optional(),
+                }).optional(),
             }),
         },
         async (args) => {
             try {
-                const {
-                    projectId,
-                    dueDateFrom,
-                    dueDateTo,
-                    priority,
-                    preset,
-                    limit = 50,
-                    sortBy = "dueDate",
-                    sortOrder = "asc",
-                } = args as {
-                    projectId?: string | string[];
-                    dueDateFrom?: string;
-                    dueDateTo?: string;
-                    priority?: number | number[];
-                    preset?: DatePreset;
+                const { pageSize, cursor, limit, forceRefresh = false, ...query } = args as TaskQuery & {
+                    pageSize?: number;
+                    cursor?: string;
                     limit?: number;
-                    sortBy?: "dueDate" | "priority" | "createdTime";
-                    sortOrder?: "asc" | "desc";
+                    forceRefresh?: boolean;
                 };
 
-                // Normalize projectId to array
-                let projectIds: string[] | undefined;
-                if (projectId) {
-                    projectIds = Array.isArray(projectId) ? projectId : [projectId];
-                }
-
-                // Normalize priority to array
-                const priorityArray = priority
-                    ? Array.isArray(priority)
-                        ? priority
-                        : [priority]
-                    : undefined;
-
-                // Cap limit at 200
-                const effectiveLimit = Math.min(limit, 200);
-
-                // Get all projects if no specific project filter
-                let projects: Project[];
-                try {
-                    projects = await listProjects();
-                } catch (error) {
-                    const errorMsg = error instanceof Error ? error.message : String(error);
-                    if (errorMsg.includes("401") || errorMsg.includes("Unauthorized")) {
-                        return {
-                            content: [{
-                                type: "text",
-                                text: `Authorization failed: ${errorMsg}. Please use the 'get_auth_url' tool to re-authorize.`,
-                                isError: true,
-                            }],
-                            isError: true,
-                        };
-                    }
-                    throw error;
+                // Cap page size at 200
+                const effectivePageSize = Math.min(pageSize ?? limit ?? 50, 200);
+                if (!Number.isInteger(effectivePageSize) || effectivePageSize < 1) {
+                    throw new Error("pageSize must be a positive integer");
                 }
 
-                // Filter projects if projectId specified
-                let targetProjects = projects;
-                let includeInbox = false;
-
-                if (projectIds) {
-                    // Handle "inbox" special case
-                    includeInbox = projectIds.some((id) => id.toLowerCase() === "inbox");
-                    const regularIds = projectIds.filter((id) => id.toLowerCase() !== "inbox");
-
-                    // Filter to only requested projects
-                    targetProjects = projects.filter((p) => regularIds.includes(p.id));
+                // Later pages come from the snapshot taken by the first page
+                let page;
+                if (cursor) {
+                    page = continuePagination<Task, ListTasksSnapshot>("list_tasks", cursor, effectivePageSize);
                 } else {
-                    // When no projectId specified, include inbox by default
-                    includeInbox = true;
+                    // Resolve the query, load the projects and apply filters and sorting
+                    const result = await queryTasks(query, { forceRefresh });
+                    page = startPagination<Task, ListTasksSnapshot>("list_tasks", result.tasks, {
+                        filtered: result.filtered,
+                        ...(query.expandRecurring && { projections: result.projections }),
+                        projects: result.projects,
+                        failedProjects: result.failedProjects,
+                        ...(result.resolved.resolvedRange && { resolvedRange: result.resolved.resolvedRange }),
+                    }, effectivePageSize);
                 }
+                const { filtered, projections = 0, projects: projectNames, failedProjects, resolvedRange: range } = page.meta;
+                const pageTasks = page.items.map(annotateTask);
 
-                // Collect tasks from all target projects
-                let allTasks: Task[] = [];
-                const projectNames: string[] = [];
-
-                // Fetch tasks from regular projects
-                for (const project of targetProjects) {
-                    try {
-                        const projectData = await getProjectData(project.id);
-                        allTasks.push(...projectData.tasks);
-                        projectNames.push(project.name);
-                    } catch (error) {
-                        // Skip projects that fail
-                        console.error(`Failed to get tasks for project ${project.id}:`, error);
-                    }
-                }
-
-                // Fetch inbox tasks separately
-                if (includeInbox) {
-                    try {
-                        const inboxData = await getProjectData("inbox");
-                        allTasks.push(...inboxData.tasks);
-                        projectNames.push("Inbox");
-                    } catch (error) {
-                        // Inbox fetch failed, continue without it
-                        console.error("Failed to get inbox tasks:", error);
-                    }
-                }
-
-                // Apply filters
-                const hasFilters = !!(dueDateFrom || dueDateTo || priorityArray || preset);
-                let filteredTasks = filterTasks(allTasks, {
-                    dueDateFrom,
-                    dueDateTo,
-                    priority: priorityArray,
-                    preset,
-                });
+                const output = {
+                    tasks: pageTasks,
+                    total: pageTasks.length,
+                    totalBeforeLimit: page.totalItems,
+                    offset: page.offset,
+                    truncated: page.nextCursor !== undefined,
+                    ...(page.nextCursor && { nextCursor: page.nextCursor }),
+                    snapshotAt: page.snapshotAt,
+                    ...page.meta,
+                };
 
-                // Sort tasks
-                filteredTasks = sortTasks(filteredTasks, sortBy, sortOrder);
+                const rangeNote = [
+                    range?.dueDateFrom || range?.dueDateTo ? ` (due ${range.dueDateFrom ?? "…"} to ${range.dueDateTo ?? "…"})` : "",
+                    range?.startDateFrom || range?.startDateTo ? ` (starting ${range.startDateFrom ?? "…"} to ${range.startDateTo ?? "…"})` : "",
+                ].join("");
 
-                // Store total before limit
-                const totalBeforeLimit = filteredTasks.length;
+                const projectionNote = projections > 0
+                    ? ` including ${projections} projected recurring occurrence(s)`
+                    : "";
 
-                // Apply limit
-                const limitedTasks = filteredTasks.slice(0, effectiveLimit);
+                const pageNote = page.nextCursor || page.offset > 0
+                    ? `, showing ${page.offset + 1}-${page.offset + pageTasks.length}${page.nextCursor ? " (more with nextCursor)" : ""}`
+                    : "";
 
-                const output = {
-                    tasks: limitedTasks,
-                    total: limitedTasks.length,
-                    totalBeforeLimit,
-                    filtered: hasFilters,
-                    truncated: limitedTasks.length < totalBeforeLimit,
-                    projects: projectNames,
-                };
+                const failureNote = failedProjects.length > 0
+                    ? `. ⚠️ ${failedProjects.length} project(s) could not be loaded and were skipped (see failedProjects)`
+                    : "";
 
                 return {
                     content: [
                         {
                             type: "text",
-                            text: `Found ${totalBeforeLimit} task(s)${hasFilters ? " (filtered)" : ""} from ${projectNames.length} project(s)${output.truncated ? `, showing first ${output.total}` : ""}`,
+                            text: `Found ${page.totalItems} task(s)${filtered ? " (filtered)" : ""}${rangeNote}${projectionNote} from ${projectNames.length} project(s)${pageNote}${failureNote}`,
                         },
                         { type: "text", text: JSON.stringify(output) },
                     ],
@@ -0,0 +1,175 @@
+/**
+ * Tool: Move Task
+ * Move one or more tasks to another project or the inbox (supports batch operations)
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { getTask, moveTask, resolveProjectId } from "../../api/index.js";
+import { batchExecute, formatBatchResults, formatDryRunResults } from "../../utils/batch.js";
+import type { MoveTaskResult } from "../../api/types.js";
+import { recordOperation, type JournalChange } from "../../journal.js";
+import { describeDryRun, isDryRunCall, type DryRunItem } from "../../utils/dry-run.js";
+
+// Single task move schema
+const TaskMoveSchema = z.object({
+    taskId: z.string().describe("Task ID (任务ID, required)"),
+    fromProjectId: z.string().describe("Project ID or name the task is currently in (当前清单ID或名称, required)"),
+    toProjectId: z.string().describe('Target project ID or name (目标清单ID或名称, required). Use "inbox" to move to the inbox (收集箱)'),
+});
+
+// Task move type
+type TaskMove = z.infer<typeof TaskMoveSchema>;
+
+export const registerMoveTask: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "move_task",
+        {
+            title: "Move Task(s)",
+            description: `Move one or more tasks (任务) to another project (清单) or the inbox (收集箱). Supports batch moves.
+
+WHEN TO USE:
+- User asks to move tasks to another project (移动任务到其他清单)
+- Sort inbox tasks into projects (整理收集箱)
+- Move tasks out of a project before deleting it (删除清单前转移任务)
+
+REQUIRED (per task):
+- taskId: Task to move (任务ID)
+- fromProjectId: Project currently containing the task (当前清单ID), or its name
+- toProjectId: Target project (目标清单ID), its name, or "inbox"
+
+PRESERVED: title (标题), content/desc (描述), dates (日期), timeZone (时区), reminders (提醒), repeatFlag (重复规则), priority (优先级), sort order, tags (标签), checklist items (子任务) and completion status.
+
+⚠️ NEW IDS: A moved task gets a NEW task ID (the Open API has no move operation, so the task is copied and the original deleted). Use results[].task.id for later operations; results[].task.previousId is the old ID.
+
+ROLLBACK: If a move fails midway, the copy is deleted so the task stays in its original project. The error says whether the rollback succeeded.
+
+INPUT FORMAT: { "tasks": [{ "taskId": "...", "fromProjectId": "...", "toProjectId": "..." }, ...] }
+
+BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.failed > 0.
+
+DRY RUN (预览): dryRun: true checks each task exists, resolves both projects and reports the project change, without moving anything.`,
+            inputSchema: {
+                tasks: z.array(TaskMoveSchema).min(1).describe("Array of tasks to move"),
+                dryRun: z.boolean().optional().describe("Preview the moves without moving (仅预览, default false)"),
+            },
+        },
+        async (args) => {
+            try {
+                const { tasks, dryRun } = args as { tasks: TaskMove[]; dryRun?: boolean };
+
+                // Validate tasks array
+                if (!tasks || !Array.isArray(tasks) || tasks.length === 0) {
+                    throw new Error("tasks array is required and must contain at least one task");
+                }
+
+                // Validate each task
+                for (let i = 0; i < tasks.length; i++) {
+                    const task = tasks[i];
+                    if (!task.taskId || typeof task.taskId !== "string" || task.taskId.trim() === "") {
+                        throw new Error(`tasks[${i}].taskId is required and must be a non-empty string`);
+                    }
+                    if (!task.fromProjectId || typeof task.fromProjectId !== "string" || task.fromProjectId.trim() === "") {
+                        throw new Error(`tasks[${i}].fromProjectId is required and must be a non-empty string`);
+                    }
+                    if (!task.toProjectId || typeof task.toProjectId !== "string" || task.toProjectId.trim() === "") {
+                        throw new Error(`tasks[${i}].toProjectId is required and must be a non-empty string`);
+                    }
+                }
+
+                if (isDryRunCall(dryRun)) {
+                    const previews = await batchExecute<TaskMove, DryRunItem>(
+                        tasks,
+                        async (taskMove) => {
+                            const fromProjectId = await resolveProjectId(taskMove.fromProjectId);
+                            const toProjectId = await resolveProjectId(taskMove.toProjectId);
+                            const current = await getTask(fromProjectId, taskMove.taskId.trim());
+                            const unchanged = current.projectId === toProjectId;
+                            return {
+                                operation: "move",
+                                target: "task",
+                                projectId: fromProjectId,
+                                taskId: current.id,
+                                title: current.title,
+                                changes: unchanged ? [] : [{ field: "projectId", from: current.projectId, to: toProjectId }],
+                                note: unchanged ? "Task is already in the target project" : "The moved task would get a new ID",
+                            };
+                        }
+                    );
+                    const preview = formatDryRunResults(previews);
+                    return {
+                        content: [
+                            { type: "text", text: describeDryRun(preview.summary, "task", "moved") },
+                            { type: "text", text: JSON.stringify(preview) },
+                        ],
+                        structuredContent: preview as unknown as Record<string, unknown>,
+                        isError: preview.summary.succeeded === 0,
+                    };
+                }
+
+                // Execute batch move
+                const results = await batchExecute<TaskMove, MoveTaskResult>(
+                    tasks,
+                    async (taskMove) => {
+                        const fromProjectId = await resolveProjectId(taskMove.fromProjectId);
+                        const toProjectId = await resolveProjectId(taskMove.toProjectId);
+                        return await moveTask(fromProjectId, taskMove.taskId.trim(), toProjectId);
+                    }
+                );
+
+                const journalId = recordOperation(
+                    "move_task",
+                    results.flatMap((r): JournalChange[] => r.success ? [{ action: "moveTask", move: r.result! }] : [])
+                );
+
+                const output = {
+                    ...formatBatchResults(results),
+                    ...(journalId && { journalId }),
+                };
+
+                // Generate summary message
+                const { summary } = output;
+                let message: string;
+                if (summary.failed === 0) {
+                    message = summary.total === 1
+                        ? "Task moved successfully! Note: the moved task has a new ID."
+                        : `All ${summary.total} tasks moved successfully! Note: moved tasks have new IDs.`;
+                } else if (summary.succeeded === 0) {
+                    message = summary.total === 1
+                        ? "Failed to move task"
+                        : `Failed to move all ${summary.total} tasks`;
+                } else {
+                    message = `Moved ${summary.succeeded}/${summary.total} tasks. ${summary.failed} failed. Note: moved tasks have new IDs.`;
+                }
+
+                return {
+                    content: [
+                        { type: "text", text: message },
+                        { type: "text", text: JSON.stringify(output) },
+                    ],
+                    structuredContent: output as unknown as Record<string, unknown>,
+                    isError: summary.failed > 0 && summary.succeeded === 0,
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+
+                // Check if it's an authorization error
+                if (errorMsg.includes("401") || errorMsg.includes("Unauthorized") || errorMsg.includes("Authentication failed")) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Authorization failed: ${errorMsg}. Please use the 'get_auth_url' tool to re-authorize.`,
+                            isError: true
+                        }],
+                        isError: true,
+                    };
+                }
+
+                return {
+                    content: [{ type: "text", text: `Failed to move task(s): ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
@@ -0,0 +1,154 @@
+/**
+ * Tool: Preview Recurrence
+ * Expand a repeat rule (repeatFlag) into its next occurrences
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { getTask, resolveProjectId } from "../../api/index.js";
+import { APP_CONFIG } from "../../config.js";
+import { parseDateExpression } from "../../utils/date-parser.js";
+import { expandRecurrence, parseRecurrenceRule } from "../../utils/recurrence.js";
+import { formatApiDate, getZonedDateTime, isValidTimeZone } from "../../utils/timezone.js";
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export const registerPreviewRecurrence: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "preview_recurrence",
+        {
+            title: "Preview Recurrence",
+            description: `Show the next occurrences (下次重复日期) of a repeat rule (重复规则, repeatFlag), in the task's time zone.
+
+WHEN TO USE:
+- Check what a repeatFlag means before creating/updating a task (确认重复规则)
+- User asks when a recurring task happens next (重复任务下次是什么时候)
+
+INPUT (either):
+- projectId + taskId: Preview an existing task's repeatFlag, starting from its start/due date
+- repeatFlag (+ startDate, timeZone): Preview a rule directly, e.g. "RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1" (last workday of each month)
+
+OPTIONAL:
+- startDate: First occurrence of the series (ISO 8601 or natural language, default: the task's date or now)
+- after: Only list occurrences after this time (default: now)
+- count: Number of occurrences (default 10, max 100)
+
+SUPPORTED: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, BYDAY (incl. 2MO, -1FR), BYMONTHDAY, BYMONTH, BYSETPOS, COUNT, UNTIL, WKST, TT_SKIP=WEEKEND and ERULE:NAME=CUSTOM;BYDATE=... date lists. TT_SKIP=HOLIDAY is accepted but not applied (holiday calendars are not available).
+
+Malformed rules return an error explaining the problem.`,
+            inputSchema: {
+                projectId: z.string().optional().describe("Project ID or name of the task (清单ID或名称)"),
+                taskId: z.string().optional().describe("Task ID (任务ID) whose repeatFlag to preview"),
+                repeatFlag: z.string().optional().describe("Repeat rule to preview (重复规则), e.g. RRULE:FREQ=WEEKLY;BYDAY=MO,WE. Overrides the task's rule"),
+                startDate: z.string().optional().describe('First occurrence (首次日期): ISO 8601 or natural language, e.g. "2025-12-01T09:00:00+0800", "next Monday 9am"'),
+                timeZone: z.string().optional().describe("Time zone (时区), e.g. Asia/Shanghai (default: the task's or configured time zone)"),
+                after: z.string().optional().describe("Only list occurrences after this time (之后的日期, default now)"),
+                count: z.number().optional().describe("Number of occurrences (数量, default 10, max 100)"),
+            },
+            outputSchema: z.object({
+                repeatFlag: z.string(),
+                timeZone: z.string(),
+                start: z.string(),
+                occurrences: z.array(z.object({
+                    date: z.string(),
+                    weekday: z.string(),
+                })),
+                exhausted: z.boolean(),
+                warnings: z.array(z.string()).optional(),
+            }),
+        },
+        async (args) => {
+            try {
+                const { projectId, taskId, repeatFlag, startDate, timeZone, after, count = 10 } = args as {
+                    projectId?: string;
+                    taskId?: string;
+                    repeatFlag?: string;
+                    startDate?: string;
+                    timeZone?: string;
+                    after?: string;
+                    count?: number;
+                };
+
+                if (!repeatFlag && !taskId) {
+                    throw new Error("Provide either repeatFlag or projectId + taskId");
+                }
+                if (taskId && (!projectId || projectId.trim() === "")) {
+                    throw new Error("projectId is required when taskId is given");
+                }
+                if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+                    throw new Error(`Invalid time zone "${timeZone}". Use an IANA name such as "Asia/Shanghai"`);
+                }
+                if (!Number.isInteger(count) || count < 1) {
+                    throw new Error("count must be a positive integer");
+                }
+
+                const task = taskId ? await getTask(await resolveProjectId(projectId!), taskId.trim()) : undefined;
+                const rule = repeatFlag ?? task?.repeatFlag;
+                if (!rule) {
+                    throw new Error(`Task "${task?.title ?? taskId}" does not repeat (no repeatFlag)`);
+                }
+
+                const effectiveTimeZone = timeZone ?? task?.timeZone ?? APP_CONFIG.DATE.TIME_ZONE;
+                const taskStart = task?.startDate ?? task?.dueDate;
+                const start = startDate
+                    ? parseDateExpression(startDate, { timeZone: effectiveTimeZone }).date
+                    : taskStart ? new Date(taskStart) : new Date();
+                const afterDate = after
+                    ? parseDateExpression(after, { timeZone: effectiveTimeZone }).date
+                    : new Date();
+
+                const parsed = parseRecurrenceRule(rule);
+                const { occurrences, exhausted } = expandRecurrence(parsed, {
+                    start,
+                    timeZone: effectiveTimeZone,
+                    after: afterDate,
+                    limit: Math.min(count, 100),
+                });
+
+                const output = {
+                    repeatFlag: rule,
+                    timeZone: effectiveTimeZone,
+                    start: formatApiDate(start, effectiveTimeZone),
+                    occurrences: occurrences.map((date) => ({
+                        date: formatApiDate(date, effectiveTimeZone),
+                        weekday: WEEKDAY_NAMES[getZonedDateTime(date, effectiveTimeZone).weekday],
+                    })),
+                    exhausted,
+                    ...(parsed.unsupported.length > 0 && {
+                        warnings: parsed.unsupported.map((part) => `${part} is not applied to the preview`),
+                    }),
+                };
+
+                const endNote = exhausted ? " The series ends after these." : "";
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Next ${occurrences.length} occurrence(s) of ${rule} (${effectiveTimeZone}).${endNote}`,
+                        },
+                        { type: "text", text: JSON.stringify(output) },
+                    ],
+                    structuredContent: output as unknown as Record<string, unknown>,
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+
+                if (errorMsg.includes("401") || errorMsg.includes("Unauthorized") || errorMsg.includes("Authentication failed")) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Authorization failed: ${errorMsg}. Please use the 'get_auth_url' tool to re-authorize.`,
+                            isError: true,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                return {
+                    content: [{ type: "text", text: `Failed to preview recurrence: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
@@ -0,0 +1,161 @@
+/**
+ * Tool: Search Tasks
+ * Full-text search across task titles, descriptions and checklist items
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { fetchTasksAcrossProjects } from "../../api/index.js";
+import { searchTasks } from "../../utils/search.js";
+
+export const registerSearchTasks: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "search_tasks",
+        {
+            title: "Search Tasks",
+            description: `Full-text search for tasks (搜索任务) by words in title (标题), description (content/desc, 描述) or sub-task titles (子任务).
+
+WHEN TO USE:
+- User refers to a task by its words, not its ID ("the task about the budget report", "找一下关于周报的任务")
+- Find tasks mentioning a keyword across all projects (所有清单) or inbox (收集箱)
+
+WHEN NOT TO USE:
+- Filter by date/priority only → use 'list_tasks'
+- Already know projectId and taskId → use 'get_task'
+
+QUERY SYNTAX:
+- Terms separated by spaces: budget report (all terms must match by default)
+- Quoted phrases match exactly: "Q3 budget", “季度预算”, 「周报」
+- Fuzzy matching (default on): tolerates typos in English words (e.g. "reprot" → "report") and partial matches in Chinese/Japanese/Korean text (e.g. "项目周报" → "项目的周报")
+
+OPTIONAL:
+- projectId: Limit search to project ID(s)/name(s) or "inbox"
+- caseSensitive: Match case exactly (default false, case-insensitive)
+- fuzzy: Set false for exact matching only
+- matchMode: "all" (every term must match, default) or "any"
+- limit: Maximum results (default 20, max 100)
+
+RETURNS: Ranked results (best first) with score, matchedFields, and highlights (snippets with matched text wrapped in **).
+
+⚠️ LIMITATION: Only searches UNCOMPLETED tasks (未完成任务). Projects that fail to load are listed in failedProjects.`,
+            inputSchema: {
+                query: z.string().describe('Search query (搜索关键词). Space-separated terms; wrap phrases in quotes, e.g. report "Q3 budget"'),
+                projectId: z
+                    .union([z.string(), z.array(z.string())])
+                    .optional()
+                    .describe('Project ID(s) or name(s) (清单ID或名称) to search. Use "inbox" for inbox tasks (收集箱). If omitted, searches all projects (所有清单).'),
+                caseSensitive: z.boolean().optional().describe("Match case exactly (区分大小写, default false)"),
+                fuzzy: z.boolean().optional().describe("Allow approximate matches (模糊匹配, default true)"),
+                matchMode: z.enum(["all", "any"]).optional().describe("Require all terms (all, default) or any term (any) to match"),
+                limit: z.number().optional().describe("Maximum number of results (最大返回数量, default 20, max 100)"),
+                forceRefresh: z.boolean().optional().describe("Bypass the local cache and fetch fresh data from the server (跳过缓存, default false)"),
+            },
+            outputSchema: z.object({
+                results: z.array(z.object({
+                    task: z.any(),
+                    projectName: z.string().optional(),
+                    score: z.number(),
+                    matchedFields: z.array(z.string()),
+                    highlights: z.array(z.object({
+                        field: z.string(),
+                        snippet: z.string(),
+                    })),
+                })),
+                total: z.number(),
+                totalMatches: z.number(),
+                projects: z.array(z.string()),
+                failedProjects: z.array(z.object({
+                    projectId: z.string(),
+                    projectName: z.string().optional(),
+                    error: z.string(),
+                })),
+            }),
+        },
+        async (args) => {
+            try {
+                const {
+                    query,
+                    projectId,
+                    caseSensitive = false,
+                    fuzzy = true,
+                    matchMode = "all",
+                    limit = 20,
+                    forceRefresh = false,
+                } = args as {
+                    query: string;
+                    projectId?: string | string[];
+                    caseSensitive?: boolean;
+                    fuzzy?: boolean;
+                    matchMode?: "all" | "any";
+                    limit?: number;
+                    forceRefresh?: boolean;
+                };
+
+                // Validate input
+                if (!query || typeof query !== "string" || query.trim() === "") {
+                    throw new Error("query is required and must be a non-empty string");
+                }
+
+                // Normalize projectId to array
+                const projectIds = projectId
+                    ? (Array.isArray(projectId) ? projectId : [projectId])
+                    : undefined;
+
+                // Cap limit at 100
+                const effectiveLimit = Math.max(1, Math.min(limit, 100));
+
+                // Fetch tasks from target projects (all projects + inbox if omitted)
+                const { tasks, projects, failedProjects, projectsById } =
+                    await fetchTasksAcrossProjects(projectIds, { forceRefresh });
+
+                const hits = searchTasks(tasks, query, { caseSensitive, fuzzy, matchMode });
+                const results = hits.slice(0, effectiveLimit).map((hit) => ({
+                    ...hit,
+                    projectName: projectsById.get(hit.task.projectId)?.name
+                        ?? (hit.task.projectId.startsWith("inbox") ? "Inbox" : undefined),
+                }));
+
+                const output = {
+                    results,
+                    total: results.length,
+                    totalMatches: hits.length,
+                    projects,
+                    failedProjects,
+                };
+
+                const failureNote = failedProjects.length > 0
+                    ? `. ⚠️ ${failedProjects.length} project(s) could not be loaded and were skipped (see failedProjects)`
+                    : "";
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Found ${hits.length} task(s) matching "${query}" in ${projects.length} project(s)${hits.length > results.length ? `, showing top ${results.length}` : ""}${failureNote}`,
+                        },
+                        { type: "text", text: JSON.stringify(output) },
+                    ],
+                    structuredContent: output as unknown as Record<string, unknown>,
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+
+                if (errorMsg.includes("401") || errorMsg.includes("Unauthorized") || errorMsg.includes("Authentication failed")) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Authorization failed: ${errorMsg}. Please use the 'get_auth_url' tool to re-authorize.`,
+                            isError: true,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                return {
+                    content: [{ type: "text", text: `Failed to search tasks: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
@@ -5,9 +5,14 @@
 
 import { z } from "zod";
 import type { ToolRegistrationFunction } from "../types.js";
-import { updateTask } from "../../api/index.js";
-import { batchExecute, formatBatchResults } from "../../utils/batch.js";
+import { getTask, updateTask, resolveProjectId } from "../../api/index.js";
+import { batchExecute, formatBatchResults, formatDryRunResults } from "../../utils/batch.js";
+import { resolveTaskDates, formatResolvedDates, type ResolvedDateField } from "../../utils/date-parser.js";
+import { validateRepeatFlag } from "../../utils/recurrence.js";
 import type { Task, UpdateTaskRequest } from "../../api/types.js";
+import { recordOperation, type JournalChange } from "../../journal.js";
+import { diffFields } from "../../utils/diff.js";
+import { describeDryRun, isDryRunCall, type DryRunItem } from "../../utils/dry-run.js";
 
 // ChecklistItem schema for sub-tasks
 const ChecklistItemSchema = z.object({
@@ -23,12 +28,12 @@ const ChecklistItemSchema = z.object({
 // Single task update schema
 const TaskUpdateSchema = z.object({
     taskId: z.string().describe("Task ID (任务ID, required)"),
-    projectId: z.string().describe("Project ID (清单ID, required)"),
+    projectId: z.string().describe("Project ID or name (清单ID或名称, required)"),
     title: z.string().optional().describe("Task title (任务标题, optional)"),
     description: z.string().optional().describe("Task description/notes (任务描述/备注). Auto-mapped: to 'content' for TEXT tasks, to 'desc' for CHECKLIST tasks (with items)"),
     isAllDay: z.boolean().optional().describe("Is all-day task (全天任务, optional)"),
-    startDate: z.string().optional().describe("Start time (开始日期), format yyyy-MM-dd'T'HH:mm:ssZ (optional)"),
-    dueDate: z.string().optional().describe("Due time (截止日期), format yyyy-MM-dd'T'HH:mm:ssZ (optional)"),
+    startDate: z.string().optional().describe("Start time (开始日期): yyyy-MM-dd'T'HH:mm:ssZ or a natural-language expression like \"tomorrow 9am\", \"明天上午九点\" (optional)"),
+    dueDate: z.string().optional().describe("Due time (截止日期): yyyy-MM-dd'T'HH:mm:ssZ or a natural-language expression like \"next Friday 5pm\", \"下周五\", \"月底\" (optional)"),
     timeZone: z.string().optional().describe("Time zone (时区, optional)"),
     reminders: z.array(z.string()).optional().describe("Reminder list (提醒列表, optional)"),
     repeatFlag: z.string().optional().describe("Repeat rule (重复规则, optional)"),
@@ -40,6 +45,37 @@ const TaskUpdateSchema = z.object({
 // Task update type
 type TaskUpdate = z.infer<typeof TaskUpdateSchema>;
 
+/**
+ * Build the API request for a task update (project name resolved)
+ */
+async function buildUpdateRequest(taskUpdate: TaskUpdate): Promise<UpdateTaskRequest> {
+    // Auto-map description field based on task type:
+    // - If items exist (CHECKLIST task): use 'desc' field
+    // - If no items (TEXT task): use 'content' field
+    const hasItems = taskUpdate.items && taskUpdate.items.length > 0;
+    const descriptionMapping = taskUpdate.description !== undefined
+        ? (hasItems
+            ? { desc: taskUpdate.description }
+            : { content: taskUpdate.description })
+        : {};
+
+    return {
+        id: taskUpdate.taskId.trim(),
+        projectId: await resolveProjectId(taskUpdate.projectId),
+        ...(taskUpdate.title !== undefined && { title: taskUpdate.title }),
+        ...descriptionMapping,
+        ...(taskUpdate.isAllDay !== undefined && { isAllDay: taskUpdate.isAllDay }),
+        ...(taskUpdate.startDate !== undefined && { startDate: taskUpdate.startDate }),
+        ...(taskUpdate.dueDate !== undefined && { dueDate: taskUpdate.dueDate }),
+        ...(taskUpdate.timeZone !== undefined && { timeZone: taskUpdate.timeZone }),
+        ...(taskUpdate.reminders !== undefined && { reminders: taskUpdate.reminders }),
+        ...(taskUpdate.repeatFlag !== undefined && { repeatFlag: taskUpdate.repeatFlag }),
+        ...(taskUpdate.priority !== undefined && { priority: taskUpdate.priority }),
+        ...(taskUpdate.sortOrder !== undefined && { sortOrder: taskUpdate.sortOrder }),
+        ...(taskUpdate.items !== undefined && { items: taskUpdate.items }),
+    };
+}
+
 export const registerUpdateTask: ToolRegistrationFunction = (server, context) => {
     server.registerTool(
         "update_task",
@@ -55,29 +91,34 @@ WHEN TO USE:
 
 REQUIRED (per task):
 - taskId: Task to update (任务ID)
-- projectId: Project containing the task (清单ID)
+- projectId: Project containing the task (清单ID), or its name
 
 OPTIONAL (only provided fields are updated):
 - title: New task title (新标题)
 - description: New notes (新描述, auto-maps to correct field)
-- dueDate: ISO 8601 format (截止日期, e.g., "2025-11-25T17:00:00+0800")
-- startDate: ISO 8601 format (开始日期)
+- dueDate: Due time (截止日期): ISO 8601 (e.g., "2025-11-25T17:00:00+0800") or natural language ("tomorrow 3pm", "next Friday", "in 2 weeks", "明天下午三点", "下周一", "月底")
+- startDate: Start time (开始日期), same formats as dueDate
 - priority: 0=none (无), 1=low (低), 3=medium (中), 5=high (高)
 - isAllDay: true for all-day tasks (全天任务)
 - reminders: ["TRIGGER:PT0S"] (提醒)
-- repeatFlag: Recurrence rule (重复规则)
+- repeatFlag: Recurrence rule (重复规则). Malformed rules are rejected; use 'preview_recurrence' to check the dates a rule produces
 - items: Sub-task array (子任务列表) [{title, status: 0|1}]
 
 INPUT FORMAT: { "tasks": [{ "taskId": "...", "projectId": "...", ...updates }, ...] }
 
-BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.failed > 0.`,
+DATES (日期): Natural-language dates are resolved in the task's timeZone, or the server's configured time zone (DIDA365_TIMEZONE). Date-only expressions ("下周一", "月底") make the task all-day (全天) unless isAllDay is given. The resolved absolute times are returned in resolvedDates.
+
+BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.failed > 0.
+
+DRY RUN (预览): dryRun: true validates the updates, resolves project names and dates, and returns each task's field changes (from → to) against its current state, without updating anything.`,
             inputSchema: {
                 tasks: z.array(TaskUpdateSchema).min(1).describe("Array of tasks to update"),
+                dryRun: z.boolean().optional().describe("Preview the changes without updating (仅预览, default false)"),
             },
         },
         async (args) => {
             try {
-                const { tasks } = args as { tasks: TaskUpdate[] };
+                const { tasks, dryRun } = args as { tasks: TaskUpdate[]; dryRun?: boolean };
 
                 // Validate tasks array
                 if (!tasks || !Array.isArray(tasks) || tasks.length === 0) {
@@ -93,42 +134,76 @@ BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.f
                     if (!task.projectId || typeof task.projectId !== "string" || task.projectId.trim() === "") {
                         throw new Error(`tasks[${i}].projectId is required and must be a non-empty string`);
                     }
+                    validateRepeatFlag(task.repeatFlag, `tasks[${i}]`);
+                }
+
+                // Resolve natural-language dates ("明天下午三点") to the API format
+                const resolvedDates: ResolvedDateField[] = [];
+                const resolvedTasks = tasks.map((task, i) => {
+                    const resolved = resolveTaskDates(task, `tasks[${i}]`);
+                    resolvedDates.push(...resolved.resolved);
+                    return resolved.task;
+                });
+
+                if (isDryRunCall(dryRun)) {
+                    const previews = await batchExecute<TaskUpdate, DryRunItem>(
+                        resolvedTasks,
+                        async (taskUpdate) => {
+                            const request = await buildUpdateRequest(taskUpdate);
+                            const current = await getTask(request.projectId, request.id);
+                            const fields = (Object.keys(request) as (keyof UpdateTaskRequest)[])
+                                .filter((field) => field !== "id" && field !== "projectId");
+                            const changes = diffFields<UpdateTaskRequest>(current, request, fields);
+                            return {
+                                operation: "update",
+                                target: "task",
+                                projectId: current.projectId,
+                                taskId: current.id,
+                                title: current.title,
+                                changes,
+                                ...(changes.length === 0 && { note: "No field would change" }),
+                            };
+                        }
+                    );
+                    const preview = {
+                        ...formatDryRunResults(previews),
+                        ...(resolvedDates.length > 0 && { resolvedDates }),
+                    };
+
+                    let message = describeDryRun(preview.summary, "task", "updated");
+                    if (resolvedDates.length > 0) {
+                        message += ` Resolved dates: ${formatResolvedDates(resolvedDates)}`;
+                    }
+                    return {
+                        content: [
+                            { type: "text", text: message },
+                            { type: "text", text: JSON.stringify(preview) },
+                        ],
+                        structuredContent: preview as unknown as Record<string, unknown>,
+                        isError: preview.summary.succeeded === 0,
+                    };
                 }
 
-                // Execute batch update
+                // Execute batch update, journaling each task's state before and after
+                const changes: JournalChange[] = [];
                 const results = await batchExecute<TaskUpdate, Task>(
-                    tasks,
+                    resolvedTasks,
                     async (taskUpdate) => {
-                        // Auto-map description field based on task type:
-                        // - If items exist (CHECKLIST task): use 'desc' field
-                        // - If no items (TEXT task): use 'content' field
-                        const hasItems = taskUpdate.items && taskUpdate.items.length > 0;
-                        const descriptionMapping = taskUpdate.description !== undefined
-                            ? (hasItems
-                                ? { desc: taskUpdate.description }
-                                : { content: taskUpdate.description })
-                            : {};
-
-                        const requestData: UpdateTaskRequest = {
-                            id: taskUpdate.taskId.trim(),
-                            projectId: taskUpdate.projectId.trim(),
-                            ...(taskUpdate.title !== undefined && { title: taskUpdate.title }),
-                            ...descriptionMapping,
-                            ...(taskUpdate.isAllDay !== undefined && { isAllDay: taskUpdate.isAllDay }),
-                            ...(taskUpdate.startDate !== undefined && { startDate: taskUpdate.startDate }),
-                            ...(taskUpdate.dueDate !== undefined && { dueDate: taskUpdate.dueDate }),
-                            ...(taskUpdate.timeZone !== undefined && { timeZone: taskUpdate.timeZone }),
-                            ...(taskUpdate.reminders !== undefined && { reminders: taskUpdate.reminders }),
-                            ...(taskUpdate.repeatFlag !== undefined && { repeatFlag: taskUpdate.repeatFlag }),
-                            ...(taskUpdate.priority !== undefined && { priority: taskUpdate.priority }),
-                            ...(taskUpdate.sortOrder !== undefined && { sortOrder: taskUpdate.sortOrder }),
-                            ...(taskUpdate.items !== undefined && { items: taskUpdate.items }),
-                        };
-                        return await updateTask(taskUpdate.taskId.trim(), requestData);
+                        const requestData = await buildUpdateRequest(taskUpdate);
+                        const before = await getTask(requestData.projectId, requestData.id);
+                        const after = await updateTask(requestData.id, requestData);
+                        changes.push({ action: "updateTask", before, after });
+                        return after;
                     }
                 );
 
-                const output = formatBatchResults(results);
+                const journalId = recordOperation("update_task", changes);
+
+                const output = {
+                    ...formatBatchResults(results),
+                    ...(resolvedDates.length > 0 && { resolvedDates }),
+                    ...(journalId && { journalId }),
+                };
 
                 // Generate summary message
                 const { summary } = output;
@@ -145,6 +220,10 @@ BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.f
                     message = `Updated ${summary.succeeded}/${summary.total} tasks. ${summary.failed} failed.`;
                 }
 
+                if (resolvedDates.length > 0) {
+                    message += ` Resolved dates: ${formatResolvedDates(resolvedDates)}`;
+                }
+
                 return {
                     content: [
                         { type: "text", text: message },
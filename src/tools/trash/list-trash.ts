@@ -0,0 +1,111 @@
+/**
+ * Tool: List Trash
+ * Show deleted tasks and projects that can still be restored
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { getTrashExpiry, isTrashEnabled, listTrash, type TrashEntry } from "../../trash.js";
+
+/**
+ * Compact view of a trash entry
+ */
+function summarizeEntry(entry: TrashEntry) {
+    if (entry.kind === "task") {
+        return {
+            id: entry.id,
+            kind: entry.kind,
+            deletedAt: entry.deletedAt,
+            expiresAt: getTrashExpiry(entry),
+            title: entry.task.title,
+            projectId: entry.task.projectId,
+            ...(entry.projectName && { projectName: entry.projectName }),
+            checklistItems: entry.task.items?.length ?? 0,
+        };
+    }
+    return {
+        id: entry.id,
+        kind: entry.kind,
+        deletedAt: entry.deletedAt,
+        expiresAt: getTrashExpiry(entry),
+        title: entry.project.name,
+        projectId: entry.project.id,
+        projectName: entry.project.name,
+        taskCount: entry.tasks.length,
+    };
+}
+
+export const registerListTrash: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "list_trash",
+        {
+            title: "List Trash",
+            description: `List deleted tasks (任务) and projects (清单) kept in the local trash (回收站), newest first.
+
+Every delete through 'delete_task' or 'delete_project' first saves a full copy here. Entries are purged after the retention period (DIDA365_TRASH_RETENTION_DAYS, default 30 days).
+
+WHEN TO USE:
+- User wants to undo a deletion or recover a deleted task/project (恢复已删除的任务/清单)
+- Find the trash entry ID to pass to 'restore_from_trash'
+
+OPTIONAL:
+- kind: "task" or "project"
+- query: Only entries whose title/name contains this text (case-insensitive)
+- limit: Maximum entries to return (default 50)`,
+            inputSchema: {
+                kind: z.enum(["task", "project"]).optional().describe("Only tasks or only projects"),
+                query: z.string().optional().describe("Text to find in titles/names (标题关键词)"),
+                limit: z.number().int().min(1).max(500).optional().describe("Maximum entries to return (default 50)"),
+            },
+        },
+        async (args) => {
+            try {
+                const { kind, query, limit = 50 } = args as { kind?: TrashEntry["kind"]; query?: string; limit?: number };
+
+                if (!isTrashEnabled()) {
+                    const output = { enabled: false, entries: [], total: 0 };
+                    return {
+                        content: [
+                            { type: "text", text: "The trash is disabled (DIDA365_TRASH_RETENTION_DAYS=0)" },
+                            { type: "text", text: JSON.stringify(output) },
+                        ],
+                        structuredContent: output as unknown as Record<string, unknown>,
+                    };
+                }
+
+                const needle = query?.trim().toLowerCase();
+                const matching = listTrash()
+                    .filter((entry) => !kind || entry.kind === kind)
+                    .map(summarizeEntry)
+                    .filter((entry) => !needle || entry.title.toLowerCase().includes(needle));
+                const entries = matching.slice(0, limit);
+                const output = {
+                    enabled: true,
+                    entries,
+                    total: entries.length,
+                    totalBeforeLimit: matching.length,
+                    truncated: entries.length < matching.length,
+                };
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: matching.length > 0
+                                ? `Found ${matching.length} item(s) in the trash${output.truncated ? ` (showing ${entries.length})` : ""}`
+                                : "The trash is empty",
+                        },
+                        { type: "text", text: JSON.stringify(output) },
+                    ],
+                    structuredContent: output as unknown as Record<string, unknown>,
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                return {
+                    content: [{ type: "text", text: `Failed to list trash: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
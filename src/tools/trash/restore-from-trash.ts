@@ -0,0 +1,158 @@
+/**
+ * Tool: Restore From Trash
+ * Recreate deleted tasks and projects from the local trash
+ */
+
+import { z } from "zod";
+import type { ToolRegistrationFunction } from "../types.js";
+import { resolveProjectId } from "../../api/index.js";
+import { getTrashEntry, restoreFromTrash, type TrashEntry, type TrashRestore } from "../../trash.js";
+import { batchExecute } from "../../utils/batch.js";
+import { isDryRun } from "../../config.js";
+
+export const registerRestoreFromTrash: ToolRegistrationFunction = (server, context) => {
+    server.registerTool(
+        "restore_from_trash",
+        {
+            title: "Restore From Trash",
+            description: `Restore deleted tasks (任务) or projects (清单) from the local trash (从回收站恢复). Supports batch restore.
+
+Tasks are recreated with their content, dates, reminders, repeat rules, tags, priority and checklist items (子任务/检查项); completed tasks are completed again. Projects are recreated with their open tasks. Restored items get NEW IDs.
+
+WHEN TO USE:
+- User wants to undo a deletion (撤销删除, 恢复任务/清单)
+
+REQUIRED:
+- ids: Trash entry IDs from 'list_trash'
+
+OPTIONAL:
+- projectId: Restore task entries into this project instead of their original one (e.g. if the original project was deleted too)
+
+LIMITATIONS:
+- Kanban columns (看板列) are not recreated; restored tasks go to the default column
+- Completed tasks of a deleted project were never in the trash (the API does not return them)
+
+BATCH BEHAVIOR: Non-atomic - some may succeed while others fail. Check summary.failed > 0. Tasks of a project that fail to restore are put back in the trash (see failedTasks[].trashId).`,
+            inputSchema: {
+                ids: z.array(z.string()).min(1).describe("Trash entry IDs to restore (回收站条目ID)"),
+                projectId: z.string().optional().describe("Target project for task entries (目标清单ID或名称)"),
+            },
+        },
+        async (args) => {
+            try {
+                const { ids, projectId } = args as { ids: string[]; projectId?: string };
+
+                // Validate input
+                if (!ids || !Array.isArray(ids) || ids.length === 0) {
+                    throw new Error("ids array is required and must contain at least one trash entry ID");
+                }
+                for (let i = 0; i < ids.length; i++) {
+                    if (typeof ids[i] !== "string" || ids[i].trim() === "") {
+                        throw new Error(`ids[${i}] must be a non-empty string`);
+                    }
+                }
+
+                // A repeated ID would recreate the same entry twice
+                const uniqueIds = [...new Set(ids.map((id) => id.trim()))];
+
+                const targetProjectId = projectId !== undefined
+                    ? await resolveProjectId(projectId, { match: "prefix" })
+                    : undefined;
+
+                if (isDryRun()) {
+                    const previews = await batchExecute<string, TrashEntry>(uniqueIds, async (id) => {
+                        const entry = getTrashEntry(id);
+                        if (!entry) {
+                            throw new Error(`Trash entry ${id} not found (it may have expired)`);
+                        }
+                        return entry;
+                    });
+                    const found = previews.filter((r) => r.success).length;
+                    const preview = {
+                        dryRun: true,
+                        summary: { total: previews.length, succeeded: found, failed: previews.length - found },
+                        results: previews.map((r) => r.success
+                            ? {
+                                index: r.index,
+                                success: true,
+                                trashId: r.input,
+                                kind: r.result!.kind,
+                                title: r.result!.kind === "task" ? r.result!.task.title : r.result!.project.name,
+                                ...(r.result!.kind === "task" && { projectId: targetProjectId ?? r.result!.task.projectId }),
+                                taskCount: r.result!.kind === "task" ? 1 : r.result!.tasks.length,
+                            }
+                            : { index: r.index, success: false, trashId: r.input, error: r.error }
+                        ),
+                    };
+                    return {
+                        content: [
+                            { type: "text", text: `Dry run: ${found} item(s) would be restored${found < previews.length ? `, ${previews.length - found} not found` : ""}. Nothing was changed.` },
+                            { type: "text", text: JSON.stringify(preview) },
+                        ],
+                        structuredContent: preview as unknown as Record<string, unknown>,
+                        isError: found === 0,
+                    };
+                }
+
+                const results = await batchExecute<string, TrashRestore>(
+                    uniqueIds,
+                    (id) => restoreFromTrash(id, { projectId: targetProjectId })
+                );
+
+                const succeeded = results.filter((r) => r.success).length;
+                const output = {
+                    summary: { total: results.length, succeeded, failed: results.length - succeeded },
+                    results: results.map((r) => r.success
+                        ? { index: r.index, success: true, restored: r.result }
+                        : { index: r.index, success: false, trashId: r.input, error: r.error }
+                    ),
+                };
+                const failedTasks = results.reduce((sum, r) => sum + (r.result?.failedTasks.length ?? 0), 0);
+
+                let message: string;
+                if (output.summary.failed === 0) {
+                    message = output.summary.total === 1
+                        ? "Restored from trash successfully!"
+                        : `All ${output.summary.total} items restored from trash successfully!`;
+                } else if (succeeded === 0) {
+                    message = output.summary.total === 1
+                        ? "Failed to restore from trash"
+                        : `Failed to restore all ${output.summary.total} items`;
+                } else {
+                    message = `Restored ${succeeded}/${output.summary.total} items. ${output.summary.failed} failed.`;
+                }
+                if (failedTasks > 0) {
+                    message += ` ${failedTasks} task(s) of restored projects could not be recreated and are back in the trash.`;
+                }
+
+                return {
+                    content: [
+                        { type: "text", text: message },
+                        { type: "text", text: JSON.stringify(output) },
+                    ],
+                    structuredContent: output as unknown as Record<string, unknown>,
+                    isError: output.summary.failed > 0 && succeeded === 0,
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+
+                // Check if it's an authorization error
+                if (errorMsg.includes("401") || errorMsg.includes("Unauthorized") || errorMsg.includes("Authentication failed")) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Authorization failed: ${errorMsg}. Please use the 'get_auth_url' tool to re-authorize.`,
+                            isError: true
+                        }],
+                        isError: true,
+                    };
+                }
+
+                return {
+                    content: [{ type: "text", text: `Failed to restore from trash: ${errorMsg}`, isError: true }],
+                    isError: true,
+                };
+            }
+        }
+    );
+};
@@ -4,6 +4,7 @@
 
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { OAuthManager } from "../oauth.js";
+import type { ToolPolicy } from "../policy.js";
 
 /**
  * Context passed to tool registration functions
@@ -11,6 +12,8 @@ import type { OAuthManager } from "../oauth.js";
 export interface ToolContext {
     /** OAuth Manager instance for authentication operations */
     oauthManager: OAuthManager;
+    /** Tool policy loaded at startup, if a policy file was given */
+    policy?: ToolPolicy;
 }
 
 /**
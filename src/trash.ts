@@ -0,0 +1,340 @@
+/**
+ * Trash Module
+ *
+ * Keeps a local copy of every task and project deleted through this server,
+ * so a mistaken delete can be undone by recreating the items. Entries expire
+ * after the configured retention period.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { randomUUID } from 'crypto';
+import {
+    completeTask,
+    createProject,
+    createTask,
+    deleteProject,
+    deleteTask,
+    getProjectData,
+    buildCopyRequest,
+    getTask,
+    projectExists,
+    taskExists,
+} from './api/index.js';
+import type { Column, Project, Task } from './api/types.js';
+import { APP_CONFIG } from './config.js';
+
+/**
+ * Deleted task
+ */
+export interface TaskTrashEntry {
+    id: string;
+    kind: 'task';
+    deletedAt: string; // ISO 8601
+    /** Name of the project the task was in, if known */
+    projectName?: string;
+    task: Task;
+}
+
+/**
+ * Deleted project with its open tasks (completed tasks are not returned by the API)
+ */
+export interface ProjectTrashEntry {
+    id: string;
+    kind: 'project';
+    deletedAt: string; // ISO 8601
+    project: Project;
+    tasks: Task[];
+    columns: Column[];
+}
+
+export type TrashEntry = TaskTrashEntry | ProjectTrashEntry;
+
+/**
+ * Trash file structure
+ */
+interface TrashFile {
+    version: 1;
+    entries: TrashEntry[]; // Oldest first
+}
+
+/**
+ * Result of restoring a trash entry
+ */
+export interface TrashRestore {
+    entryId: string;
+    kind: TrashEntry['kind'];
+    /** Recreated project (project entries only) */
+    project?: Project;
+    /** Recreated tasks, with their new IDs */
+    tasks: Task[];
+    /** Tasks that could not be recreated; they are put back in the trash as task entries */
+    failedTasks: Array<{ title: string; error: string; trashId: string }>;
+}
+
+/**
+ * Trash storage path
+ */
+const TRASH_DIR = path.join(os.homedir(), '.dida365-mcp');
+const TRASH_FILE = path.join(TRASH_DIR, 'trash.json');
+
+/**
+ * Check if deleted items are kept in the trash
+ */
+export function isTrashEnabled(): boolean {
+    return APP_CONFIG.TRASH.RETENTION_DAYS > 0;
+}
+
+/**
+ * When an entry will be purged
+ */
+export function getTrashExpiry(entry: TrashEntry): string {
+    return new Date(Date.parse(entry.deletedAt) + APP_CONFIG.TRASH.RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Drop expired entries and the oldest entries beyond the size limit
+ */
+function applyRetention(file: TrashFile): TrashFile {
+    const now = new Date().toISOString();
+    let entries = file.entries.filter((entry) => getTrashExpiry(entry) > now);
+    if (entries.length > APP_CONFIG.TRASH.MAX_ENTRIES) {
+        entries = entries.slice(entries.length - APP_CONFIG.TRASH.MAX_ENTRIES);
+    }
+    return { ...file, entries };
+}
+
+/**
+ * Load the trash, or an empty one if it does not exist or is unreadable
+ */
+function loadTrash(): TrashFile {
+    if (!fs.existsSync(TRASH_FILE)) {
+        return { version: 1, entries: [] };
+    }
+
+    try {
+        const file = JSON.parse(fs.readFileSync(TRASH_FILE, 'utf-8')) as TrashFile;
+        return applyRetention(Array.isArray(file.entries) ? file : { version: 1, entries: [] });
+    } catch (error) {
+        console.error('Failed to load trash:', error);
+        return { version: 1, entries: [] };
+    }
+}
+
+function writeTrash(file: TrashFile): void {
+    if (!fs.existsSync(TRASH_DIR)) {
+        fs.mkdirSync(TRASH_DIR, { recursive: true, mode: 0o700 });
+    }
+    fs.writeFileSync(TRASH_FILE, JSON.stringify(applyRetention(file), null, 2), { mode: 0o600 });
+}
+
+function addEntry(entry: TrashEntry): void {
+    const file = loadTrash();
+    file.entries.push(entry);
+    writeTrash(file);
+}
+
+function removeEntry(id: string): void {
+    const file = loadTrash();
+    file.entries = file.entries.filter((entry) => entry.id !== id);
+    writeTrash(file);
+}
+
+/**
+ * Settle the trash entry of a delete that threw
+ *
+ * A retried DELETE fails with "not found" when an earlier attempt already went
+ * through, and then the entry is the only copy left. It is therefore removed
+ * only if the item is known to still exist.
+ *
+ * @returns {boolean} True if the item was deleted after all
+ */
+async function settleFailedDelete(entryId: string, stillExists: () => Promise<boolean>): Promise<boolean> {
+    try {
+        if (!(await stillExists())) {
+            return true;
+        }
+    } catch {
+        // Unclear whether the delete went through, so keep the entry
+        return false;
+    }
+    removeEntry(entryId);
+    return false;
+}
+
+/**
+ * Task removed by trashTask
+ */
+export interface TrashedTask {
+    /** Task as it was before the delete */
+    task: Task;
+    /** Trash entry ID, absent if the trash is disabled */
+    trashId?: string;
+}
+
+/**
+ * Project removed by trashProject
+ */
+export interface TrashedProject {
+    /** Project and its open tasks as they were before the delete */
+    project: Project;
+    tasks: Task[];
+    /** Trash entry ID, absent if the trash is disabled */
+    trashId?: string;
+}
+
+/**
+ * Delete a task, keeping a copy in the trash first
+ *
+ * If the task cannot be read, nothing is deleted.
+ */
+export async function trashTask(projectId: string, taskId: string): Promise<TrashedTask> {
+    const task = await getTask(projectId, taskId);
+    if (!isTrashEnabled()) {
+        await deleteTask(projectId, taskId);
+        return { task };
+    }
+
+    let projectName: string | undefined;
+    try {
+        projectName = (await getProjectData(projectId)).project?.name;
+    } catch {
+        // The name is only for display
+    }
+
+    const entry: TaskTrashEntry = {
+        id: randomUUID(),
+        kind: 'task',
+        deletedAt: new Date().toISOString(),
+        ...(projectName && { projectName }),
+        task,
+    };
+    addEntry(entry);
+
+    try {
+        await deleteTask(projectId, taskId);
+    } catch (error) {
+        if (!(await settleFailedDelete(entry.id, () => taskExists(projectId, taskId)))) {
+            throw error;
+        }
+    }
+    return { task, trashId: entry.id };
+}
+
+/**
+ * Delete a project, keeping a copy of it and its open tasks in the trash first
+ *
+ * If the project cannot be read, nothing is deleted.
+ */
+export async function trashProject(projectId: string): Promise<TrashedProject> {
+    const { project, tasks, columns } = await getProjectData(projectId, { forceRefresh: true });
+    if (!project) {
+        throw new Error(`Project ${projectId} not found`);
+    }
+    if (!isTrashEnabled()) {
+        await deleteProject(projectId);
+        return { project, tasks };
+    }
+
+    const entry: ProjectTrashEntry = {
+        id: randomUUID(),
+        kind: 'project',
+        deletedAt: new Date().toISOString(),
+        project,
+        tasks,
+        columns: columns ?? [],
+    };
+    addEntry(entry);
+
+    try {
+        await deleteProject(projectId);
+    } catch (error) {
+        if (!(await settleFailedDelete(entry.id, () => projectExists(projectId)))) {
+            throw error;
+        }
+    }
+    return { project, tasks, trashId: entry.id };
+}
+
+/**
+ * Get all trash entries, newest first
+ */
+export function listTrash(): TrashEntry[] {
+    return [...loadTrash().entries].reverse();
+}
+
+/**
+ * Find a trash entry by ID
+ */
+export function getTrashEntry(id: string): TrashEntry | undefined {
+    return loadTrash().entries.find((entry) => entry.id === id.trim());
+}
+
+/**
+ * Recreate a deleted task in a project (new task ID, checklist items and completion kept)
+ */
+export async function recreateTask(task: Task, projectId: string): Promise<Task> {
+    const created = await createTask(buildCopyRequest(task, projectId));
+    if (task.status === 2) {
+        await completeTask(created.projectId, created.id);
+        return { ...created, status: 2 };
+    }
+    return created;
+}
+
+/**
+ * Restore a trash entry by recreating its items
+ *
+ * Restored items get new IDs. Kanban columns are not recreated, so restored
+ * tasks land in the project's default column. The entry is removed once the
+ * task or project has been recreated.
+ *
+ * @param id - Trash entry ID
+ * @param options - Target project for a task entry (defaults to its original project)
+ * @throws {Error} If the entry does not exist or the task/project cannot be created
+ */
+export async function restoreFromTrash(id: string, options: { projectId?: string } = {}): Promise<TrashRestore> {
+    const entry = getTrashEntry(id);
+    if (!entry) {
+        throw new Error(`Trash entry ${id} not found (it may have expired)`);
+    }
+
+    if (entry.kind === 'task') {
+        const task = await recreateTask(entry.task, options.projectId ?? entry.task.projectId);
+        removeEntry(entry.id);
+        return { entryId: entry.id, kind: 'task', tasks: [task], failedTasks: [] };
+    }
+
+    const project = await createProject({
+        name: entry.project.name,
+        ...(entry.project.color && { color: entry.project.color }),
+        sortOrder: entry.project.sortOrder,
+        viewMode: entry.project.viewMode,
+        kind: entry.project.kind,
+    });
+    removeEntry(entry.id);
+
+    const result: TrashRestore = { entryId: entry.id, kind: 'project', project, tasks: [], failedTasks: [] };
+    for (const task of entry.tasks) {
+        try {
+            result.tasks.push(await recreateTask(task, project.id));
+        } catch (error) {
+            // Keep the task restorable into the new project
+            const trashId = randomUUID();
+            addEntry({
+                id: trashId,
+                kind: 'task',
+                deletedAt: entry.deletedAt,
+                projectName: project.name,
+                task: { ...task, projectId: project.id },
+            });
+            result.failedTasks.push({
+                title: task.title,
+                error: error instanceof Error ? error.message : String(error),
+                trashId,
+            });
+        }
+    }
+    return result;
+}
@@ -0,0 +1,243 @@
+/**
+ * Agenda Utilities
+ *
+ * Group tasks into calendar days in a time zone: all-day and timed tasks
+ * per day, multi-day tasks on every day they span, and overdue tasks
+ * collected ahead of the days.
+ */
+
+import type { Task } from '../api/types.js';
+import { APP_CONFIG } from '../config.js';
+import { getCalendarDate, getTaskCalendarDate, type CalendarDate } from './date-range.js';
+import { getZonedDateTime } from './timezone.js';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Task as it appears on one agenda day
+ */
+export interface AgendaItem {
+    id: string;
+    projectId: string;
+    projectName?: string;
+    title: string;
+    priority: number;
+    isAllDay: boolean;
+    startDate?: string;
+    dueDate?: string;
+    /** Start time on this day (HH:mm in the agenda time zone), if the task starts on this day */
+    startTime?: string;
+    /** End time on this day (HH:mm in the agenda time zone), if the task ends on this day */
+    endTime?: string;
+    /** Day of a multi-day task (1-based) */
+    spanDay?: number;
+    /** Number of days a multi-day task spans */
+    spanDays?: number;
+    /** Due before now */
+    overdue?: true;
+    /** Later occurrence of a recurring task (see projectRecurringTasks) */
+    isProjection?: true;
+}
+
+/**
+ * One calendar day of the agenda
+ */
+export interface AgendaDay {
+    /** yyyy-MM-dd */
+    date: string;
+    weekday: string;
+    allDay: AgendaItem[];
+    timed: AgendaItem[];
+}
+
+/**
+ * Tasks grouped by day
+ */
+export interface Agenda {
+    timeZone: string;
+    /** First day (yyyy-MM-dd) */
+    from: string;
+    /** Last day (yyyy-MM-dd) */
+    to: string;
+    /** Tasks whose last day is before today, most overdue first */
+    overdue: AgendaItem[];
+    days: AgendaDay[];
+}
+
+/**
+ * Agenda options
+ */
+export interface AgendaOptions {
+    /** Any instant on the first day */
+    from: Date;
+    /** Number of days */
+    days: number;
+    /** Time zone the days are in (default: configured time zone) */
+    timeZone?: string;
+    /** Collect tasks whose last day is before today into overdue (default true) */
+    includeOverdue?: boolean;
+    /** Keep days without tasks (default true) */
+    includeEmptyDays?: boolean;
+    /** Project names keyed by project ID */
+    projectNames?: Map<string, string>;
+    /** Reference time (default: now) */
+    now?: Date;
+}
+
+/**
+ * Calendar day as days since 1970-01-01 (comparable, easy to step)
+ */
+type DayNumber = number;
+
+function toDayNumber(date: CalendarDate): DayNumber {
+    return Math.round(Date.UTC(date.year, date.month - 1, date.day) / DAY_MS);
+}
+
+function formatDayNumber(day: DayNumber): string {
+    return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function formatClock(date: Date, timeZone: string): string {
+    const zoned = getZonedDateTime(date, timeZone);
+    return `${String(zoned.hour).padStart(2, '0')}:${String(zoned.minute).padStart(2, '0')}`;
+}
+
+function parseTaskDate(value: string | undefined): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Where a task sits on the calendar
+ */
+interface TaskSpan {
+    start?: Date;
+    due?: Date;
+    firstDay: DayNumber;
+    lastDay: DayNumber;
+}
+
+/**
+ * Get the days a task covers
+ *
+ * All-day dates keep their own calendar day whatever the agenda time zone;
+ * timed tasks are placed by their local time in the agenda time zone.
+ */
+function getTaskSpan(task: Task, timeZone: string): TaskSpan | undefined {
+    const start = parseTaskDate(task.startDate);
+    const due = parseTaskDate(task.dueDate);
+    if (!start && !due) return undefined;
+
+    const firstDay = toDayNumber(getTaskCalendarDate((start ?? due)!, task, timeZone)!);
+    const lastDay = due ? toDayNumber(getTaskCalendarDate(due, task, timeZone)!) : firstDay;
+    return { start, due, firstDay, lastDay: Math.max(firstDay, lastDay) };
+}
+
+function isOverdue(task: Task, span: TaskSpan, today: DayNumber, now: Date): boolean {
+    if (task.isAllDay) return span.lastDay < today;
+    const end = span.due ?? span.start!;
+    return end < now;
+}
+
+function compareItems(a: AgendaItem, b: AgendaItem): number {
+    // Tasks continuing from an earlier day first, then by time, then by priority
+    const timeA = a.startTime ?? (a.spanDay && a.spanDay > 1 ? '' : a.endTime ?? '');
+    const timeB = b.startTime ?? (b.spanDay && b.spanDay > 1 ? '' : b.endTime ?? '');
+    return timeA.localeCompare(timeB) || b.priority - a.priority || a.title.localeCompare(b.title);
+}
+
+/**
+ * Group tasks into the days of a range
+ *
+ * Tasks without dates are left out. Each multi-day task appears on every
+ * day it spans within the range, with spanDay/spanDays.
+ *
+ * @param tasks - Tasks (projections of recurring tasks are kept as separate items)
+ * @param options - Range and time zone
+ */
+export function buildAgenda(tasks: Task[], options: AgendaOptions): Agenda {
+    const timeZone = options.timeZone || APP_CONFIG.DATE.TIME_ZONE;
+    const now = options.now ?? new Date();
+    const includeOverdue = options.includeOverdue ?? true;
+    const includeEmptyDays = options.includeEmptyDays ?? true;
+
+    const firstDay = toDayNumber(getCalendarDate(options.from, timeZone));
+    const lastDay = firstDay + options.days - 1;
+    const today = toDayNumber(getCalendarDate(now, timeZone));
+
+    const days: AgendaDay[] = [];
+    for (let day = firstDay; day <= lastDay; day++) {
+        days.push({
+            date: formatDayNumber(day),
+            weekday: WEEKDAY_NAMES[new Date(day * DAY_MS).getUTCDay()],
+            allDay: [],
+            timed: [],
+        });
+    }
+
+    const overdue: Array<{ item: AgendaItem; end: number }> = [];
+
+    for (const task of tasks) {
+        const span = getTaskSpan(task, timeZone);
+        if (!span) continue;
+
+        const base: AgendaItem = {
+            id: task.id,
+            projectId: task.projectId,
+            ...(options.projectNames?.has(task.projectId) && { projectName: options.projectNames.get(task.projectId) }),
+            title: task.title,
+            priority: task.priority ?? 0,
+            isAllDay: task.isAllDay === true,
+            ...(task.startDate && { startDate: task.startDate }),
+            ...(task.dueDate && { dueDate: task.dueDate }),
+            ...(isOverdue(task, span, today, now) && { overdue: true as const }),
+            ...('isProjection' in task && { isProjection: true as const }),
+        };
+
+        // Overdue tasks are listed once, ahead of the days; a projection is not a real
+        // task, so a past one stays on its day instead
+        if (includeOverdue && base.overdue && !base.isProjection && span.lastDay < today) {
+            overdue.push({ item: base, end: (span.due ?? span.start!).getTime() });
+            continue;
+        }
+
+        const spanDays = span.lastDay - span.firstDay + 1;
+        const from = Math.max(span.firstDay, firstDay);
+        const to = Math.min(span.lastDay, lastDay);
+        for (let day = from; day <= to; day++) {
+            const item: AgendaItem = {
+                ...base,
+                ...(spanDays > 1 && { spanDay: day - span.firstDay + 1, spanDays }),
+            };
+
+            if (task.isAllDay) {
+                days[day - firstDay].allDay.push(item);
+                continue;
+            }
+
+            // Timed tasks without a start are points in time at their due time
+            if (span.start && day === span.firstDay) item.startTime = formatClock(span.start, timeZone);
+            if (span.due && day === span.lastDay) {
+                if (span.start) item.endTime = formatClock(span.due, timeZone);
+                else item.startTime = formatClock(span.due, timeZone);
+            }
+            days[day - firstDay].timed.push(item);
+        }
+    }
+
+    for (const day of days) {
+        day.allDay.sort(compareItems);
+        day.timed.sort(compareItems);
+    }
+
+    return {
+        timeZone,
+        from: formatDayNumber(firstDay),
+        to: formatDayNumber(lastDay),
+        overdue: overdue.sort((a, b) => a.end - b.end).map(({ item }) => item),
+        days: includeEmptyDays ? days : days.filter((day) => day.allDay.length > 0 || day.timed.length > 0),
+    };
+}
+
@@ -2,10 +2,13 @@
  * Batch Execution Utilities
  *
  * Provides concurrent batch execution with rate limiting and result formatting.
+ * Request rate is limited process-wide by the HttpClient; this module only bounds concurrency.
  */
 
+import type { DryRunItem } from './dry-run.js';
+
 /**
- * Maximum number of concurrent API requests
+ * Maximum number of concurrent API requests per batch
  * This limit helps prevent rate limiting from the Dida365 API
  */
 export const MAX_CONCURRENT = 5;
@@ -60,6 +63,20 @@ export interface BatchResponse<T, R> {
     failedItems?: T[];
 }
 
+/**
+ * Formatted dry-run response
+ */
+export interface DryRunResponse<T> {
+    dryRun: true;
+    /** Summary statistics (failed = invalid items) */
+    summary: BatchSummary;
+    /** What each item would change, or why it is invalid */
+    results: Array<
+        | ({ index: number; success: true } & DryRunItem)
+        | { index: number; success: false; error?: string; errorType: ReturnType<typeof classifyError>['errorType']; input: T }
+    >;
+}
+
 /**
  * Classify error type and determine if retryable
  */
@@ -82,7 +99,11 @@ function classifyError(error: string): { errorType: 'not_found' | 'auth_failed'
 }
 
 /**
- * Execute operations in batches with concurrency control
+ * Execute operations with concurrency control
+ *
+ * Uses a sliding worker pool: up to `maxConcurrent` workers each pick the next
+ * pending item as soon as their current one finishes, so a slow item never
+ * blocks the rest. Results are returned in input order.
  *
  * @param items - Array of items to process
  * @param executor - Async function to execute for each item
@@ -103,35 +124,34 @@ export async function batchExecute<T, R>(
     executor: (item: T) => Promise<R>,
     maxConcurrent: number = MAX_CONCURRENT
 ): Promise<BatchResult<T, R>[]> {
-    const results: BatchResult<T, R>[] = [];
-
-    // Process items in chunks to respect rate limits
-    for (let i = 0; i < items.length; i += maxConcurrent) {
-        const batch = items.slice(i, i + maxConcurrent);
+    const results: BatchResult<T, R>[] = new Array(items.length);
+    let nextIndex = 0;
 
-        const batchPromises = batch.map(async (item, batchIndex) => {
-            const index = i + batchIndex;
+    const worker = async (): Promise<void> => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            const item = items[index];
             try {
                 const result = await executor(item);
-                return {
+                results[index] = {
                     index,
-                    success: true as const,
+                    success: true,
                     result,
                     input: item,
                 };
             } catch (error) {
-                return {
+                results[index] = {
                     index,
-                    success: false as const,
+                    success: false,
                     error: error instanceof Error ? error.message : String(error),
                     input: item,
                 };
             }
-        });
+        }
+    };
 
-        const batchResults = await Promise.all(batchPromises);
-        results.push(...batchResults);
-    }
+    const workerCount = Math.min(Math.max(1, maxConcurrent), items.length);
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
 
     return results;
 }
@@ -222,3 +242,29 @@ export function formatBatchResultsSimple<
         }),
     };
 }
+
+/**
+ * Format batch results for dry runs (what each write would change)
+ *
+ * @param results - Batch results of building each preview
+ * @returns Formatted response with summary and one preview per valid item
+ */
+export function formatDryRunResults<T>(results: BatchResult<T, DryRunItem>[]): DryRunResponse<T> {
+    const succeeded = results.filter((r) => r.success).length;
+
+    return {
+        dryRun: true,
+        summary: {
+            total: results.length,
+            succeeded,
+            failed: results.length - succeeded,
+        },
+        results: results.map((r) => {
+            if (r.success) {
+                return { index: r.index, success: true as const, ...r.result! };
+            }
+            const { errorType } = classifyError(r.error || '');
+            return { index: r.index, success: false as const, error: r.error, errorType, input: r.input };
+        }),
+    };
+}
@@ -0,0 +1,761 @@
+/**
+ * Natural-Language Date Parser
+ *
+ * Parses absolute and relative date expressions in English and Chinese
+ * ("tomorrow 3pm", "next Friday", "in 2 weeks", "明天下午三点", "下周一", "月底")
+ * into instants, resolved in the user's time zone.
+ */
+
+import { APP_CONFIG } from '../config.js';
+import { formatApiDate, getZonedDateTime, isValidTimeZone, zonedTimeToDate } from './timezone.js';
+
+/**
+ * Options for parsing date expressions
+ */
+export interface DateParseOptions {
+    /** IANA time zone to resolve the expression in (default: configured user time zone) */
+    timeZone?: string;
+    /** Reference time for relative expressions (default: now) */
+    now?: Date;
+    /** First day of the week for "this/next week" expressions: 0 = Sunday, 1 = Monday (default: configured week start) */
+    weekStartsOn?: number;
+}
+
+/**
+ * Result of parsing a date expression
+ */
+export interface ParsedDate {
+    /** Original expression */
+    input: string;
+    /** Resolved instant */
+    date: Date;
+    /** Resolved time in the API format yyyy-MM-dd'T'HH:mm:ssZ */
+    formatted: string;
+    /** False when the expression named a day but no time of day (e.g. "tomorrow", "月底") */
+    hasTime: boolean;
+    /** Time zone the expression was resolved in */
+    timeZone: string;
+}
+
+/**
+ * Error thrown when a date expression cannot be understood
+ */
+export class DateParseError extends Error {
+    public input: string;
+
+    constructor(input: string, message: string) {
+        super(message);
+        this.name = 'DateParseError';
+        this.input = input;
+    }
+}
+
+/**
+ * Calendar date (wall clock, no time zone)
+ */
+interface CalendarDate {
+    year: number;
+    month: number;
+    day: number;
+}
+
+/**
+ * Time of day
+ */
+interface TimeOfDay {
+    hour: number;
+    minute: number;
+    /** Hour already in 24-hour form (am/pm given or 24-hour notation) */
+    explicit: boolean;
+}
+
+/**
+ * Part of the day named without an exact time ("morning", "下午")
+ */
+type DayPeriod = 'early' | 'morning' | 'noon' | 'afternoon' | 'evening' | 'night';
+
+/**
+ * Default hour used when only a day period is given
+ */
+const PERIOD_DEFAULT_HOURS: Record<DayPeriod, number> = {
+    early: 6,
+    morning: 9,
+    noon: 12,
+    afternoon: 15,
+    evening: 19,
+    night: 21,
+};
+
+/**
+ * Mutable state built up while consuming the expression
+ */
+interface ParseState {
+    today: CalendarDate;
+    nowTime: { hour: number; minute: number };
+    weekday: number;
+    weekStartsOn: number;
+    date?: CalendarDate;
+    time?: TimeOfDay;
+    period?: DayPeriod;
+}
+
+/**
+ * Grammar rule: a pattern matched at the start of the remaining input
+ */
+interface Rule {
+    pattern: RegExp;
+    apply: (match: RegExpMatchArray, state: ParseState) => void;
+}
+
+const EN_WEEKDAYS: Record<string, number> = {
+    sun: 0, sunday: 0,
+    mon: 1, monday: 1,
+    tue: 2, tues: 2, tuesday: 2,
+    wed: 3, wednesday: 3,
+    thu: 4, thur: 4, thurs: 4, thursday: 4,
+    fri: 5, friday: 5,
+    sat: 6, saturday: 6,
+};
+
+const EN_MONTHS: Record<string, number> = {
+    jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+    jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const EN_NUMBERS: Record<string, number> = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5,
+    six: 6, seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12,
+};
+
+const CN_DIGITS: Record<string, number> = {
+    零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
+};
+
+const EN_WEEKDAY_PATTERN = Object.keys(EN_WEEKDAYS).sort((a, b) => b.length - a.length).join('|');
+const EN_MONTH_PATTERN = '(jan|feb|mar|apr|may|jun|jul|aug|sept|sep|oct|nov|dec)[a-z]*\\.?';
+const EN_UNIT_PATTERN = '(minute|min|hour|hr|day|week|month|year)s?';
+
+/**
+ * Time in the API format or ISO 8601 with an explicit offset
+ */
+const ISO_WITH_OFFSET_REGEX = /^(\d{4}-\d{2}-\d{2})t(\d{2}:\d{2})(?::(\d{2}))?(?:\.\d+)?(z|[+-]\d{2}:?\d{2})$/;
+
+/**
+ * Convert Chinese numerals to digits ("十二" → "12", "二〇二五" → "2025")
+ */
+function convertChineseNumerals(text: string): string {
+    return text.replace(/[零〇一二两三四五六七八九十]+/g, (numeral) => {
+        const parts = numeral.split('十');
+        if (parts.length === 1) {
+            return numeral.split('').map((ch) => CN_DIGITS[ch]).join('');
+        }
+        if (parts.length > 2 || parts[0].length > 1 || parts[1].length > 1) {
+            return numeral;
+        }
+        const tens = parts[0] ? CN_DIGITS[parts[0]] : 1;
+        const ones = parts[1] ? CN_DIGITS[parts[1]] : 0;
+        return String(tens * 10 + ones);
+    });
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+    const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+    return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function addMonths(date: CalendarDate, months: number): CalendarDate {
+    const index = date.year * 12 + (date.month - 1) + months;
+    const year = Math.floor(index / 12);
+    const month = (index % 12) + 1;
+    return { year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+}
+
+function compareDates(a: CalendarDate, b: CalendarDate): number {
+    return (a.year - b.year) || (a.month - b.month) || (a.day - b.day);
+}
+
+/**
+ * First day of the week containing today, shifted by a number of weeks
+ */
+function startOfWeek(state: ParseState, weekOffset: number): CalendarDate {
+    const daysSinceStart = (state.weekday - state.weekStartsOn + 7) % 7;
+    return addDays(state.today, weekOffset * 7 - daysSinceStart);
+}
+
+/**
+ * A weekday in the week containing today, shifted by a number of weeks
+ */
+function weekdayInWeek(state: ParseState, weekday: number, weekOffset: number): CalendarDate {
+    return addDays(startOfWeek(state, weekOffset), (weekday - state.weekStartsOn + 7) % 7);
+}
+
+/**
+ * The next occurrence of a weekday (today counts unless excluded)
+ */
+function upcomingWeekday(state: ParseState, weekday: number, excludeToday = false): CalendarDate {
+    let diff = (weekday - state.weekday + 7) % 7;
+    if (diff === 0 && excludeToday) {
+        diff = 7;
+    }
+    return addDays(state.today, diff);
+}
+
+function setDate(state: ParseState, date: CalendarDate): void {
+    if (state.date && compareDates(state.date, date) !== 0) {
+        throw new Error('conflicting dates');
+    }
+    if (date.month < 1 || date.month > 12 || date.day < 1 || date.day > daysInMonth(date.year, date.month)) {
+        throw new Error(`invalid date ${date.year}-${date.month}-${date.day}`);
+    }
+    state.date = date;
+}
+
+function setTime(state: ParseState, hour: number, minute: number, explicit: boolean): void {
+    if (state.time) {
+        throw new Error('conflicting times');
+    }
+    if (hour < 0 || hour > 23 || minute < 0 || minute > 59) {
+        throw new Error(`invalid time ${hour}:${String(minute).padStart(2, '0')}`);
+    }
+    state.time = { hour, minute, explicit };
+}
+
+function setPeriod(state: ParseState, period: DayPeriod): void {
+    state.period = period;
+}
+
+/**
+ * Date with an omitted year: this year, or next year if it has already passed
+ */
+function upcomingDate(state: ParseState, month: number, day: number, year?: number): CalendarDate {
+    if (year !== undefined) {
+        return { year: year < 100 ? 2000 + year : year, month, day };
+    }
+    const candidate = { year: state.today.year, month, day };
+    return compareDates(candidate, state.today) < 0 ? { ...candidate, year: candidate.year + 1 } : candidate;
+}
+
+/**
+ * Day of month with omitted month: this month, or next month if it has already passed
+ */
+function upcomingDay(state: ParseState, day: number): CalendarDate {
+    const candidate = { ...state.today, day };
+    return day < state.today.day ? { ...addMonths({ ...state.today, day: 1 }, 1), day } : candidate;
+}
+
+/**
+ * Shift the current wall-clock time by an amount of a unit
+ */
+function applyOffset(state: ParseState, amount: number, unit: string): void {
+    switch (unit) {
+        case 'minute':
+        case 'hour': {
+            const minutes = Math.round(amount * (unit === 'hour' ? 60 : 1));
+            const total = state.nowTime.hour * 60 + state.nowTime.minute + minutes;
+            const dayShift = Math.floor(total / 1440);
+            const minuteOfDay = total - dayShift * 1440;
+            setDate(state, addDays(state.today, dayShift));
+            setTime(state, Math.floor(minuteOfDay / 60), minuteOfDay % 60, true);
+            return;
+        }
+        case 'day':
+            setDate(state, addDays(state.today, Math.round(amount)));
+            return;
+        case 'week':
+            setDate(state, addDays(state.today, Math.round(amount * 7)));
+            return;
+        case 'month':
+            setDate(state, addMonths(state.today, Math.round(amount)));
+            return;
+        case 'year':
+            setDate(state, addMonths(state.today, Math.round(amount * 12)));
+            return;
+    }
+}
+
+/**
+ * Normalize unit words to minute/hour/day/week/month/year
+ */
+function normalizeUnit(unit: string): string {
+    switch (unit) {
+        case 'min': case '分钟': case '分':
+            return 'minute';
+        case 'hr': case '小时': case '钟头':
+            return 'hour';
+        case '天': case '日':
+            return 'day';
+        case '周': case '星期': case '礼拜':
+            return 'week';
+        case '月':
+            return 'month';
+        case '年':
+            return 'year';
+        default:
+            return unit;
+    }
+}
+
+/**
+ * Week/month/year offset of a relative prefix ("next", "下个", "上", "本" ...)
+ */
+function relativeOffset(prefix: string | undefined): number {
+    if (prefix === '下下') return 2;
+    if (prefix === 'next' || prefix?.startsWith('下')) return 1;
+    if (prefix === 'last' || prefix?.startsWith('上')) return -1;
+    return 0;
+}
+
+/**
+ * Start of a week/month/year relative to today
+ */
+function startOfUnit(state: ParseState, unit: string, offset: number): CalendarDate {
+    switch (unit) {
+        case 'week':
+            return startOfWeek(state, offset);
+        case 'month':
+            return addMonths({ ...state.today, day: 1 }, offset);
+        default:
+            return { year: state.today.year + offset, month: 1, day: 1 };
+    }
+}
+
+/**
+ * Last day of a week/month/year relative to today
+ */
+function endOfUnit(state: ParseState, unit: string, offset: number): CalendarDate {
+    return addDays(startOfUnit(state, unit, offset + 1), -1);
+}
+
+const CN_PERIODS: Record<string, DayPeriod> = {
+    凌晨: 'early', 清晨: 'early',
+    早上: 'morning', 早晨: 'morning', 上午: 'morning', 早: 'morning',
+    中午: 'noon',
+    下午: 'afternoon',
+    傍晚: 'evening', 晚上: 'evening', 晚: 'evening',
+    夜里: 'night', 夜间: 'night', 深夜: 'night',
+};
+
+const EN_PERIODS: Record<string, DayPeriod> = {
+    morning: 'morning',
+    noon: 'noon',
+    afternoon: 'afternoon',
+    evening: 'evening',
+    night: 'night',
+};
+
+/**
+ * Grammar rules, tried in order at each position
+ */
+const RULES: Rule[] = [
+    // ----- Absolute dates -----
+    {
+        pattern: /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/,
+        apply: (m, s) => setDate(s, { year: +m[1], month: +m[2], day: +m[3] }),
+    },
+    {
+        pattern: /^(\d{4})年(\d{1,2})月(\d{1,2})[日号]?/,
+        apply: (m, s) => setDate(s, { year: +m[1], month: +m[2], day: +m[3] }),
+    },
+    {
+        pattern: /^(\d{1,2})月(\d{1,2})[日号]?/,
+        apply: (m, s) => setDate(s, upcomingDate(s, +m[1], +m[2])),
+    },
+    {
+        pattern: /^(\d{1,2})月(?:份)?(?![底末初])/,
+        apply: (m, s) => setDate(s, upcomingDate(s, +m[1], 1)),
+    },
+    {
+        pattern: /^(\d{1,2})[日号]/,
+        apply: (m, s) => setDate(s, upcomingDay(s, +m[1])),
+    },
+    {
+        pattern: /^(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?(?!\d)/,
+        apply: (m, s) => setDate(s, upcomingDate(s, +m[1], +m[2], m[3] ? +m[3] : undefined)),
+    },
+    {
+        pattern: new RegExp(`^${EN_MONTH_PATTERN}\\s*(\\d{1,2})(?:st|nd|rd|th)?(?!\\d)(?:,?\\s*(\\d{4}))?`),
+        apply: (m, s) => setDate(s, upcomingDate(s, EN_MONTHS[m[1]], +m[2], m[3] ? +m[3] : undefined)),
+    },
+    {
+        pattern: new RegExp(`^(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${EN_MONTH_PATTERN}(?:,?\\s*(\\d{4}))?`),
+        apply: (m, s) => setDate(s, upcomingDate(s, EN_MONTHS[m[2]], +m[1], m[3] ? +m[3] : undefined)),
+    },
+    {
+        pattern: /^(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)(?![a-z])/,
+        apply: (m, s) => setDate(s, upcomingDay(s, +m[1])),
+    },
+
+    // ----- Relative days -----
+    {
+        pattern: /^(?:the\s+)?day\s+after\s+tomorrow/,
+        apply: (_m, s) => setDate(s, addDays(s.today, 2)),
+    },
+    {
+        pattern: /^(?:the\s+)?day\s+before\s+yesterday/,
+        apply: (_m, s) => setDate(s, addDays(s.today, -2)),
+    },
+    {
+        pattern: /^(today|tonight|tomorrow|tmrw|tmr|yesterday|now)(?![a-z])/,
+        apply: (m, s) => {
+            const offsets: Record<string, number> = { today: 0, tonight: 0, tomorrow: 1, tmrw: 1, tmr: 1, yesterday: -1, now: 0 };
+            setDate(s, addDays(s.today, offsets[m[1]]));
+            if (m[1] === 'tonight') setPeriod(s, 'evening');
+            if (m[1] === 'now') setTime(s, s.nowTime.hour, s.nowTime.minute, true);
+        },
+    },
+    {
+        pattern: /^(大后天|后天|明天|明日|明早|明晚|今天|今日|今早|今晚|昨天|昨日|前天|现在)/,
+        apply: (m, s) => {
+            const offsets: Record<string, number> = {
+                大后天: 3, 后天: 2, 明天: 1, 明日: 1, 明早: 1, 明晚: 1,
+                今天: 0, 今日: 0, 今早: 0, 今晚: 0, 现在: 0, 昨天: -1, 昨日: -1, 前天: -2,
+            };
+            setDate(s, addDays(s.today, offsets[m[1]]));
+            if (m[1].endsWith('早')) setPeriod(s, 'morning');
+            if (m[1].endsWith('晚')) setPeriod(s, 'evening');
+            if (m[1] === '现在') setTime(s, s.nowTime.hour, s.nowTime.minute, true);
+        },
+    },
+
+    // ----- Offsets: "in 2 weeks", "3 days later", "两小时后" -----
+    {
+        pattern: new RegExp(`^in\\s+(\\d+(?:\\.\\d+)?|a|an|one|two|three|four|five|six|seven|eight|nine|ten|twelve|half\\s+an?)\\s+${EN_UNIT_PATTERN}(?![a-z])`),
+        apply: (m, s) => {
+            const amount = m[1].startsWith('half') ? 0.5 : (EN_NUMBERS[m[1]] ?? +m[1]);
+            applyOffset(s, amount, normalizeUnit(m[2]));
+        },
+    },
+    {
+        pattern: new RegExp(`^(\\d+(?:\\.\\d+)?|a|an|one|two|three|four|five|six|seven|eight|nine|ten|twelve)\\s+${EN_UNIT_PATTERN}\\s+(later|from\\s+now|ago)`),
+        apply: (m, s) => {
+            const amount = EN_NUMBERS[m[1]] ?? +m[1];
+            applyOffset(s, m[3] === 'ago' ? -amount : amount, normalizeUnit(m[2]));
+        },
+    },
+    {
+        pattern: /^(\d+|半)?(个)?(半)?(分钟|小时|钟头|天|周|星期|礼拜|月|年)(半)?(后|之后|以后|前|之前|以前)/,
+        apply: (m, s) => {
+            if (!m[1] && !m[3]) throw new Error('missing amount');
+            const unit = normalizeUnit(m[4]);
+            // A month offset needs "个" ("3个月后"); "3月后" is not a month offset
+            if (unit === 'month' && m[1] !== '半' && !m[2]) throw new Error('ambiguous month offset');
+            let amount = m[1] === '半' ? 0.5 : (m[1] ? +m[1] : 0);
+            if (m[3] || m[5]) amount += 0.5;
+            if (m[6].endsWith('前')) amount = -amount;
+            // Half days and half weeks are not calendar units; count them in hours
+            if (amount % 1 !== 0 && (unit === 'day' || unit === 'week')) {
+                applyOffset(s, amount * (unit === 'week' ? 7 * 24 : 24), 'hour');
+                return;
+            }
+            applyOffset(s, amount, unit);
+        },
+    },
+
+    // ----- Start/end of week, month, year -----
+    {
+        pattern: /^(?:the\s+)?(end|beginning|start)\s+of\s+(?:the\s+)?(?:(this|next|last)\s+)?(week|month|year)/,
+        apply: (m, s) => {
+            const offset = relativeOffset(m[2]);
+            setDate(s, m[1] === 'end' ? endOfUnit(s, m[3], offset) : startOfUnit(s, m[3], offset));
+        },
+    },
+    {
+        pattern: /^(?:(this|next|last)\s+)?weekend/,
+        apply: (m, s) => setDate(s, weekdayInWeek(s, 6, relativeOffset(m[1]))),
+    },
+    {
+        pattern: /^(下下|下个|下|上个|上|本|这个|这)?(周|星期|礼拜|月|年)(底|末|初)/,
+        apply: (m, s) => {
+            const offset = relativeOffset(m[1]);
+            const unit = normalizeUnit(m[2]);
+            if (unit === 'week') {
+                // 周末 is the weekend, 周初 the start of the week
+                setDate(s, m[3] === '初' ? startOfWeek(s, offset) : weekdayInWeek(s, 6, offset));
+                return;
+            }
+            setDate(s, m[3] === '初' ? startOfUnit(s, unit, offset) : endOfUnit(s, unit, offset));
+        },
+    },
+    {
+        pattern: /^(?:年|今年)(底|末|初)/,
+        apply: (m, s) => setDate(s, m[1] === '初' ? startOfUnit(s, 'year', 0) : endOfUnit(s, 'year', 0)),
+    },
+
+    // ----- Weekdays -----
+    {
+        pattern: new RegExp(`^(?:(this|next|last|coming)\\s+)?(${EN_WEEKDAY_PATTERN})(?![a-z])\\.?`),
+        apply: (m, s) => {
+            const weekday = EN_WEEKDAYS[m[2]];
+            if (!m[1] || m[1] === 'coming') {
+                setDate(s, upcomingWeekday(s, weekday, m[1] === 'coming'));
+            } else {
+                setDate(s, weekdayInWeek(s, weekday, relativeOffset(m[1])));
+            }
+        },
+    },
+    {
+        pattern: /^(下下|下个|下|上个|上|本|这个|这)?(?:周|星期|礼拜)([1-7日天])/,
+        apply: (m, s) => {
+            const weekday = /[7日天]/.test(m[2]) ? 0 : +m[2];
+            if (!m[1]) {
+                setDate(s, upcomingWeekday(s, weekday));
+            } else {
+                setDate(s, weekdayInWeek(s, weekday, relativeOffset(m[1])));
+            }
+        },
+    },
+
+    // ----- Next/this/last week, month, year -----
+    {
+        pattern: /^(this|next|last)\s+(week|month|year)/,
+        apply: (m, s) => setDate(s, startOfUnit(s, m[2], relativeOffset(m[1]))),
+    },
+    {
+        pattern: /^(下下|下个|下|上个|上|本|这个|这)(周|星期|礼拜|月)/,
+        apply: (m, s) => setDate(s, startOfUnit(s, normalizeUnit(m[2]), relativeOffset(m[1]))),
+    },
+    {
+        pattern: /^(明年|今年|去年)/,
+        apply: (m, s) => setDate(s, startOfUnit(s, 'year', { 明年: 1, 今年: 0, 去年: -1 }[m[1]] ?? 0)),
+    },
+
+    // ----- Times of day -----
+    {
+        pattern: /^(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)(?![a-z])/,
+        apply: (m, s) => {
+            let hour = +m[1];
+            if (hour < 1 || hour > 12) throw new Error(`invalid time ${m[0]}`);
+            if (m[3].startsWith('p') && hour < 12) hour += 12;
+            if (m[3].startsWith('a') && hour === 12) hour = 0;
+            setTime(s, hour, m[2] ? +m[2] : 0, true);
+        },
+    },
+    {
+        pattern: /^(?:at\s+)?(\d{1,2}):(\d{2})(?::\d{2})?/,
+        apply: (m, s) => setTime(s, +m[1], +m[2], +m[1] > 12 || m[1].length === 2 && m[1].startsWith('0')),
+    },
+    {
+        pattern: /^at\s+(\d{1,2})(?!\d)/,
+        apply: (m, s) => setTime(s, +m[1], 0, +m[1] > 12),
+    },
+    {
+        pattern: /^(\d{1,2})[点時时](?:钟)?(?:(1|3)刻|(半)|(\d{1,2})分?)?/,
+        apply: (m, s) => {
+            const minute = m[2] ? +m[2] * 15 : m[3] ? 30 : m[4] ? +m[4] : 0;
+            setTime(s, +m[1], minute, +m[1] > 12);
+        },
+    },
+    {
+        pattern: /^(midnight|end\s+of\s+(?:the\s+)?day|eod)(?![a-z])/,
+        apply: (_m, s) => setTime(s, 23, 59, true),
+    },
+    {
+        pattern: /^(?:this\s+)?(morning|noon|afternoon|evening|night)(?![a-z])/,
+        apply: (m, s) => {
+            if (m[0].startsWith('this')) setDate(s, s.today);
+            setPeriod(s, EN_PERIODS[m[1]]);
+        },
+    },
+    {
+        pattern: /^(凌晨|清晨|早上|早晨|上午|中午|下午|傍晚|晚上|夜里|夜间|深夜)/,
+        apply: (m, s) => setPeriod(s, CN_PERIODS[m[1]]),
+    },
+];
+
+/**
+ * Filler words skipped between parts ("at", "on", "的" ...)
+ */
+const SKIP_REGEX = /^(?:\s+|[,，、]|in\s+the(?![a-z])|at(?![a-z])|on(?![a-z])|by(?![a-z])|the(?![a-z])|t(?=\d)|的|在|于|到)/;
+
+/**
+ * Convert a 12-hour clock hour to 24-hour using the day period
+ */
+function applyPeriod(hour: number, period: DayPeriod): number {
+    switch (period) {
+        case 'early':
+        case 'morning':
+            return hour === 12 ? 0 : hour;
+        case 'noon':
+            return hour < 11 ? hour + 12 : hour;
+        case 'afternoon':
+        case 'evening':
+            return hour < 12 ? hour + 12 : hour;
+        case 'night':
+            if (hour === 12) return 0;
+            return hour >= 6 && hour < 12 ? hour + 12 : hour;
+    }
+}
+
+/**
+ * Parse a date expression into an instant
+ *
+ * Accepts the API format and ISO 8601 dates as well as natural-language
+ * expressions in English and Chinese. A time of day without a date refers
+ * to the next such time (e.g. "3pm" after 3pm means tomorrow).
+ *
+ * @param input - Date expression, e.g. "tomorrow 3pm", "下周一", "2025-11-25T17:00:00+0800"
+ * @param options - Time zone, reference time and week start
+ * @throws {DateParseError} If the expression cannot be understood
+ */
+export function parseDateExpression(input: string, options: DateParseOptions = {}): ParsedDate {
+    const timeZone = options.timeZone || APP_CONFIG.DATE.TIME_ZONE;
+    if (!isValidTimeZone(timeZone)) {
+        throw new DateParseError(input, `Invalid time zone "${timeZone}"`);
+    }
+
+    const text = input.normalize('NFKC').trim().toLowerCase();
+    if (!text) {
+        throw new DateParseError(input, 'Date expression is empty');
+    }
+
+    // Explicit offsets are kept as given (only normalized to the API format)
+    const iso = text.match(ISO_WITH_OFFSET_REGEX);
+    if (iso) {
+        const offset = iso[4] === 'z' ? '+0000' : iso[4].replace(':', '');
+        const formatted = `${iso[1]}T${iso[2]}:${iso[3] ?? '00'}${offset}`;
+        const date = new Date(`${iso[1]}T${iso[2]}:${iso[3] ?? '00'}${offset.slice(0, 3)}:${offset.slice(3)}`);
+        if (Number.isNaN(date.getTime())) {
+            throw new DateParseError(input, `Invalid date "${input}"`);
+        }
+        return { input, date, formatted, hasTime: true, timeZone };
+    }
+
+    const now = options.now ?? new Date();
+    const zonedNow = getZonedDateTime(now, timeZone);
+    const state: ParseState = {
+        today: { year: zonedNow.year, month: zonedNow.month, day: zonedNow.day },
+        nowTime: { hour: zonedNow.hour, minute: zonedNow.minute },
+        weekday: zonedNow.weekday,
+        weekStartsOn: options.weekStartsOn ?? APP_CONFIG.DATE.WEEK_START,
+    };
+
+    let rest = convertChineseNumerals(text);
+    try {
+        while (rest.length > 0) {
+            const rule = RULES.find((r) => r.pattern.test(rest));
+            if (rule) {
+                const match = rest.match(rule.pattern)!;
+                rule.apply(match, state);
+                rest = rest.slice(match[0].length);
+                continue;
+            }
+
+            const skip = rest.match(SKIP_REGEX);
+            if (!skip) {
+                throw new Error(`unrecognized "${rest}"`);
+            }
+            rest = rest.slice(skip[0].length);
+        }
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new DateParseError(
+            input,
+            `Could not understand date "${input}" (${reason}). Use e.g. "tomorrow 3pm", "next Friday", "明天下午三点", "下周一", or yyyy-MM-dd'T'HH:mm:ssZ`
+        );
+    }
+
+    if (!state.date && !state.time && !state.period) {
+        throw new DateParseError(input, `Could not understand date "${input}"`);
+    }
+
+    let hour: number | undefined;
+    let minute = 0;
+    if (state.time) {
+        hour = state.period && !state.time.explicit ? applyPeriod(state.time.hour, state.period) : state.time.hour;
+        minute = state.time.minute;
+    } else if (state.period) {
+        hour = PERIOD_DEFAULT_HOURS[state.period];
+    }
+
+    let date = state.date ?? state.today;
+    const hasTime = hour !== undefined;
+
+    // A bare time that has already passed today refers to tomorrow
+    if (!state.date && hasTime && (hour! * 60 + minute) <= (state.nowTime.hour * 60 + state.nowTime.minute)) {
+        date = addDays(date, 1);
+    }
+
+    const resolved = zonedTimeToDate({ ...date, hour: hour ?? 0, minute, second: 0 }, timeZone);
+    return {
+        input,
+        date: resolved,
+        formatted: formatApiDate(resolved, timeZone),
+        hasTime,
+        timeZone,
+    };
+}
+
+/**
+ * A date field resolved from an expression, echoed back in tool responses
+ */
+export interface ResolvedDateField {
+    field: string;
+    input: string;
+    resolved: string;
+}
+
+/**
+ * Task fields that accept date expressions
+ */
+interface TaskDateFields {
+    startDate?: string;
+    dueDate?: string;
+    timeZone?: string;
+    isAllDay?: boolean;
+}
+
+/**
+ * Resolve startDate/dueDate of a task input to the API format
+ *
+ * Dates are resolved in the task's timeZone, or the configured time zone.
+ * When every given date names a day without a time ("tomorrow", "下周一")
+ * and isAllDay is not set, the task becomes an all-day task.
+ *
+ * @param task - Task input (create or update)
+ * @param label - Prefix for error messages, e.g. "tasks[0]"
+ * @returns The task with resolved dates, and the fields that were rewritten
+ * @throws {Error} If a date cannot be understood
+ */
+export function resolveTaskDates<T extends TaskDateFields>(task: T, label: string): { task: T; resolved: ResolvedDateField[] } {
+    const result = { ...task };
+    const resolved: ResolvedDateField[] = [];
+    let allDateOnly = true;
+    let anyDate = false;
+
+    for (const field of ['startDate', 'dueDate'] as const) {
+        const value = task[field];
+        if (value === undefined) continue;
+
+        let parsed: ParsedDate;
+        try {
+            parsed = parseDateExpression(value, { timeZone: task.timeZone });
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new Error(`${label}.${field}: ${reason}`);
+        }
+
+        anyDate = true;
+        allDateOnly = allDateOnly && !parsed.hasTime;
+        result[field] = parsed.formatted;
+        if (parsed.formatted !== value) {
+            resolved.push({ field: `${label}.${field}`, input: value, resolved: parsed.formatted });
+        }
+    }
+
+    if (anyDate && allDateOnly && task.isAllDay === undefined) {
+        result.isAllDay = true;
+    }
+
+    return { task: result, resolved };
+}
+
+/**
+ * Format resolved dates for a tool's text response
+ */
+export function formatResolvedDates(resolved: ResolvedDateField[]): string {
+    return resolved.map((r) => `${r.field}: "${r.input}" → ${r.resolved}`).join('; ');
+}
@@ -0,0 +1,161 @@
+/**
+ * Date Range Utilities
+ *
+ * Calendar days and preset ranges ("today", "thisWeek", ...) in the user's
+ * time zone and week start, and the calendar day of task dates. Nothing
+ * here depends on the time zone of the server process.
+ */
+
+import type { Task } from '../api/types.js';
+import { APP_CONFIG } from '../config.js';
+import { getZonedDateTime, zonedTimeToDate } from './timezone.js';
+
+/**
+ * Preset date ranges
+ */
+export type DatePreset = 'today' | 'tomorrow' | 'thisWeek' | 'overdue';
+
+/**
+ * Calendar date (no time of day)
+ */
+export interface CalendarDate {
+    year: number;
+    /** 1-12 */
+    month: number;
+    /** 1-31 */
+    day: number;
+}
+
+/**
+ * Time zone and week start used to resolve ranges
+ */
+export interface DateRangeOptions {
+    /** IANA time zone (default: configured user time zone) */
+    timeZone?: string;
+    /** First day of the week: 0 = Sunday ... 6 = Saturday (default: configured week start) */
+    weekStartsOn?: number;
+    /** Reference time (default: now) */
+    now?: Date;
+}
+
+/**
+ * Inclusive range of instants
+ */
+export interface DateRange {
+    from: Date;
+    /** Last second of the range */
+    to: Date;
+}
+
+/**
+ * Get the calendar date of an instant in a time zone
+ */
+export function getCalendarDate(date: Date, timeZone: string): CalendarDate {
+    const { year, month, day } = getZonedDateTime(date, timeZone);
+    return { year, month, day };
+}
+
+/**
+ * Format a calendar date as yyyy-MM-dd
+ */
+export function formatCalendarDate(date: CalendarDate): string {
+    return `${String(date.year).padStart(4, '0')}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+/**
+ * Get the range from the start of one calendar day to the end of another, in a time zone
+ *
+ * @param first - First day
+ * @param dayCount - Number of days (out-of-range days roll over)
+ */
+export function getDayRange(first: CalendarDate, dayCount: number, timeZone: string): DateRange {
+    const from = zonedTimeToDate(first, timeZone);
+    const next = zonedTimeToDate({ ...first, day: first.day + dayCount }, timeZone);
+    return { from, to: new Date(next.getTime() - 1000) };
+}
+
+/**
+ * Get the range of a preset in the user's time zone
+ *
+ * "thisWeek" is the week containing today, starting on the configured
+ * week start. "overdue" is everything before today.
+ */
+export function getPresetRange(preset: DatePreset, options: DateRangeOptions = {}): DateRange {
+    const timeZone = options.timeZone || APP_CONFIG.DATE.TIME_ZONE;
+    const weekStartsOn = options.weekStartsOn ?? APP_CONFIG.DATE.WEEK_START;
+    const now = getZonedDateTime(options.now ?? new Date(), timeZone);
+    const today: CalendarDate = { year: now.year, month: now.month, day: now.day };
+
+    switch (preset) {
+        case 'today':
+            return getDayRange(today, 1, timeZone);
+        case 'tomorrow':
+            return getDayRange({ ...today, day: today.day + 1 }, 1, timeZone);
+        case 'thisWeek': {
+            const daysSinceStart = (now.weekday - weekStartsOn + 7) % 7;
+            return getDayRange({ ...today, day: today.day - daysSinceStart }, 7, timeZone);
+        }
+        case 'overdue':
+            return {
+                from: new Date(0), // Beginning of time
+                to: new Date(zonedTimeToDate(today, timeZone).getTime() - 1000), // End of yesterday
+            };
+        default:
+            throw new Error(`Unknown preset: ${preset}`);
+    }
+}
+
+/**
+ * Get the calendar day of a task date
+ *
+ * Timed dates fall on their local day in the given time zone. All-day
+ * dates are stored as midnight in the task's time zone (or as UTC midnight
+ * by some clients), so they keep their own calendar day wherever they are
+ * viewed.
+ *
+ * @param value - Task date (API format)
+ * @param task - isAllDay and timeZone of the task
+ * @param timeZone - Time zone for timed dates (default: configured user time zone)
+ */
+export function getTaskCalendarDate(
+    value: string | Date,
+    task: Pick<Task, 'isAllDay' | 'timeZone'>,
+    timeZone: string = APP_CONFIG.DATE.TIME_ZONE
+): CalendarDate | undefined {
+    const date = value instanceof Date ? value : new Date(value);
+    if (isNaN(date.getTime())) return undefined;
+
+    if (!task.isAllDay) {
+        return getCalendarDate(date, timeZone);
+    }
+
+    const zoned = getZonedDateTime(date, task.timeZone || timeZone);
+    const isZonedMidnight = zoned.hour === 0 && zoned.minute === 0;
+    if (!isZonedMidnight && date.getUTCHours() === 0 && date.getUTCMinutes() === 0) {
+        return getCalendarDate(date, 'UTC');
+    }
+    return { year: zoned.year, month: zoned.month, day: zoned.day };
+}
+
+/**
+ * Get the instant a task date is compared at when filtering by range
+ *
+ * Timed dates are used as they are; all-day dates are taken as the start of
+ * their calendar day in the given time zone, so an all-day task due on the
+ * 26th matches a range covering the 26th.
+ *
+ * @returns The instant, or undefined if the date is missing or invalid
+ */
+export function getTaskComparableDate(
+    value: string | undefined,
+    task: Pick<Task, 'isAllDay' | 'timeZone'>,
+    timeZone: string = APP_CONFIG.DATE.TIME_ZONE
+): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return undefined;
+    if (!task.isAllDay) return date;
+
+    const day = getTaskCalendarDate(date, task, timeZone);
+    return day ? zonedTimeToDate(day, timeZone) : undefined;
+}
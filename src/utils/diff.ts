@@ -0,0 +1,67 @@
+/**
+ * Field Diff Utilities
+ *
+ * Compare task and project fields the way the API stores them, for dry-run
+ * previews and the operation journal
+ */
+
+/**
+ * Change of a single field
+ */
+export interface FieldChange {
+    field: string;
+    /** Current value (absent if the field is not set or the item does not exist yet) */
+    from?: unknown;
+    /** New value (absent if the field would be cleared) */
+    to?: unknown;
+}
+
+const DATE_TIME_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+/**
+ * Check if two field values are equal
+ *
+ * Values that mean "not set" (undefined, null, "", []) are equal, and
+ * date-times are compared as instants ("…T00:00:00+0000" equals "…T08:00:00.000+0800").
+ */
+export function isSameValue(a: unknown, b: unknown): boolean {
+    const normalize = (value: unknown) =>
+        value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+            ? null
+            : value;
+    const left = normalize(a);
+    const right = normalize(b);
+
+    if (typeof left === 'string' && typeof right === 'string' && DATE_TIME_REGEX.test(left) && DATE_TIME_REGEX.test(right)) {
+        const leftTime = Date.parse(left.replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+        const rightTime = Date.parse(right.replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+        if (!Number.isNaN(leftTime) && !Number.isNaN(rightTime)) {
+            return leftTime === rightTime;
+        }
+    }
+    return JSON.stringify(left) === JSON.stringify(right);
+}
+
+/**
+ * List the fields that would change
+ *
+ * @param current - Current item, or undefined for an item that would be created
+ * @param next - Requested values; only fields present here are compared
+ * @param fields - Fields to compare
+ */
+export function diffFields<T extends object>(current: T | undefined, next: Partial<T>, fields: readonly (keyof T)[]): FieldChange[] {
+    const changes: FieldChange[] = [];
+    for (const field of fields) {
+        if (!(field in next)) continue;
+        const from = current?.[field];
+        const to = next[field];
+        if (!isSameValue(from, to)) {
+            changes.push({
+                field: String(field),
+                ...(from !== undefined && { from }),
+                ...(to !== undefined && to !== '' && { to }),
+            });
+        }
+    }
+    return changes;
+}
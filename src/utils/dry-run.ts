@@ -0,0 +1,44 @@
+/**
+ * Dry-Run Utilities
+ *
+ * In dry-run, write tools validate and resolve their input (project names,
+ * dates) and report what would change compared to the server's current
+ * state, without calling any mutating endpoint
+ */
+
+import { isDryRun } from '../config.js';
+import type { FieldChange } from './diff.js';
+
+/**
+ * What a single write would do
+ */
+export interface DryRunItem {
+    operation: 'create' | 'update' | 'complete' | 'delete' | 'move';
+    target: 'task' | 'project';
+    /** Resolved project ID (for projects, the project itself) */
+    projectId: string;
+    /** Task ID; absent for tasks that would be created */
+    taskId?: string;
+    title: string;
+    /** Field changes compared to the current state */
+    changes: FieldChange[];
+    /** Extra detail, e.g. why nothing would change */
+    note?: string;
+}
+
+/**
+ * Check if a tool call should only preview its changes
+ *
+ * The global --dry-run flag cannot be overridden per call.
+ */
+export function isDryRunCall(dryRun?: boolean): boolean {
+    return dryRun === true || isDryRun();
+}
+
+/**
+ * Summary line for a batch dry run, e.g. "Dry run: 3 task(s) would be updated, 1 invalid. Nothing was changed."
+ */
+export function describeDryRun(summary: { succeeded: number; failed: number }, noun: string, verb: string): string {
+    const invalid = summary.failed > 0 ? `, ${summary.failed} invalid` : '';
+    return `Dry run: ${summary.succeeded} ${noun}(s) would be ${verb}${invalid}. Nothing was changed.`;
+}
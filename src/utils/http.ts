@@ -7,6 +7,19 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
 import { TokenManager, createValidationContext } from '../token.js';
 import { loadOAuthConfig, APP_CONFIG } from '../config.js';
+import { TokenBucketRateLimiter } from './rate-limiter.js';
+
+/**
+ * Retry policy for transient failures (429, 5xx, network errors)
+ */
+export interface RetryPolicy {
+    /** Total attempts including the first request (1 disables retries) */
+    maxAttempts: number;
+    /** Base delay for exponential backoff (ms) */
+    baseDelayMs: number;
+    /** Maximum delay between attempts (ms); a longer Retry-After aborts retrying */
+    maxDelayMs: number;
+}
 
 /**
  * HTTP Client configuration
@@ -15,8 +28,41 @@ export interface HttpClientConfig {
     baseURL?: string;
     timeout?: number;
     tokenManager: TokenManager;
+    retry?: Partial<RetryPolicy>;
+    /** Rate limiter for outgoing requests (defaults to the process-wide limiter) */
+    rateLimiter?: TokenBucketRateLimiter;
+}
+
+/**
+ * Per-request configuration
+ */
+export interface RequestConfig extends AxiosRequestConfig {
+    /**
+     * Retry behavior for this request:
+     * - false: never retry (opt-out)
+     * - object: override the client retry policy
+     */
+    retry?: false | Partial<RetryPolicy>;
+    /**
+     * Mark a non-GET/PUT/DELETE request as safe to repeat
+     * (e.g. POST endpoints that overwrite state)
+     */
+    idempotent?: boolean;
 }
 
+/**
+ * HTTP methods that are idempotent by definition (RFC 9110)
+ */
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'delete']);
+
+/**
+ * Process-wide rate limiter shared by all HttpClient instances
+ */
+export const sharedRateLimiter = new TokenBucketRateLimiter({
+    requestsPerSecond: APP_CONFIG.API.RATE_LIMIT.REQUESTS_PER_SECOND,
+    burst: APP_CONFIG.API.RATE_LIMIT.BURST,
+});
+
 /**
  * API Response wrapper
  */
@@ -34,13 +80,17 @@ export class ApiError extends Error {
     public status: number;
     public statusText: string;
     public data?: any;
+    public headers?: any;
+    /** Number of attempts made before this error was returned */
+    public attempts: number = 1;
 
-    constructor(status: number, statusText: string, message: string, data?: any) {
+    constructor(status: number, statusText: string, message: string, data?: any, headers?: any) {
         super(message);
         this.name = 'ApiError';
         this.status = status;
         this.statusText = statusText;
         this.data = data;
+        this.headers = headers;
     }
 }
 
@@ -67,9 +117,18 @@ export class ApiResponseEmptyError extends Error {
 export class HttpClient {
     private axiosInstance: AxiosInstance;
     private tokenManager: TokenManager;
+    private retryPolicy: RetryPolicy;
+    private rateLimiter: TokenBucketRateLimiter;
 
     constructor(config: HttpClientConfig) {
         this.tokenManager = config.tokenManager;
+        this.rateLimiter = config.rateLimiter ?? sharedRateLimiter;
+        this.retryPolicy = {
+            maxAttempts: APP_CONFIG.API.RETRY.MAX_ATTEMPTS,
+            baseDelayMs: APP_CONFIG.API.RETRY.BASE_DELAY_MS,
+            maxDelayMs: APP_CONFIG.API.RETRY.MAX_DELAY_MS,
+            ...config.retry,
+        };
 
         // Create axios instance with default config
         this.axiosInstance = axios.create({
@@ -116,7 +175,7 @@ export class HttpClient {
             },
             async (error: AxiosError) => {
                 if (error.response) {
-                    const { status, statusText, data } = error.response;
+                    const { status, statusText, data, headers } = error.response;
 
                     // Parse the data
                     let parsedData = data;
@@ -141,11 +200,11 @@ export class HttpClient {
                         if (parsedData && typeof parsedData === 'object' && 'errorMessage' in parsedData && typeof parsedData.errorMessage === 'string') {
                             errorMessage = parsedData.errorMessage;
                         }
-                        throw new ApiError(status, statusText, errorMessage, parsedData);
+                        throw new ApiError(status, statusText, errorMessage, parsedData, headers);
                     }
 
                     // Handle other HTTP errors
-                    throw new ApiError(status, statusText, `API request failed: ${statusText}`, parsedData);
+                    throw new ApiError(status, statusText, `API request failed: ${statusText}`, parsedData, headers);
                 } else if (error.request) {
                     // Network error
                     throw new ApiError(0, 'Network Error', 'Network request failed', error.message);
@@ -160,66 +219,83 @@ export class HttpClient {
     /**
      * GET request
      */
-    async get<T = any>(url: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-        const response = await this.axiosInstance.get<T>(url, config);
-        return {
-            data: response.data,
-            status: response.status,
-            statusText: response.statusText,
-            headers: response.headers,
-        };
+    async get<T = any>(url: string, config?: RequestConfig): Promise<ApiResponse<T>> {
+        return this.request<T>({ ...config, method: 'get', url });
     }
 
     /**
      * POST request
      */
-    async post<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-        const response = await this.axiosInstance.post<T>(url, data, config);
-        return {
-            data: response.data,
-            status: response.status,
-            statusText: response.statusText,
-            headers: response.headers,
-        };
+    async post<T = any>(url: string, data?: any, config?: RequestConfig): Promise<ApiResponse<T>> {
+        return this.request<T>({ ...config, method: 'post', url, data });
     }
 
     /**
      * PUT request
      */
-    async put<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-        const response = await this.axiosInstance.put<T>(url, data, config);
-        return {
-            data: response.data,
-            status: response.status,
-            statusText: response.statusText,
-            headers: response.headers,
-        };
+    async put<T = any>(url: string, data?: any, config?: RequestConfig): Promise<ApiResponse<T>> {
+        return this.request<T>({ ...config, method: 'put', url, data });
     }
 
     /**
      * PATCH request
      */
-    async patch<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-        const response = await this.axiosInstance.patch<T>(url, data, config);
-        return {
-            data: response.data,
-            status: response.status,
-            statusText: response.statusText,
-            headers: response.headers,
-        };
+    async patch<T = any>(url: string, data?: any, config?: RequestConfig): Promise<ApiResponse<T>> {
+        return this.request<T>({ ...config, method: 'patch', url, data });
     }
 
     /**
      * DELETE request
      */
-    async delete<T = any>(url: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-        const response = await this.axiosInstance.delete<T>(url, config);
-        return {
-            data: response.data,
-            status: response.status,
-            statusText: response.statusText,
-            headers: response.headers,
-        };
+    async delete<T = any>(url: string, config?: RequestConfig): Promise<ApiResponse<T>> {
+        return this.request<T>({ ...config, method: 'delete', url });
+    }
+
+    /**
+     * Execute a request, retrying transient failures with jittered exponential backoff
+     *
+     * Every attempt (including retries) waits for a rate limiter token first.
+     * Only idempotent requests are retried unless the request opts in via `idempotent: true`.
+     * The final error reports how many attempts were made.
+     */
+    private async request<T>(config: RequestConfig): Promise<ApiResponse<T>> {
+        const { retry, idempotent, ...axiosConfig } = config;
+        const method = (axiosConfig.method || 'get').toLowerCase();
+        const retryEnabled = retry !== false && (idempotent ?? IDEMPOTENT_METHODS.has(method));
+        const policy: RetryPolicy = { ...this.retryPolicy, ...(retry || {}) };
+        const maxAttempts = retryEnabled ? Math.max(1, policy.maxAttempts) : 1;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await this.rateLimiter.acquire();
+                const response = await this.axiosInstance.request<T>(axiosConfig);
+                return {
+                    data: response.data,
+                    status: response.status,
+                    statusText: response.statusText,
+                    headers: response.headers,
+                };
+            } catch (error) {
+                if (!(error instanceof ApiError)) {
+                    throw error;
+                }
+                error.attempts = attempt;
+
+                const delay = attempt < maxAttempts && isRetryableError(error)
+                    ? getRetryDelay(error, attempt, policy)
+                    : null;
+
+                if (delay === null) {
+                    if (retryEnabled && isRetryableError(error)) {
+                        error.message = `${error.message} (failed after ${attempt} attempt${attempt !== 1 ? 's' : ''})`;
+                    }
+                    throw error;
+                }
+
+                console.error(`${method.toUpperCase()} ${axiosConfig.url} failed (${error.status || error.statusText}), retrying in ${delay}ms (attempt ${attempt + 1}/${maxAttempts})`);
+                await sleep(delay);
+            }
+        }
     }
 
     /**
@@ -244,6 +320,58 @@ export class HttpClient {
     }
 }
 
+/**
+ * Check if an error is a transient failure worth retrying
+ */
+function isRetryableError(error: ApiError): boolean {
+    return error.status === 429 || error.status >= 500 || error.statusText === 'Network Error';
+}
+
+/**
+ * Compute delay before the next attempt
+ *
+ * Honors the Retry-After header (seconds or HTTP date) when present, otherwise uses
+ * "full jitter" exponential backoff: random(0, min(maxDelay, baseDelay * 2^(attempt-1))).
+ *
+ * @returns Delay in milliseconds, or null if the server asks to wait longer than maxDelayMs
+ */
+function getRetryDelay(error: ApiError, attempt: number, policy: RetryPolicy): number | null {
+    const retryAfter = parseRetryAfter(error.headers?.['retry-after']);
+    if (retryAfter !== null) {
+        return retryAfter <= policy.maxDelayMs ? retryAfter : null;
+    }
+
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header value into milliseconds
+ */
+function parseRetryAfter(value: unknown): number | null {
+    if (typeof value !== 'string' || value.trim() === '') {
+        return null;
+    }
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return null;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
 const oauthConfig = loadOAuthConfig();
 const validationContext = createValidationContext(
@@ -251,7 +379,11 @@ const validationContext = createValidationContext(
     oauthConfig.clientSecret,
     APP_CONFIG.REGION
 );
-const defaultTokenManager = new TokenManager(validationContext);
+const defaultTokenManager = new TokenManager(validationContext, {
+    clientId: oauthConfig.clientId,
+    clientSecret: oauthConfig.clientSecret,
+    tokenEndpoint: oauthConfig.tokenEndpoint,
+});
 const defaultHttpClient = new HttpClient({ tokenManager: defaultTokenManager });
 
 export default defaultHttpClient;
\ No newline at end of file
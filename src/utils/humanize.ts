@@ -0,0 +1,315 @@
+/**
+ * Human-Readable Task Fields
+ *
+ * Describe reminders (TRIGGER) and repeat rules (RRULE/ERULE) in English
+ * and Chinese, and compute when reminders fire, so tool output does not
+ * rely on the model decoding iCalendar syntax.
+ */
+
+import type { Task } from '../api/types.js';
+import { APP_CONFIG } from '../config.js';
+import { parseDuration } from './icalendar.js';
+import { parseRecurrenceRule, type RecurrenceRule, type WeekdayRule } from './recurrence.js';
+import { formatApiDate, getZonedDateTime, zonedTimeToDate } from './timezone.js';
+
+/**
+ * Text in English and Chinese
+ */
+export interface LocalizedText {
+    en: string;
+    zh: string;
+}
+
+/**
+ * Fields added to tasks by annotateTask
+ */
+export interface TaskAnnotations {
+    /** Reminders in words, in the same order as reminders */
+    remindersText?: LocalizedText[];
+    /** When each reminder fires (API format), in the same order as reminders */
+    reminderTimes?: Array<string | null>;
+    /** Repeat rule in words */
+    repeatText?: LocalizedText;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS_EN = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const WEEKDAYS_ZH = ['日', '一', '二', '三', '四', '五', '六'];
+const MONTHS_EN = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+/**
+ * Parse a reminder ("TRIGGER:-PT30M") into an offset in milliseconds
+ */
+export function parseReminder(reminder: string): number | undefined {
+    return parseDuration(reminder.trim().replace(/^TRIGGER:/i, ''));
+}
+
+function plural(count: number, unit: string): string {
+    return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Split a duration into days, hours and minutes and describe it
+ */
+function describeDuration(ms: number): LocalizedText {
+    const totalMinutes = Math.round(Math.abs(ms) / 60000);
+    const days = Math.floor(totalMinutes / 1440);
+    const hours = Math.floor((totalMinutes % 1440) / 60);
+    const minutes = totalMinutes % 60;
+
+    const en: string[] = [];
+    let zh = '';
+    if (days) {
+        en.push(days % 7 === 0 && !hours && !minutes ? plural(days / 7, 'week') : plural(days, 'day'));
+        zh += days % 7 === 0 && !hours && !minutes ? `${days / 7}周` : `${days}天`;
+    }
+    if (hours) {
+        en.push(plural(hours, 'hour'));
+        zh += `${hours}小时`;
+    }
+    if (minutes) {
+        en.push(plural(minutes, 'minute'));
+        zh += `${minutes}分钟`;
+    }
+    return { en: en.join(' '), zh };
+}
+
+function formatClock(ms: number): string {
+    const minutes = Math.round(ms / 60000);
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Describe a reminder, e.g. "30 minutes before" / "提前30分钟"
+ *
+ * Reminders of all-day tasks are offsets from the start of the due day,
+ * e.g. "-P1DT15H" is "1 day before at 09:00" / "提前1天 09:00".
+ */
+export function describeReminder(reminder: string, isAllDay = false): LocalizedText | undefined {
+    const offset = parseReminder(reminder);
+    if (offset === undefined) return undefined;
+
+    if (isAllDay) {
+        const dayOffset = Math.floor(offset / DAY_MS);
+        const clock = formatClock(offset - dayOffset * DAY_MS);
+        if (dayOffset === 0) return { en: `On the day at ${clock}`, zh: `当天 ${clock}` };
+        const days = Math.abs(dayOffset);
+        return dayOffset < 0
+            ? { en: `${plural(days, 'day')} before at ${clock}`, zh: `提前${days}天 ${clock}` }
+            : { en: `${plural(days, 'day')} after at ${clock}`, zh: `${days}天后 ${clock}` };
+    }
+
+    if (offset === 0) return { en: 'At due time', zh: '准时' };
+    const duration = describeDuration(offset);
+    return offset < 0
+        ? { en: `${duration.en} before`, zh: `提前${duration.zh}` }
+        : { en: `${duration.en} after`, zh: `${duration.zh}后` };
+}
+
+/**
+ * Compute when a reminder fires for a task
+ *
+ * @returns The fire time, or undefined if the task has no due date or the reminder is malformed
+ */
+export function getReminderTime(task: Pick<Task, 'dueDate' | 'isAllDay' | 'timeZone'>, reminder: string): Date | undefined {
+    const offset = parseReminder(reminder);
+    if (offset === undefined || !task.dueDate) return undefined;
+
+    const due = new Date(task.dueDate);
+    if (isNaN(due.getTime())) return undefined;
+
+    if (!task.isAllDay) {
+        return new Date(due.getTime() + offset);
+    }
+
+    // All-day reminders are wall-clock offsets from the start of the due day
+    const timeZone = task.timeZone || APP_CONFIG.DATE.TIME_ZONE;
+    const day = getZonedDateTime(due, timeZone);
+    const dayOffset = Math.floor(offset / DAY_MS);
+    const seconds = Math.round((offset - dayOffset * DAY_MS) / 1000);
+    return zonedTimeToDate({ year: day.year, month: day.month, day: day.day + dayOffset, second: seconds }, timeZone);
+}
+
+function ordinalEn(n: number): string {
+    if (n === -1) return 'last';
+    if (n < 0) return `${ordinalEn(-n)} to last`;
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+    return `${n}${suffix}`;
+}
+
+function ordinalZh(n: number): string {
+    if (n === -1) return '最后一个';
+    return n < 0 ? `倒数第${-n}个` : `第${n}个`;
+}
+
+function joinEn(items: string[]): string {
+    if (items.length <= 1) return items.join('');
+    return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function isWorkdays(byDay: WeekdayRule[]): boolean {
+    const days = new Set(byDay.filter((d) => d.ordinal === undefined).map((d) => d.weekday));
+    return byDay.length === 5 && [1, 2, 3, 4, 5].every((d) => days.has(d));
+}
+
+/**
+ * Describe BYDAY: "Monday and Wednesday" / "周一、三", "2nd Tuesday" / "第2个周二"
+ */
+function describeWeekdays(byDay: WeekdayRule[]): LocalizedText {
+    const plain = byDay.filter((d) => d.ordinal === undefined).sort((a, b) => ((a.weekday + 6) % 7) - ((b.weekday + 6) % 7));
+    const numbered = byDay.filter((d) => d.ordinal !== undefined);
+
+    const en = [
+        ...plain.map((d) => WEEKDAYS_EN[d.weekday]),
+        ...numbered.map((d) => `the ${ordinalEn(d.ordinal!)} ${WEEKDAYS_EN[d.weekday]}`),
+    ];
+    const zh = [
+        ...(plain.length > 0 ? [`周${plain.map((d) => WEEKDAYS_ZH[d.weekday]).join('、')}`] : []),
+        ...numbered.map((d) => `${ordinalZh(d.ordinal!)}周${WEEKDAYS_ZH[d.weekday]}`),
+    ];
+    return { en: joinEn(en), zh: zh.join('、') };
+}
+
+/**
+ * Describe BYMONTHDAY: "day 1 and 15" / "1日、15日", "the last day" / "最后一天"
+ */
+function describeMonthDays(byMonthDay: number[]): LocalizedText {
+    const en = byMonthDay.map((d) => (d === -1 ? 'the last day' : d < 0 ? `the ${ordinalEn(d)} day` : `day ${d}`));
+    const zh = byMonthDay.map((d) => (d === -1 ? '最后一天' : d < 0 ? `倒数第${-d}天` : `${d}日`));
+    return { en: joinEn(en), zh: zh.join('、') };
+}
+
+/**
+ * Describe the days within a period (BYDAY/BYMONTHDAY with BYSETPOS)
+ */
+function describeDays(rule: RecurrenceRule): LocalizedText | undefined {
+    if (rule.bySetPos.length > 0 && rule.byDay.length > 0) {
+        const positions = rule.bySetPos;
+        if (isWorkdays(rule.byDay)) {
+            return {
+                en: `the ${joinEn(positions.map(ordinalEn))} weekday`,
+                zh: positions.map((p) => `${ordinalZh(p)}工作日`).join('、'),
+            };
+        }
+        const days = describeWeekdays(rule.byDay);
+        return {
+            en: `the ${joinEn(positions.map(ordinalEn))} of ${days.en}`,
+            zh: positions.map((p) => `${ordinalZh(p)}（${days.zh}）`).join('、'),
+        };
+    }
+
+    const parts: LocalizedText[] = [];
+    if (rule.byMonthDay.length > 0) parts.push(describeMonthDays(rule.byMonthDay));
+    if (rule.byDay.length > 0) parts.push(describeWeekdays(rule.byDay));
+    if (parts.length === 0) return undefined;
+    return { en: parts.map((p) => p.en).join(' that is '), zh: parts.map((p) => p.zh).join('且') };
+}
+
+function formatDay(day: { year: number; month: number; day: number }): string {
+    return `${day.year}-${String(day.month).padStart(2, '0')}-${String(day.day).padStart(2, '0')}`;
+}
+
+/**
+ * Describe a repeat rule, e.g. "Weekly on Monday and Wednesday" / "每周一、三"
+ *
+ * @returns The description, or undefined if the rule is malformed
+ */
+export function describeRepeat(repeatFlag: string): LocalizedText | undefined {
+    let rule: RecurrenceRule;
+    try {
+        rule = parseRecurrenceRule(repeatFlag);
+    } catch {
+        return undefined;
+    }
+
+    if (rule.kind === 'ERULE') {
+        const dates = rule.dates.map(formatDay);
+        return { en: `On ${dates.join(', ')}`, zh: `自定义日期：${dates.join('、')}` };
+    }
+
+    const n = rule.interval;
+    const days = describeDays(rule);
+    let en: string;
+    let zh: string;
+
+    switch (rule.freq) {
+        case 'DAILY':
+            en = n === 1 ? 'Daily' : `Every ${n} days`;
+            zh = n === 1 ? '每天' : `每${n}天`;
+            break;
+        case 'WEEKLY':
+            if (n === 1 && isWorkdays(rule.byDay)) {
+                en = 'Every weekday';
+                zh = '每个工作日';
+            } else {
+                const weekdays = rule.byDay.length > 0 ? describeWeekdays(rule.byDay) : undefined;
+                en = (n === 1 ? 'Weekly' : `Every ${n} weeks`) + (weekdays ? ` on ${weekdays.en}` : '');
+                zh = n === 1 ? `每${weekdays ? weekdays.zh : '周'}` : `每${n}周${weekdays ? `的${weekdays.zh}` : ''}`;
+            }
+            break;
+        case 'MONTHLY':
+            en = (n === 1 ? 'Monthly' : `Every ${n} months`) + (days ? ` on ${days.en}` : '');
+            zh = (n === 1 ? '每月' : `每${n}个月的`) + (days ? days.zh : '');
+            break;
+        default: {
+            const months = rule.byMonth.slice().sort((a, b) => a - b);
+            const monthsEn = months.length > 0 ? ` in ${joinEn(months.map((m) => MONTHS_EN[m - 1]))}` : '';
+            const monthsZh = months.length > 0 ? months.map((m) => `${m}月`).join('、') : '';
+            en = (n === 1 ? 'Yearly' : `Every ${n} years`) + (days ? ` on ${days.en}` : '') + monthsEn;
+            zh = (n === 1 ? '每年' : `每${n}年`) + monthsZh + (days ? days.zh : '');
+        }
+    }
+
+    if (rule.byMonth.length > 0 && rule.freq !== 'YEARLY') {
+        en += `, only in ${joinEn(rule.byMonth.map((m) => MONTHS_EN[m - 1]))}`;
+        zh += `（仅${rule.byMonth.map((m) => `${m}月`).join('、')}）`;
+    }
+    const skips: LocalizedText[] = [];
+    if (rule.skipWeekends) skips.push({ en: 'weekends', zh: '周末' });
+    if (rule.unsupported.some((part) => part.toUpperCase() === 'TT_SKIP=HOLIDAY')) skips.push({ en: 'holidays', zh: '节假日' });
+    if (skips.length > 0) {
+        en += `, skipping ${joinEn(skips.map((skip) => skip.en))}`;
+        zh += `（跳过${skips.map((skip) => skip.zh).join('、')}）`;
+    }
+    if (rule.count !== undefined) {
+        en += `, ${plural(rule.count, 'time')}`;
+        zh += `，共${rule.count}次`;
+    }
+    if (rule.until) {
+        const until = formatDay(rule.until.fields);
+        en += `, until ${until}`;
+        zh += `，直到${until}`;
+    }
+
+    return { en, zh };
+}
+
+/**
+ * Add remindersText, reminderTimes and repeatText to a task
+ *
+ * Returns a new object; fields are only added when the task has reminders or a repeat rule.
+ */
+export function annotateTask<T extends Task>(task: T): T & TaskAnnotations {
+    const annotations: TaskAnnotations = {};
+
+    if (task.reminders && task.reminders.length > 0) {
+        const timeZone = task.timeZone || APP_CONFIG.DATE.TIME_ZONE;
+        annotations.remindersText = task.reminders.map((reminder) =>
+            describeReminder(reminder, task.isAllDay) ?? { en: `Unrecognized reminder ${reminder}`, zh: `无法识别的提醒 ${reminder}` }
+        );
+        if (task.dueDate) {
+            annotations.reminderTimes = task.reminders.map((reminder) => {
+                const time = getReminderTime(task, reminder);
+                return time ? formatApiDate(time, timeZone) : null;
+            });
+        }
+    }
+
+    if (task.repeatFlag) {
+        const repeatText = describeRepeat(task.repeatFlag);
+        if (repeatText) annotations.repeatText = repeatText;
+    }
+
+    return { ...task, ...annotations };
+}
@@ -0,0 +1,423 @@
+/**
+ * iCalendar (RFC 5545) Utilities
+ *
+ * Generic building blocks for reading and writing iCalendar data:
+ * components, text escaping, line folding, date values and VTIMEZONE.
+ */
+
+import { getTimeZoneOffset, getZonedDateTime, isValidTimeZone, zonedTimeToDate } from './timezone.js';
+
+/**
+ * iCalendar property (content line)
+ */
+export interface IcsProperty {
+    name: string;
+    params?: Record<string, string>;
+    /** Raw value (text values must already be escaped with escapeText) */
+    value: string;
+}
+
+/**
+ * iCalendar component (VCALENDAR, VTODO, VEVENT, VALARM, VTIMEZONE ...)
+ */
+export interface IcsComponent {
+    name: string;
+    properties: IcsProperty[];
+    components: IcsComponent[];
+}
+
+/**
+ * Date or date-time value read from a property
+ */
+export interface IcsDateValue {
+    /** Instant (midnight in the time zone for DATE values) */
+    date: Date;
+    /** True for DATE values (no time of day) */
+    allDay: boolean;
+    /** Time zone the value was interpreted in */
+    timeZone: string;
+    /** TZID that was not a known IANA time zone and was replaced by the fallback zone */
+    unknownTzid?: string;
+}
+
+/**
+ * Error thrown when iCalendar text cannot be parsed
+ */
+export class ICalendarParseError extends Error {
+    public line?: number;
+
+    constructor(message: string, line?: number) {
+        super(line !== undefined ? `Line ${line}: ${message}` : message);
+        this.name = 'ICalendarParseError';
+        this.line = line;
+    }
+}
+
+/**
+ * Maximum line length in octets, excluding the line break
+ */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Create a component
+ */
+export function createComponent(name: string, properties: IcsProperty[] = [], components: IcsComponent[] = []): IcsComponent {
+    return { name, properties, components };
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and line breaks)
+ */
+export function escapeText(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets, without splitting characters
+ */
+export function foldLine(line: string): string {
+    if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) {
+        return line;
+    }
+
+    const chunks: string[] = [];
+    let chunk = '';
+    let octets = 0;
+    // Continuation lines start with a space, which counts towards the limit
+    let limit = MAX_LINE_OCTETS;
+
+    for (const ch of line) {
+        const size = Buffer.byteLength(ch, 'utf8');
+        if (octets + size > limit) {
+            chunks.push(chunk);
+            chunk = '';
+            octets = 0;
+            limit = MAX_LINE_OCTETS - 1;
+        }
+        chunk += ch;
+        octets += size;
+    }
+    chunks.push(chunk);
+
+    return chunks.join('\r\n ');
+}
+
+/**
+ * Render a property as a content line (unfolded)
+ */
+function renderProperty(property: IcsProperty): string {
+    const params = Object.entries(property.params ?? {})
+        .map(([key, value]) => (/[;:,"]/.test(value) ? `;${key}="${value.replace(/"/g, '')}"` : `;${key}=${value}`))
+        .join('');
+    return `${property.name}${params}:${property.value}`;
+}
+
+/**
+ * Render a component and its subcomponents as content lines
+ */
+function renderComponent(component: IcsComponent): string[] {
+    return [
+        `BEGIN:${component.name}`,
+        ...component.properties.map(renderProperty),
+        ...component.components.flatMap(renderComponent),
+        `END:${component.name}`,
+    ];
+}
+
+/**
+ * Serialize a component (usually a VCALENDAR) to iCalendar text with CRLF line breaks
+ */
+export function serializeComponent(component: IcsComponent): string {
+    return renderComponent(component).map(foldLine).join('\r\n') + '\r\n';
+}
+
+function pad(value: number, length = 2): string {
+    return String(value).padStart(length, '0');
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME value (e.g. 20251125T090000Z)
+ */
+export function formatDateTimeUtc(date: Date): string {
+    return `${pad(date.getUTCFullYear(), 4)}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+        `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * Format an instant as a local DATE-TIME value in a time zone (e.g. 20251125T170000, used with TZID)
+ */
+export function formatDateTimeLocal(date: Date, timeZone: string): string {
+    const zoned = getZonedDateTime(date, timeZone);
+    return `${pad(zoned.year, 4)}${pad(zoned.month)}${pad(zoned.day)}` +
+        `T${pad(zoned.hour)}${pad(zoned.minute)}${pad(zoned.second)}`;
+}
+
+/**
+ * Format the calendar day of an instant in a time zone as a DATE value (e.g. 20251125)
+ */
+export function formatDateValue(date: Date, timeZone: string): string {
+    const zoned = getZonedDateTime(date, timeZone);
+    return `${pad(zoned.year, 4)}${pad(zoned.month)}${pad(zoned.day)}`;
+}
+
+/**
+ * Format a UTC offset in minutes as +HHMM / -HHMM
+ */
+function formatUtcOffset(minutes: number): string {
+    const sign = minutes < 0 ? '-' : '+';
+    const abs = Math.abs(minutes);
+    return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+/**
+ * Find the first minute at which the offset differs from the offset at `from`
+ */
+function findTransition(from: number, to: number, timeZone: string): number {
+    const startOffset = getTimeZoneOffset(new Date(from), timeZone);
+    let low = from;
+    let high = to;
+    while (high - low > 60 * 1000) {
+        const mid = low + Math.floor((high - low) / 2 / 60000) * 60000;
+        if (getTimeZoneOffset(new Date(mid), timeZone) === startOffset) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+    return high;
+}
+
+/**
+ * Build a VTIMEZONE component describing a time zone between two years
+ *
+ * Offset transitions are discovered from the runtime's time zone data and
+ * written as individual STANDARD/DAYLIGHT observances.
+ *
+ * @param timeZone - IANA time zone name (used as TZID)
+ * @param fromYear - First year that must be covered
+ * @param toYear - Last year that must be covered
+ */
+export function buildVTimezone(timeZone: string, fromYear: number, toYear: number): IcsComponent {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const start = Date.UTC(fromYear, 0, 1);
+    const end = Date.UTC(toYear + 1, 0, 1);
+    const observances: IcsComponent[] = [];
+
+    const initialOffset = getTimeZoneOffset(new Date(start), timeZone);
+    observances.push(createComponent('STANDARD', [
+        { name: 'DTSTART', value: '19700101T000000' },
+        { name: 'TZOFFSETFROM', value: formatUtcOffset(initialOffset) },
+        { name: 'TZOFFSETTO', value: formatUtcOffset(initialOffset) },
+    ]));
+
+    let previousOffset = initialOffset;
+    for (let time = start + DAY_MS; time <= end; time += DAY_MS) {
+        const offset = getTimeZoneOffset(new Date(time), timeZone);
+        if (offset === previousOffset) continue;
+
+        const transition = findTransition(time - DAY_MS, time, timeZone);
+        // DTSTART is the local time of the transition in the previous offset
+        const localStart = formatDateTimeUtc(new Date(transition + previousOffset * 60000)).slice(0, -1);
+        observances.push(createComponent(offset > previousOffset ? 'DAYLIGHT' : 'STANDARD', [
+            { name: 'DTSTART', value: localStart },
+            { name: 'TZOFFSETFROM', value: formatUtcOffset(previousOffset) },
+            { name: 'TZOFFSETTO', value: formatUtcOffset(offset) },
+        ]));
+        previousOffset = offset;
+    }
+
+    return createComponent('VTIMEZONE', [{ name: 'TZID', value: timeZone }], observances);
+}
+
+/**
+ * Unescape a TEXT value
+ */
+export function unescapeText(text: string): string {
+    return text.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+/**
+ * Parse a content line into name, parameters and value
+ */
+function parseContentLine(line: string, lineNumber: number): IcsProperty {
+    const params: Record<string, string> = {};
+    let index = 0;
+
+    const readToken = (stops: string): string => {
+        let token = '';
+        while (index < line.length && !stops.includes(line[index])) {
+            token += line[index++];
+        }
+        return token;
+    };
+
+    const name = readToken(';:').toUpperCase();
+    if (!name) {
+        throw new ICalendarParseError('Missing property name', lineNumber);
+    }
+
+    while (line[index] === ';') {
+        index++;
+        const key = readToken('=;:').toUpperCase();
+        if (line[index] !== '=') {
+            throw new ICalendarParseError(`Malformed parameter "${key}" in ${name}`, lineNumber);
+        }
+        index++;
+        const values: string[] = [];
+        do {
+            if (line[index] === ',') index++;
+            if (line[index] === '"') {
+                const end = line.indexOf('"', index + 1);
+                if (end < 0) {
+                    throw new ICalendarParseError(`Unterminated quoted parameter in ${name}`, lineNumber);
+                }
+                values.push(line.slice(index + 1, end));
+                index = end + 1;
+            } else {
+                values.push(readToken(',;:'));
+            }
+        } while (line[index] === ',');
+        params[key] = values.join(',');
+    }
+
+    if (line[index] !== ':') {
+        throw new ICalendarParseError(`Missing ":" after ${name}`, lineNumber);
+    }
+
+    return { name, params, value: line.slice(index + 1) };
+}
+
+/**
+ * Parse iCalendar text into its top-level components (usually one VCALENDAR)
+ *
+ * Folded lines are unfolded; property values are kept raw (use unescapeText for TEXT values).
+ *
+ * @throws {ICalendarParseError} If the text is not well-formed
+ */
+export function parseICalendar(text: string): IcsComponent[] {
+    // Unfold: a line break followed by a space or tab continues the previous line
+    const physical = text.replace(/^\uFEFF/, '').split(/\r\n|\n|\r/);
+    const lines: Array<{ text: string; number: number }> = [];
+    physical.forEach((line, i) => {
+        if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+            lines[lines.length - 1].text += line.slice(1);
+        } else if (line.trim() !== '') {
+            lines.push({ text: line, number: i + 1 });
+        }
+    });
+
+    const roots: IcsComponent[] = [];
+    const stack: IcsComponent[] = [];
+
+    for (const line of lines) {
+        const property = parseContentLine(line.text, line.number);
+        if (property.name === 'BEGIN') {
+            const component = createComponent(property.value.trim().toUpperCase());
+            if (stack.length > 0) {
+                stack[stack.length - 1].components.push(component);
+            } else {
+                roots.push(component);
+            }
+            stack.push(component);
+        } else if (property.name === 'END') {
+            const name = property.value.trim().toUpperCase();
+            const open = stack.pop();
+            if (!open || open.name !== name) {
+                throw new ICalendarParseError(`Unexpected END:${name}`, line.number);
+            }
+        } else if (stack.length > 0) {
+            stack[stack.length - 1].properties.push(property);
+        } else {
+            throw new ICalendarParseError(`Property ${property.name} outside of a component`, line.number);
+        }
+    }
+
+    if (stack.length > 0) {
+        throw new ICalendarParseError(`Missing END:${stack[stack.length - 1].name}`);
+    }
+
+    return roots;
+}
+
+/**
+ * Get the first property with a name
+ */
+export function getProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+    return component.properties.find((property) => property.name === name);
+}
+
+/**
+ * Parse a DATE or DATE-TIME property value
+ *
+ * UTC values (trailing Z) are exact; values with a TZID are read in that
+ * zone; floating values and unknown TZIDs fall back to `fallbackTimeZone`.
+ *
+ * @returns The parsed value, or undefined if the value is malformed
+ */
+export function parseDateValue(property: IcsProperty, fallbackTimeZone: string): IcsDateValue | undefined {
+    const match = property.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) return undefined;
+
+    const [, year, month, day, hour, minute, second, utc] = match;
+    const tzid = property.params?.TZID;
+    const knownTzid = tzid && isValidTimeZone(tzid) ? tzid : undefined;
+    const timeZone = knownTzid ?? fallbackTimeZone;
+    const fields = { year: Number(year), month: Number(month), day: Number(day) };
+
+    if (hour === undefined) {
+        return { date: zonedTimeToDate(fields, timeZone), allDay: true, timeZone };
+    }
+
+    const time = { hour: Number(hour), minute: Number(minute), second: Number(second) };
+    const date = utc
+        ? new Date(Date.UTC(fields.year, fields.month - 1, fields.day, time.hour, time.minute, time.second))
+        : zonedTimeToDate({ ...fields, ...time }, timeZone);
+
+    return {
+        date,
+        allDay: false,
+        timeZone,
+        ...(tzid && !knownTzid && !utc && { unknownTzid: tzid }),
+    };
+}
+
+/**
+ * Parse a DURATION value (e.g. -PT15M, P1DT2H, P1W) in milliseconds
+ *
+ * @returns Duration in milliseconds, or undefined if the value is malformed
+ */
+export function parseDuration(value: string): number | undefined {
+    const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+    if (!match || value.trim().replace(/^[+-]/, '').toUpperCase() === 'P') return undefined;
+
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const ms = ((((Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 24 + Number(hours ?? 0)) * 60 +
+        Number(minutes ?? 0)) * 60 + Number(seconds ?? 0)) * 1000;
+    return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Format milliseconds as a DURATION value (e.g. -PT15M, P1DT9H, PT0S)
+ */
+export function formatDuration(ms: number): string {
+    const sign = ms < 0 ? '-' : '';
+    let seconds = Math.round(Math.abs(ms) / 1000);
+    const days = Math.floor(seconds / 86400);
+    seconds -= days * 86400;
+    const hours = Math.floor(seconds / 3600);
+    seconds -= hours * 3600;
+    const minutes = Math.floor(seconds / 60);
+    seconds -= minutes * 60;
+
+    let time = '';
+    if (hours) time += `${hours}H`;
+    if (minutes) time += `${minutes}M`;
+    if (seconds) time += `${seconds}S`;
+
+    if (!days && !time) return 'PT0S';
+    return `${sign}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+}
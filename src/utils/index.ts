@@ -6,4 +6,15 @@
 
 export * from './http.js';
 export * from './hash.js';
-export * from './batch.js';
\ No newline at end of file
+export * from './batch.js';
+export * from './rate-limiter.js';
+export * from './search.js';
+export * from './timezone.js';
+export * from './date-parser.js';
+export * from './date-range.js';
+export * from './task-filter.js';
+export * from './icalendar.js';
+export * from './task-calendar.js';
+export * from './recurrence.js';
+export * from './humanize.js';
+export * from './agenda.js';
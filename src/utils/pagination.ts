@@ -0,0 +1,128 @@
+/**
+ * Cursor Pagination
+ *
+ * Page through a result list with opaque cursors. The first page stores the
+ * complete result as a snapshot; later pages are read from that snapshot,
+ * so an agent walking a large list never misses or repeats items even if
+ * tasks change in between.
+ */
+
+import { randomUUID } from 'crypto';
+import { TtlCache } from '../api/cache.js';
+
+/**
+ * How long a snapshot can be paged through
+ */
+const SNAPSHOT_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Maximum number of snapshots kept (least recently used are dropped)
+ */
+const MAX_SNAPSHOTS = 20;
+
+/**
+ * Stored result list
+ */
+interface Snapshot<T, M> {
+    /** Tool that created the snapshot; cursors are only valid for the same tool */
+    scope: string;
+    items: T[];
+    meta: M;
+    createdAt: string;
+}
+
+/**
+ * One page of a result list
+ */
+export interface Page<T, M> {
+    items: T[];
+    /** Position of the first item in the whole list */
+    offset: number;
+    /** Number of items in the whole list */
+    totalItems: number;
+    /** Cursor for the next page, absent on the last page */
+    nextCursor?: string;
+    /** When the list was loaded (ISO 8601) */
+    snapshotAt: string;
+    /** Data stored with the snapshot by the first page */
+    meta: M;
+}
+
+/**
+ * Error thrown for unknown, expired or foreign cursors
+ */
+export class CursorError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CursorError';
+    }
+}
+
+const snapshots = new TtlCache<Snapshot<unknown, unknown>>(SNAPSHOT_TTL_MS, MAX_SNAPSHOTS);
+
+function encodeCursor(snapshotId: string, offset: number): string {
+    return Buffer.from(JSON.stringify({ s: snapshotId, o: offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { snapshotId: string; offset: number } {
+    try {
+        const { s, o } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as { s: unknown; o: unknown };
+        if (typeof s === 'string' && typeof o === 'number' && Number.isInteger(o) && o >= 0) {
+            return { snapshotId: s, offset: o };
+        }
+    } catch {
+        // Fall through to the error below
+    }
+    throw new CursorError('Invalid cursor. Pass nextCursor exactly as returned by the previous page');
+}
+
+function slicePage<T, M>(snapshotId: string, snapshot: Snapshot<T, M>, offset: number, pageSize: number): Page<T, M> {
+    const end = offset + pageSize;
+    return {
+        items: snapshot.items.slice(offset, end),
+        offset,
+        totalItems: snapshot.items.length,
+        ...(end < snapshot.items.length && { nextCursor: encodeCursor(snapshotId, end) }),
+        snapshotAt: snapshot.createdAt,
+        meta: snapshot.meta,
+    };
+}
+
+/**
+ * Return the first page of a list, keeping a snapshot if there are more pages
+ *
+ * @param scope - Tool name; cursors are rejected by other tools
+ * @param items - Complete result list
+ * @param meta - Data returned with every page (e.g. project details)
+ * @param pageSize - Items per page
+ */
+export function startPagination<T, M>(scope: string, items: T[], meta: M, pageSize: number): Page<T, M> {
+    const snapshot: Snapshot<T, M> = { scope, items, meta, createdAt: new Date().toISOString() };
+    const snapshotId = randomUUID();
+    if (items.length > pageSize) {
+        snapshots.set(snapshotId, snapshot);
+    }
+    return slicePage(snapshotId, snapshot, 0, pageSize);
+}
+
+/**
+ * Return the page a cursor points to
+ *
+ * @param scope - Tool name, must match the tool that created the cursor
+ * @param cursor - nextCursor of the previous page
+ * @param pageSize - Items per page (may differ from earlier pages)
+ * @throws {CursorError} If the cursor is malformed, expired or belongs to another tool
+ */
+export function continuePagination<T, M>(scope: string, cursor: string, pageSize: number): Page<T, M> {
+    const { snapshotId, offset } = decodeCursor(cursor);
+
+    const snapshot = snapshots.get(snapshotId) as Snapshot<T, M> | undefined;
+    if (!snapshot) {
+        throw new CursorError('Cursor expired or unknown. Start again without cursor to load a fresh list');
+    }
+    if (snapshot.scope !== scope) {
+        throw new CursorError(`Cursor belongs to '${snapshot.scope}', not '${scope}'`);
+    }
+
+    return slicePage(snapshotId, snapshot, offset, pageSize);
+}
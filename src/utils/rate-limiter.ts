@@ -0,0 +1,113 @@
+/**
+ * Rate Limiter Module
+ *
+ * Token-bucket rate limiter shared by all API requests in the process
+ */
+
+/**
+ * Rate limit configuration
+ */
+export interface RateLimitConfig {
+    /** Sustained request rate (tokens added per second); 0 disables limiting */
+    requestsPerSecond: number;
+    /** Bucket capacity: maximum number of requests allowed in a burst */
+    burst: number;
+}
+
+/**
+ * Token-bucket rate limiter
+ *
+ * The bucket starts full with `burst` tokens and refills at `requestsPerSecond`.
+ * Each request consumes one token; callers wait in FIFO order when the bucket is empty.
+ */
+export class TokenBucketRateLimiter {
+    private capacity: number;
+    private refillPerMs: number;
+    private tokens: number;
+    private lastRefill: number;
+    private waiters: Array<() => void> = [];
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(config: RateLimitConfig) {
+        this.capacity = Math.max(1, Math.floor(config.burst));
+        this.refillPerMs = Math.max(0, config.requestsPerSecond) / 1000;
+        this.tokens = this.capacity;
+        this.lastRefill = Date.now();
+    }
+
+    /**
+     * Check if rate limiting is enabled
+     */
+    isEnabled(): boolean {
+        return this.refillPerMs > 0;
+    }
+
+    /**
+     * Wait until a request is allowed to proceed
+     */
+    async acquire(): Promise<void> {
+        if (!this.isEnabled()) {
+            return;
+        }
+
+        // Only take a token directly if nobody is queued (keeps FIFO order)
+        if (this.waiters.length === 0) {
+            this.refill();
+            if (this.tokens >= 1) {
+                this.tokens -= 1;
+                return;
+            }
+        }
+
+        return new Promise((resolve) => {
+            this.waiters.push(resolve);
+            this.scheduleDrain();
+        });
+    }
+
+    /**
+     * Get number of callers currently waiting for a token
+     */
+    getPendingCount(): number {
+        return this.waiters.length;
+    }
+
+    /**
+     * Add tokens accumulated since the last refill
+     */
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+        this.lastRefill = now;
+    }
+
+    /**
+     * Schedule a wake-up for when the next token becomes available
+     */
+    private scheduleDrain(): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.refill();
+        const wait = Math.max(0, Math.ceil((1 - this.tokens) / this.refillPerMs));
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.drain();
+        }, wait);
+    }
+
+    /**
+     * Release as many waiters as there are tokens
+     */
+    private drain(): void {
+        this.refill();
+        while (this.waiters.length > 0 && this.tokens >= 1) {
+            this.tokens -= 1;
+            this.waiters.shift()!();
+        }
+        if (this.waiters.length > 0) {
+            this.scheduleDrain();
+        }
+    }
+}
@@ -0,0 +1,541 @@
+/**
+ * Recurrence Rules
+ *
+ * Parse and expand Dida365 repeat rules: iCalendar RRULEs (FREQ, INTERVAL,
+ * BYDAY, BYMONTHDAY, BYMONTH, BYSETPOS, COUNT, UNTIL, WKST) and TickTick's
+ * extensions (TT_SKIP, ERULE date lists). Occurrences are computed on the
+ * wall clock of the task's time zone, so they keep their time across DST.
+ */
+
+import { getZonedDateTime, zonedTimeToDate } from './timezone.js';
+
+/**
+ * Weekday in BYDAY, optionally with an ordinal (e.g. 2MO = second Monday, -1FR = last Friday)
+ */
+export interface WeekdayRule {
+    /** 0 = Sunday ... 6 = Saturday */
+    weekday: number;
+    ordinal?: number;
+}
+
+/**
+ * Calendar date (wall clock, no time zone)
+ */
+export interface CalendarDay {
+    year: number;
+    month: number;
+    day: number;
+}
+
+/**
+ * Parsed repeat rule
+ */
+export interface RecurrenceRule {
+    /** RRULE for regular rules, ERULE for TickTick's explicit date lists */
+    kind: 'RRULE' | 'ERULE';
+    freq?: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+    interval: number;
+    count?: number;
+    /** UNTIL as written: an instant (UTC or floating date-time) or a date */
+    until?: { fields: CalendarDay & { hour: number; minute: number; second: number }; utc: boolean; dateOnly: boolean };
+    byDay: WeekdayRule[];
+    byMonthDay: number[];
+    byMonth: number[];
+    bySetPos: number[];
+    /** First day of the week (WKST), 0 = Sunday ... 6 = Saturday */
+    weekStart: number;
+    /** TT_SKIP=WEEKEND: skip Saturdays and Sundays */
+    skipWeekends: boolean;
+    /** ERULE dates */
+    dates: CalendarDay[];
+    /** TickTick parts that are accepted but not applied when expanding (e.g. TT_SKIP=HOLIDAY) */
+    unsupported: string[];
+}
+
+/**
+ * Options for expanding a rule
+ */
+export interface ExpandOptions {
+    /** First occurrence of the series (the task's start or due date) */
+    start: Date;
+    /** Time zone the series repeats in */
+    timeZone: string;
+    /** Only return occurrences strictly after this instant (default: none) */
+    after?: Date;
+    /** Stop at occurrences after this instant (default: none) */
+    before?: Date;
+    /** Maximum number of occurrences to return */
+    limit: number;
+}
+
+/**
+ * Result of expanding a rule
+ */
+export interface ExpandResult {
+    occurrences: Date[];
+    /** True when the series ends (COUNT/UNTIL/ERULE) before reaching the limit */
+    exhausted: boolean;
+}
+
+/**
+ * Error thrown for malformed or unsupported repeat rules
+ */
+export class RecurrenceRuleError extends Error {
+    public rule: string;
+
+    constructor(rule: string, message: string) {
+        super(message);
+        this.name = 'RecurrenceRuleError';
+        this.rule = rule;
+    }
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+const SUB_DAILY_FREQUENCIES = ['SECONDLY', 'MINUTELY', 'HOURLY'];
+const UNSUPPORTED_PARTS = ['BYYEARDAY', 'BYWEEKNO', 'BYHOUR', 'BYMINUTE', 'BYSECOND'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Upper bound on the periods scanned, so rules that never match terminate
+ */
+const MAX_PERIODS = 100000;
+
+/**
+ * Last day occurrences are computed for (9999-12-31)
+ */
+const LAST_DAY = Date.UTC(9999, 11, 31) / DAY_MS;
+
+function parseInteger(rule: string, key: string, value: string, min: number, max: number, allowNegative = false): number {
+    if (!/^[+-]?\d+$/.test(value)) {
+        throw new RecurrenceRuleError(rule, `${key} must be an integer, got "${value}"`);
+    }
+    const number = Number(value);
+    const abs = Math.abs(number);
+    if ((number < 0 && !allowNegative) || abs < min || abs > max) {
+        const range = allowNegative ? `${min}..${max} or -${max}..-${min}` : `${min}..${max}`;
+        throw new RecurrenceRuleError(rule, `${key} must be in ${range}, got "${value}"`);
+    }
+    return number;
+}
+
+function parseIntegerList(rule: string, key: string, value: string, min: number, max: number, allowNegative = false): number[] {
+    return value.split(',').map((item) => parseInteger(rule, key, item.trim(), min, max, allowNegative));
+}
+
+function parseWeekday(rule: string, key: string, value: string): number {
+    const weekday = WEEKDAY_CODES.indexOf(value.toUpperCase());
+    if (weekday < 0) {
+        throw new RecurrenceRuleError(rule, `${key} has an invalid weekday "${value}" (use ${WEEKDAY_CODES.join(', ')})`);
+    }
+    return weekday;
+}
+
+function parseDay(rule: string, key: string, value: string): CalendarDay {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+    const day = match && { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+    if (!day || day.month < 1 || day.month > 12 || day.day < 1 || day.day > daysInMonth(day.year, day.month)) {
+        throw new RecurrenceRuleError(rule, `${key} has an invalid date "${value}" (use YYYYMMDD)`);
+    }
+    return day;
+}
+
+/**
+ * Parse a Dida365 repeatFlag ("RRULE:FREQ=WEEKLY;BYDAY=MO", "FREQ=DAILY",
+ * "ERULE:NAME=CUSTOM;BYDATE=20251201,20251215")
+ *
+ * @throws {RecurrenceRuleError} If the rule is malformed or uses unsupported parts
+ */
+export function parseRecurrenceRule(repeatFlag: string): RecurrenceRule {
+    const input = repeatFlag.trim();
+    if (!input) {
+        throw new RecurrenceRuleError(repeatFlag, 'Repeat rule is empty');
+    }
+
+    const prefix = input.match(/^(RRULE|ERULE):/i);
+    const kind = prefix ? (prefix[1].toUpperCase() as 'RRULE' | 'ERULE') : 'RRULE';
+    const body = prefix ? input.slice(prefix[0].length) : input;
+
+    const parts = new Map<string, string>();
+    for (const part of body.split(';').filter((p) => p.trim() !== '')) {
+        const separator = part.indexOf('=');
+        if (separator <= 0) {
+            throw new RecurrenceRuleError(repeatFlag, `Malformed part "${part}" (expected KEY=VALUE)`);
+        }
+        const key = part.slice(0, separator).trim().toUpperCase();
+        const value = part.slice(separator + 1).trim();
+        if (parts.has(key)) {
+            throw new RecurrenceRuleError(repeatFlag, `${key} appears more than once`);
+        }
+        if (value === '') {
+            throw new RecurrenceRuleError(repeatFlag, `${key} has no value`);
+        }
+        parts.set(key, value);
+    }
+
+    const rule: RecurrenceRule = {
+        kind,
+        interval: 1,
+        byDay: [],
+        byMonthDay: [],
+        byMonth: [],
+        bySetPos: [],
+        weekStart: 1,
+        skipWeekends: false,
+        dates: [],
+        unsupported: [],
+    };
+
+    if (kind === 'ERULE') {
+        const byDate = parts.get('BYDATE');
+        if (!byDate) {
+            throw new RecurrenceRuleError(repeatFlag, 'ERULE requires BYDATE (e.g. ERULE:NAME=CUSTOM;BYDATE=20251201,20251215)');
+        }
+        rule.dates = byDate.split(',').map((value) => parseDay(repeatFlag, 'BYDATE', value.trim()));
+        return rule;
+    }
+
+    for (const [key, value] of parts) {
+        switch (key) {
+            case 'FREQ': {
+                const freq = value.toUpperCase();
+                if (SUB_DAILY_FREQUENCIES.includes(freq)) {
+                    throw new RecurrenceRuleError(repeatFlag, `FREQ=${freq} is not supported by Dida365 (use DAILY, WEEKLY, MONTHLY or YEARLY)`);
+                }
+                if (!(FREQUENCIES as readonly string[]).includes(freq)) {
+                    throw new RecurrenceRuleError(repeatFlag, `Invalid FREQ "${value}" (use DAILY, WEEKLY, MONTHLY or YEARLY)`);
+                }
+                rule.freq = freq as RecurrenceRule['freq'];
+                break;
+            }
+            case 'INTERVAL':
+                rule.interval = parseInteger(repeatFlag, key, value, 1, 1000);
+                break;
+            case 'COUNT':
+                rule.count = parseInteger(repeatFlag, key, value, 1, 100000);
+                break;
+            case 'UNTIL': {
+                const match = value.match(/^(\d{8})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+                if (!match) {
+                    throw new RecurrenceRuleError(repeatFlag, `Invalid UNTIL "${value}" (use YYYYMMDD or YYYYMMDDTHHMMSSZ)`);
+                }
+                const day = parseDay(repeatFlag, key, match[1]);
+                const time = { hour: Number(match[2] ?? 0), minute: Number(match[3] ?? 0), second: Number(match[4] ?? 0) };
+                if (time.hour > 23 || time.minute > 59 || time.second > 59) {
+                    throw new RecurrenceRuleError(repeatFlag, `Invalid UNTIL time "${value}"`);
+                }
+                rule.until = { fields: { ...day, ...time }, utc: !!match[5], dateOnly: match[2] === undefined };
+                break;
+            }
+            case 'BYDAY':
+                rule.byDay = value.split(',').map((item) => {
+                    const match = item.trim().match(/^([+-]?\d{1,2})?([A-Za-z]{2})$/);
+                    if (!match) {
+                        throw new RecurrenceRuleError(repeatFlag, `Invalid BYDAY value "${item}" (e.g. MO, 2TU, -1FR)`);
+                    }
+                    const weekday = parseWeekday(repeatFlag, key, match[2]);
+                    if (match[1] === undefined) return { weekday };
+                    return { weekday, ordinal: parseInteger(repeatFlag, 'BYDAY ordinal', match[1], 1, 53, true) };
+                });
+                break;
+            case 'BYMONTHDAY':
+                rule.byMonthDay = parseIntegerList(repeatFlag, key, value, 1, 31, true);
+                break;
+            case 'BYMONTH':
+                rule.byMonth = parseIntegerList(repeatFlag, key, value, 1, 12);
+                break;
+            case 'BYSETPOS':
+                rule.bySetPos = parseIntegerList(repeatFlag, key, value, 1, 366, true);
+                break;
+            case 'WKST':
+                rule.weekStart = parseWeekday(repeatFlag, key, value);
+                break;
+            case 'TT_SKIP':
+                for (const skip of value.toUpperCase().split(',')) {
+                    if (skip === 'WEEKEND') {
+                        rule.skipWeekends = true;
+                    } else {
+                        rule.unsupported.push(`TT_SKIP=${skip}`);
+                    }
+                }
+                break;
+            default:
+                if (key.startsWith('TT_')) {
+                    rule.unsupported.push(`${key}=${value}`);
+                } else if (UNSUPPORTED_PARTS.includes(key)) {
+                    throw new RecurrenceRuleError(repeatFlag, `${key} is not supported by Dida365`);
+                } else {
+                    throw new RecurrenceRuleError(repeatFlag, `Unknown rule part "${key}"`);
+                }
+        }
+    }
+
+    if (!rule.freq) {
+        throw new RecurrenceRuleError(repeatFlag, 'FREQ is required (e.g. RRULE:FREQ=DAILY;INTERVAL=1)');
+    }
+    if (rule.count !== undefined && rule.until) {
+        throw new RecurrenceRuleError(repeatFlag, 'COUNT and UNTIL cannot be used together');
+    }
+    if (rule.byDay.some((d) => d.ordinal !== undefined) && rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+        throw new RecurrenceRuleError(repeatFlag, 'Numbered BYDAY values (e.g. 2MO) are only allowed with FREQ=MONTHLY or FREQ=YEARLY');
+    }
+    if (rule.byMonthDay.length > 0 && rule.freq === 'WEEKLY') {
+        throw new RecurrenceRuleError(repeatFlag, 'BYMONTHDAY cannot be used with FREQ=WEEKLY');
+    }
+    if (rule.bySetPos.length > 0 && rule.byDay.length === 0 && rule.byMonthDay.length === 0 && rule.byMonth.length === 0) {
+        throw new RecurrenceRuleError(repeatFlag, 'BYSETPOS requires BYDAY, BYMONTHDAY or BYMONTH');
+    }
+
+    return rule;
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function toDayNumber(day: CalendarDay): number {
+    return Date.UTC(day.year, day.month - 1, day.day) / DAY_MS;
+}
+
+function fromDayNumber(dayNumber: number): CalendarDay {
+    const date = new Date(dayNumber * DAY_MS);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function weekdayOf(dayNumber: number): number {
+    return new Date(dayNumber * DAY_MS).getUTCDay();
+}
+
+/**
+ * Days of a range (month or year) matching BYDAY, with ordinals counted within the range
+ */
+function matchWeekdays(firstDay: number, lastDay: number, byDay: WeekdayRule[]): number[] {
+    const days: number[] = [];
+    for (const rule of byDay) {
+        const matching: number[] = [];
+        const offset = (rule.weekday - weekdayOf(firstDay) + 7) % 7;
+        for (let day = firstDay + offset; day <= lastDay; day += 7) {
+            matching.push(day);
+        }
+        if (rule.ordinal === undefined) {
+            days.push(...matching);
+        } else {
+            const index = rule.ordinal > 0 ? rule.ordinal - 1 : matching.length + rule.ordinal;
+            if (index >= 0 && index < matching.length) days.push(matching[index]);
+        }
+    }
+    return days;
+}
+
+/**
+ * Days of a month matching BYMONTHDAY/BYDAY (or the start's day of month)
+ */
+function monthCandidates(year: number, month: number, rule: RecurrenceRule, startDay: number): number[] {
+    const length = daysInMonth(year, month);
+    const first = toDayNumber({ year, month, day: 1 });
+
+    const byMonthDay = rule.byMonthDay
+        .map((d) => (d > 0 ? d : length + 1 + d))
+        .filter((d) => d >= 1 && d <= length)
+        .map((d) => first + d - 1);
+    const byDay = matchWeekdays(first, first + length - 1, rule.byDay);
+
+    if (rule.byMonthDay.length > 0 && rule.byDay.length > 0) {
+        return byMonthDay.filter((d) => byDay.includes(d));
+    }
+    if (rule.byMonthDay.length > 0) return byMonthDay;
+    if (rule.byDay.length > 0) return byDay;
+    return startDay <= length ? [first + startDay - 1] : [];
+}
+
+/**
+ * First day of the period `index`
+ */
+function periodStart(rule: RecurrenceRule, start: CalendarDay, startDayNumber: number, index: number): number {
+    const step = index * rule.interval;
+
+    switch (rule.freq) {
+        case 'WEEKLY':
+            return startDayNumber - ((weekdayOf(startDayNumber) - rule.weekStart + 7) % 7) + step * 7;
+        case 'MONTHLY':
+            return toDayNumber({ year: start.year, month: start.month + step, day: 1 });
+        case 'YEARLY':
+            return toDayNumber({ year: start.year + step, month: 1, day: 1 });
+        default:
+            return startDayNumber + step;
+    }
+}
+
+/**
+ * Candidate days of the period `index` (before BYSETPOS)
+ */
+function periodCandidates(rule: RecurrenceRule, start: CalendarDay, startDayNumber: number, index: number): number[] {
+    const step = index * rule.interval;
+
+    switch (rule.freq) {
+        case 'DAILY':
+            return [startDayNumber + step];
+        case 'WEEKLY': {
+            const weekStart = periodStart(rule, start, startDayNumber, index);
+            const weekdays = rule.byDay.length > 0 ? rule.byDay.map((d) => d.weekday) : [weekdayOf(startDayNumber)];
+            const days: number[] = [];
+            for (let day = weekStart; day < weekStart + 7; day++) {
+                if (weekdays.includes(weekdayOf(day))) days.push(day);
+            }
+            return days;
+        }
+        case 'MONTHLY': {
+            const monthIndex = start.month - 1 + step;
+            const year = start.year + Math.floor(monthIndex / 12);
+            const month = (monthIndex % 12) + 1;
+            return monthCandidates(year, month, rule, start.day);
+        }
+        case 'YEARLY': {
+            const year = start.year + step;
+            if (rule.byMonth.length > 0) {
+                return rule.byMonth.flatMap((month) => monthCandidates(year, month, rule, start.day));
+            }
+            if (rule.byDay.length > 0) {
+                const first = toDayNumber({ year, month: 1, day: 1 });
+                const last = toDayNumber({ year, month: 12, day: 31 });
+                const days = matchWeekdays(first, last, rule.byDay);
+                if (rule.byMonthDay.length === 0) return days;
+                return days.filter((day) => {
+                    const { year: y, month: m, day: d } = fromDayNumber(day);
+                    const length = daysInMonth(y, m);
+                    return rule.byMonthDay.some((md) => (md > 0 ? md : length + 1 + md) === d);
+                });
+            }
+            if (rule.byMonthDay.length > 0) {
+                return Array.from({ length: 12 }, (_, i) => monthCandidates(year, i + 1, rule, start.day)).flat();
+            }
+            return start.day <= daysInMonth(year, start.month) ? [toDayNumber({ year, month: start.month, day: start.day })] : [];
+        }
+        default:
+            return [];
+    }
+}
+
+/**
+ * Apply the limiting parts (BYMONTH, BYMONTHDAY/BYDAY for shorter frequencies, TT_SKIP=WEEKEND) and BYSETPOS
+ */
+function limitCandidates(rule: RecurrenceRule, candidates: number[]): number[] {
+    let days = [...new Set(candidates)].sort((a, b) => a - b).filter((day) => {
+        const { year, month, day: dayOfMonth } = fromDayNumber(day);
+        if (rule.byMonth.length > 0 && !rule.byMonth.includes(month)) return false;
+        if (rule.freq === 'DAILY') {
+            if (rule.byDay.length > 0 && !rule.byDay.some((d) => d.weekday === weekdayOf(day))) return false;
+            const length = daysInMonth(year, month);
+            if (rule.byMonthDay.length > 0 && !rule.byMonthDay.some((md) => (md > 0 ? md : length + 1 + md) === dayOfMonth)) return false;
+        }
+        return true;
+    });
+
+    if (rule.bySetPos.length > 0) {
+        const selected = rule.bySetPos
+            .map((pos) => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+            .filter((day): day is number => day !== undefined);
+        days = [...new Set(selected)].sort((a, b) => a - b);
+    }
+
+    if (rule.skipWeekends) {
+        days = days.filter((day) => weekdayOf(day) !== 0 && weekdayOf(day) !== 6);
+    }
+
+    return days;
+}
+
+/**
+ * Wall-clock time of an instant in a time zone, as milliseconds on a UTC scale (for ordering)
+ */
+function wallClock(date: Date, timeZone: string): number {
+    const zoned = getZonedDateTime(date, timeZone);
+    return Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+}
+
+/**
+ * Expand a rule into occurrences
+ *
+ * The series starts at `start`; COUNT counts from there, and occurrences
+ * keep the wall-clock time of `start` in `timeZone`.
+ */
+export function expandRecurrence(rule: RecurrenceRule, options: ExpandOptions): ExpandResult {
+    const { timeZone, limit } = options;
+    const zonedStart = getZonedDateTime(options.start, timeZone);
+    const start: CalendarDay = { year: zonedStart.year, month: zonedStart.month, day: zonedStart.day };
+    const timeOfDay = (zonedStart.hour * 3600 + zonedStart.minute * 60 + zonedStart.second) * 1000;
+    const startClock = toDayNumber(start) * DAY_MS + timeOfDay;
+    const afterClock = options.after ? wallClock(options.after, timeZone) : -Infinity;
+    const beforeClock = options.before ? wallClock(options.before, timeZone) : Infinity;
+
+    let untilClock = Infinity;
+    if (rule.until) {
+        const { fields, utc, dateOnly } = rule.until;
+        const clock = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+        untilClock = dateOnly ? clock + DAY_MS - 1000 : utc ? wallClock(new Date(clock), timeZone) : clock;
+    }
+
+    const occurrences: Date[] = [];
+    const emit = (dayNumber: number): void => {
+        const day = fromDayNumber(dayNumber);
+        occurrences.push(zonedTimeToDate({
+            ...day,
+            hour: zonedStart.hour,
+            minute: zonedStart.minute,
+            second: zonedStart.second,
+        }, timeZone));
+    };
+
+    if (rule.kind === 'ERULE') {
+        const days = [...new Set(rule.dates.map(toDayNumber))].sort((a, b) => a - b);
+        for (const day of days) {
+            if (day * DAY_MS + timeOfDay <= afterClock) continue;
+            if (occurrences.length >= limit || day * DAY_MS + timeOfDay > beforeClock) return { occurrences, exhausted: false };
+            emit(day);
+        }
+        return { occurrences, exhausted: true };
+    }
+
+    const startDayNumber = toDayNumber(start);
+    let generated = 0;
+
+    for (let index = 0; index < MAX_PERIODS; index++) {
+        // Periods only move forward, so stop once a period begins after UNTIL
+        const firstDay = periodStart(rule, start, startDayNumber, index);
+        if (firstDay * DAY_MS > untilClock || firstDay > LAST_DAY) break;
+
+        const days = limitCandidates(rule, periodCandidates(rule, start, startDayNumber, index));
+
+        for (const day of days) {
+            const clock = day * DAY_MS + timeOfDay;
+            if (clock < startClock) continue;
+            if (clock > untilClock) return { occurrences, exhausted: true };
+            if (rule.count !== undefined && generated >= rule.count) return { occurrences, exhausted: true };
+
+            generated++;
+            if (clock <= afterClock) continue;
+            if (occurrences.length >= limit || clock > beforeClock) return { occurrences, exhausted: false };
+            emit(day);
+        }
+    }
+
+    return { occurrences, exhausted: rule.count !== undefined || rule.until !== undefined };
+}
+
+/**
+ * Validate the repeatFlag of a task create/update input before it is sent to the API
+ *
+ * An empty repeatFlag (which clears the rule) is accepted.
+ *
+ * @param label - Prefix for error messages, e.g. "tasks[0]"
+ * @throws {Error} If the rule is malformed, e.g. "tasks[0].repeatFlag: Invalid FREQ ..."
+ */
+export function validateRepeatFlag(repeatFlag: string | undefined, label: string): void {
+    if (repeatFlag === undefined || repeatFlag.trim() === '') return;
+
+    try {
+        parseRecurrenceRule(repeatFlag);
+    } catch (error) {
+        throw new Error(`${label}.repeatFlag: ${error instanceof Error ? error.message : String(error)}. See the dida365://icalendar-format resource or use 'preview_recurrence'`);
+    }
+}
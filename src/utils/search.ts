@@ -0,0 +1,425 @@
+/**
+ * Full-Text Search Utilities
+ *
+ * Query parsing, exact/fuzzy matching (Latin and CJK), ranking and
+ * highlighted snippets for searching tasks client-side.
+ */
+
+import type { Task } from '../api/types.js';
+
+/**
+ * Parsed query token
+ */
+export interface QueryToken {
+    text: string;
+    /** Quoted phrase: must match exactly (no fuzzy matching) */
+    phrase: boolean;
+}
+
+/**
+ * Search options
+ */
+export interface SearchOptions {
+    /** Match case exactly (default false) */
+    caseSensitive?: boolean;
+    /** Allow approximate matches (typos, partial CJK matches) (default true) */
+    fuzzy?: boolean;
+    /** "all": every token must match (default); "any": at least one token */
+    matchMode?: 'all' | 'any';
+}
+
+/**
+ * Searchable task field
+ */
+export type SearchField = 'title' | 'content' | 'desc' | 'items';
+
+/**
+ * Highlighted snippet for a matched field
+ */
+export interface SearchHighlight {
+    field: SearchField;
+    /** Text around the match with matched text wrapped in ** markers */
+    snippet: string;
+}
+
+/**
+ * Single search hit
+ */
+export interface SearchHit {
+    task: Task;
+    score: number;
+    matchedFields: SearchField[];
+    highlights: SearchHighlight[];
+}
+
+/**
+ * Relative importance of each field
+ */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+    title: 3,
+    items: 1.5,
+    content: 1,
+    desc: 1,
+};
+
+/**
+ * Score multiplier for fuzzy matches (exact matches score 1)
+ */
+const FUZZY_FACTOR = 0.6;
+
+/**
+ * Characters of context shown on each side of a match in snippets
+ */
+const SNIPPET_CONTEXT = 30;
+
+/**
+ * CJK characters (Han, Kana, Hangul)
+ */
+const CJK_REGEX = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
+
+/**
+ * Latin/number words
+ */
+const WORD_REGEX = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Quote pairs recognized as phrase delimiters
+ */
+const QUOTE_PAIRS: Record<string, string> = {
+    '"': '"',
+    '“': '”',
+    '「': '」',
+    '『': '』',
+};
+
+/**
+ * Parse a query into terms and quoted phrases
+ *
+ * @example parseQuery('report "Q3 budget" 周报') → [report], ["Q3 budget" (phrase)], [周报]
+ */
+export function parseQuery(query: string): QueryToken[] {
+    const tokens: QueryToken[] = [];
+    let i = 0;
+
+    while (i < query.length) {
+        const ch = query[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        const closing = QUOTE_PAIRS[ch];
+        if (closing) {
+            const end = query.indexOf(closing, i + 1);
+            const text = (end === -1 ? query.slice(i + 1) : query.slice(i + 1, end)).trim();
+            if (text) {
+                tokens.push({ text, phrase: true });
+            }
+            i = end === -1 ? query.length : end + 1;
+            continue;
+        }
+
+        let end = i;
+        while (end < query.length && !/\s/.test(query[end]) && !QUOTE_PAIRS[query[end]]) {
+            end++;
+        }
+        tokens.push({ text: query.slice(i, end), phrase: false });
+        i = end;
+    }
+
+    return tokens;
+}
+
+/**
+ * Get searchable text of each field of a task
+ */
+function getTaskFields(task: Task): Array<{ field: SearchField; text: string }> {
+    const fields: Array<{ field: SearchField; text: string }> = [];
+    if (task.title) fields.push({ field: 'title', text: task.title });
+    if (task.content) fields.push({ field: 'content', text: task.content });
+    if (task.desc) fields.push({ field: 'desc', text: task.desc });
+    if (task.items && task.items.length > 0) {
+        const itemText = task.items.map((item) => item.title).filter(Boolean).join(' · ');
+        if (itemText) fields.push({ field: 'items', text: itemText });
+    }
+    return fields;
+}
+
+/**
+ * Match result of a token within a field
+ */
+interface TokenMatch {
+    /** 0..1, where 1 is an exact match */
+    quality: number;
+    start: number;
+    end: number;
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and adjacent
+ * transpositions as one edit (optimal string alignment); returns max+1 once exceeded
+ */
+function editDistance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) {
+        return max + 1;
+    }
+
+    let prevPrev: number[] = [];
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const curr = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                curr[j] = Math.min(curr[j], prevPrev[j - 2] + 1);
+            }
+            rowMin = Math.min(rowMin, curr[j]);
+        }
+        if (rowMin > max) {
+            return max + 1;
+        }
+        prevPrev = prev;
+        prev = curr;
+    }
+    return prev[b.length];
+}
+
+/**
+ * Allowed typos for a Latin word of the given length
+ */
+function allowedEdits(length: number): number {
+    if (length >= 8) return 2;
+    if (length >= 4) return 1;
+    return 0;
+}
+
+/**
+ * Fuzzy match a Latin term against the words of a field (typos and prefixes)
+ */
+function fuzzyMatchLatin(term: string, text: string, caseSensitive: boolean): TokenMatch | null {
+    const maxEdits = allowedEdits(term.length);
+    let best: TokenMatch | null = null;
+
+    for (const match of text.matchAll(WORD_REGEX)) {
+        const word = match[0];
+        const start = match.index!;
+        let quality = 0;
+
+        // A case-only difference is not a typo when matching case-sensitively
+        if (caseSensitive && word.toLowerCase() === term.toLowerCase()) {
+            continue;
+        }
+
+        if (term.length >= 3 && word.startsWith(term)) {
+            // Prefix of a longer word
+            quality = term.length / word.length;
+        } else if (maxEdits > 0) {
+            const distance = editDistance(term, word, maxEdits);
+            if (distance <= maxEdits) {
+                quality = 1 - distance / Math.max(term.length, word.length);
+            }
+        }
+
+        if (quality > 0 && (!best || quality > best.quality)) {
+            best = { quality: quality * FUZZY_FACTOR, start, end: start + word.length };
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Character bigrams of a string
+ */
+function bigrams(text: string): string[] {
+    const chars = Array.from(text);
+    if (chars.length < 2) {
+        return chars;
+    }
+    const result: string[] = [];
+    for (let i = 0; i < chars.length - 1; i++) {
+        result.push(chars[i] + chars[i + 1]);
+    }
+    return result;
+}
+
+/**
+ * Fuzzy match a CJK term against a field using character bigram overlap
+ *
+ * CJK text has no word boundaries, so the term is compared with every
+ * window of the same length; e.g. "项目周报" still matches "项目的周报".
+ */
+function fuzzyMatchCjk(term: string, text: string): TokenMatch | null {
+    const termGrams = bigrams(term);
+    if (termGrams.length === 0) {
+        return null;
+    }
+
+    const windowSize = term.length + 1;
+    let best: TokenMatch | null = null;
+
+    for (let start = 0; start < text.length; start++) {
+        const window = text.slice(start, start + windowSize);
+        const windowGrams = new Set(bigrams(window));
+        const shared = termGrams.filter((gram) => windowGrams.has(gram)).length;
+        const quality = shared / termGrams.length;
+
+        if (quality >= 0.5 && (!best || quality * FUZZY_FACTOR > best.quality)) {
+            best = { quality: quality * FUZZY_FACTOR, start, end: Math.min(text.length, start + windowSize) };
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Find the best match of a token within a field
+ */
+function matchToken(token: QueryToken, text: string, options: Required<SearchOptions>): TokenMatch | null {
+    const haystack = options.caseSensitive ? text : text.toLowerCase();
+    const needle = options.caseSensitive ? token.text : token.text.toLowerCase();
+
+    const index = haystack.indexOf(needle);
+    if (index !== -1) {
+        return { quality: 1, start: index, end: index + needle.length };
+    }
+
+    if (token.phrase || !options.fuzzy) {
+        return null;
+    }
+
+    return CJK_REGEX.test(needle) ? fuzzyMatchCjk(needle, haystack) : fuzzyMatchLatin(needle, haystack, options.caseSensitive);
+}
+
+/**
+ * Build a snippet around a match, wrapping the matched text in ** markers
+ */
+function buildSnippet(text: string, start: number, end: number): string {
+    const from = Math.max(0, start - SNIPPET_CONTEXT);
+    const to = Math.min(text.length, end + SNIPPET_CONTEXT);
+    const prefix = from > 0 ? '…' : '';
+    const suffix = to < text.length ? '…' : '';
+    const clean = (s: string) => s.replace(/\s+/g, ' ');
+
+    return `${prefix}${clean(text.slice(from, start))}**${clean(text.slice(start, end))}**${clean(text.slice(end, to))}${suffix}`;
+}
+
+/**
+ * Search tasks and return ranked hits
+ *
+ * Each token contributes the score of its best field match (field weight × match quality).
+ * Tasks whose title contains the whole query get an extra boost.
+ *
+ * @param tasks - Tasks to search
+ * @param query - Query string (terms and "quoted phrases")
+ * @param searchOptions - Matching options
+ * @returns Hits sorted by score (highest first)
+ */
+export function searchTasks(tasks: Task[], query: string, searchOptions: SearchOptions = {}): SearchHit[] {
+    const options: Required<SearchOptions> = {
+        caseSensitive: searchOptions.caseSensitive ?? false,
+        fuzzy: searchOptions.fuzzy ?? true,
+        matchMode: searchOptions.matchMode ?? 'all',
+    };
+
+    const tokens = parseQuery(query);
+    if (tokens.length === 0) {
+        return [];
+    }
+
+    const fullQuery = options.caseSensitive ? query.trim() : query.trim().toLowerCase();
+    const hits: SearchHit[] = [];
+
+    for (const task of tasks) {
+        const fields = getTaskFields(task);
+        let score = 0;
+        let matchedTokens = 0;
+        const matchedFields = new Set<SearchField>();
+        const highlights = new Map<SearchField, SearchHighlight>();
+
+        for (const token of tokens) {
+            let bestScore = 0;
+            let bestField: { field: SearchField; text: string; match: TokenMatch } | null = null;
+
+            for (const { field, text } of fields) {
+                const match = matchToken(token, text, options);
+                if (!match) continue;
+
+                matchedFields.add(field);
+                const fieldScore = FIELD_WEIGHTS[field] * match.quality;
+                if (fieldScore > bestScore) {
+                    bestScore = fieldScore;
+                    bestField = { field, text, match };
+                }
+            }
+
+            if (bestField) {
+                matchedTokens++;
+                score += bestScore;
+                if (!highlights.has(bestField.field)) {
+                    highlights.set(bestField.field, {
+                        field: bestField.field,
+                        snippet: buildSnippet(bestField.text, bestField.match.start, bestField.match.end),
+                    });
+                }
+            }
+        }
+
+        const matched = options.matchMode === 'all' ? matchedTokens === tokens.length : matchedTokens > 0;
+        if (!matched) continue;
+
+        // Boost tasks whose title contains the full query
+        const title = options.caseSensitive ? task.title : task.title.toLowerCase();
+        if (tokens.length > 1 && title.includes(fullQuery)) {
+            score += FIELD_WEIGHTS.title;
+        }
+
+        hits.push({
+            task,
+            score: Math.round(score * 100) / 100,
+            matchedFields: Array.from(matchedFields),
+            highlights: Array.from(highlights.values()),
+        });
+    }
+
+    return hits.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Score how well a query matches a single piece of text
+ *
+ * Uses the same exact/fuzzy token matching as searchTasks.
+ *
+ * @param query - Query string (terms and "quoted phrases")
+ * @param text - Text to match against
+ * @param searchOptions - Matching options
+ * @returns Average match quality of the query tokens (0 = no match, 1 = every token matches exactly)
+ */
+export function scoreTextMatch(query: string, text: string, searchOptions: SearchOptions = {}): number {
+    const options: Required<SearchOptions> = {
+        caseSensitive: searchOptions.caseSensitive ?? false,
+        fuzzy: searchOptions.fuzzy ?? true,
+        matchMode: searchOptions.matchMode ?? 'all',
+    };
+
+    const tokens = parseQuery(query);
+    if (tokens.length === 0) {
+        return 0;
+    }
+
+    let total = 0;
+    let matchedTokens = 0;
+    for (const token of tokens) {
+        const match = matchToken(token, text, options);
+        if (match) {
+            matchedTokens++;
+            total += match.quality;
+        }
+    }
+
+    const matched = options.matchMode === 'all' ? matchedTokens === tokens.length : matchedTokens > 0;
+    return matched ? total / tokens.length : 0;
+}
@@ -0,0 +1,474 @@
+/**
+ * Task Calendar Mapping
+ *
+ * Render Dida365 tasks as iCalendar (RFC 5545) components (timed tasks
+ * become VEVENTs, all other tasks VTODOs), and read VTODO/VEVENT
+ * components back as task create requests.
+ */
+
+import type { CreateTaskRequest, Task } from '../api/types.js';
+import { APP_CONFIG } from '../config.js';
+import {
+    buildVTimezone,
+    createComponent,
+    escapeText,
+    formatDateTimeLocal,
+    formatDateTimeUtc,
+    formatDateValue,
+    formatDuration,
+    getProperty,
+    parseDateValue,
+    parseDuration,
+    parseICalendar,
+    serializeComponent,
+    unescapeText,
+    type IcsComponent,
+    type IcsDateValue,
+    type IcsProperty,
+} from './icalendar.js';
+import { parseRecurrenceRule } from './recurrence.js';
+import { formatApiDate } from './timezone.js';
+
+/**
+ * Options for rendering a task calendar
+ */
+export interface TaskCalendarOptions {
+    /** Calendar display name (X-WR-CALNAME) */
+    calendarName?: string;
+    /** Project names keyed by project ID, used as CATEGORIES */
+    projectNames?: Map<string, string>;
+    /** Time zone for tasks without one (defaults to the configured time zone) */
+    timeZone?: string;
+    /** Timestamp for DTSTAMP (defaults to now) */
+    now?: Date;
+}
+
+/**
+ * Rendered task calendar
+ */
+export interface TaskCalendar {
+    /** iCalendar text (VCALENDAR) */
+    ics: string;
+    /** Number of tasks rendered as VEVENT */
+    events: number;
+    /** Number of tasks rendered as VTODO */
+    todos: number;
+}
+
+/**
+ * Product identifier written to PRODID
+ */
+const PRODUCT_ID = '-//Dida365 MCP Server//EN';
+
+/**
+ * Dida365 priority → iCalendar PRIORITY (1 = highest, 9 = lowest)
+ */
+const PRIORITY_TO_ICS: Record<number, number> = { 5: 1, 3: 5, 1: 9 };
+
+/**
+ * Collected time zones and year range that need VTIMEZONE definitions
+ */
+interface TimeZoneUsage {
+    zones: Set<string>;
+    minYear: number;
+    maxYear: number;
+}
+
+function parseTaskDate(value: string | undefined): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Build a DTSTART/DUE/DTEND property for a task date
+ */
+function dateProperty(name: string, date: Date, allDay: boolean, timeZone: string, usage: TimeZoneUsage): IcsProperty {
+    if (allDay) {
+        return { name, params: { VALUE: 'DATE' }, value: formatDateValue(date, timeZone) };
+    }
+
+    usage.zones.add(timeZone);
+    const year = date.getUTCFullYear();
+    usage.minYear = Math.min(usage.minYear, year);
+    usage.maxYear = Math.max(usage.maxYear, year);
+    return { name, params: { TZID: timeZone }, value: formatDateTimeLocal(date, timeZone) };
+}
+
+/**
+ * Convert a Dida365 repeatFlag to RRULE/RDATE properties
+ *
+ * TickTick-specific parts (TT_SKIP, TT_WORKDAY, ...) have no iCalendar
+ * equivalent and are dropped. ERULE date lists become RDATE.
+ */
+export function repeatFlagToProperties(repeatFlag: string): IcsProperty[] {
+    const trimmed = repeatFlag.trim();
+    const separator = trimmed.indexOf(':');
+    const kind = separator >= 0 ? trimmed.slice(0, separator).toUpperCase() : 'RRULE';
+    const body = separator >= 0 ? trimmed.slice(separator + 1) : trimmed;
+    const parts = body.split(';').filter((part) => part && !part.toUpperCase().startsWith('TT_'));
+
+    if (kind === 'ERULE') {
+        const byDate = parts.find((part) => part.toUpperCase().startsWith('BYDATE='));
+        if (!byDate) return [];
+        return [{ name: 'RDATE', params: { VALUE: 'DATE' }, value: byDate.slice('BYDATE='.length) }];
+    }
+
+    if (!parts.some((part) => part.toUpperCase().startsWith('FREQ='))) return [];
+    return [{ name: 'RRULE', value: parts.join(';') }];
+}
+
+/**
+ * Build the DESCRIPTION text: content followed by checklist items
+ */
+function buildDescription(task: Task): string | undefined {
+    const lines: string[] = [];
+    const text = task.content || task.desc;
+    if (text) lines.push(text);
+
+    if (task.items && task.items.length > 0) {
+        if (lines.length > 0) lines.push('');
+        for (const item of task.items) {
+            lines.push(`${item.status === 1 ? '☑' : '☐'} ${item.title}`);
+        }
+    }
+
+    return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+/**
+ * Convert a task to a VEVENT (timed tasks) or VTODO (all other tasks)
+ */
+function taskToComponent(task: Task, options: TaskCalendarOptions, stamp: string, usage: TimeZoneUsage): IcsComponent {
+    const timeZone = task.timeZone || options.timeZone || APP_CONFIG.DATE.TIME_ZONE;
+    const start = parseTaskDate(task.startDate);
+    const due = parseTaskDate(task.dueDate);
+    const allDay = task.isAllDay === true;
+    const isEvent = !allDay && !!(start || due);
+    const repeat = task.repeatFlag ? repeatFlagToProperties(task.repeatFlag) : [];
+
+    const properties: IcsProperty[] = [
+        { name: 'UID', value: `${task.id}@dida365-mcp` },
+        { name: 'DTSTAMP', value: stamp },
+        { name: 'SUMMARY', value: escapeText(task.title || '') },
+    ];
+
+    let hasDue = false;
+    if (isEvent) {
+        const eventStart = (start ?? due)!;
+        properties.push(dateProperty('DTSTART', eventStart, false, timeZone, usage));
+        if (start && due && due > start) {
+            properties.push(dateProperty('DTEND', due, false, timeZone, usage));
+        }
+    } else {
+        // DUE must be later than DTSTART; recurring tasks need DTSTART to anchor the rule
+        const startsBeforeDue = start && (!due || start < due) &&
+            (!allDay || !due || formatDateValue(start, timeZone) !== formatDateValue(due, timeZone));
+        if (startsBeforeDue) {
+            properties.push(dateProperty('DTSTART', start, allDay, timeZone, usage));
+        } else if (due && repeat.length > 0) {
+            properties.push(dateProperty('DTSTART', due, allDay, timeZone, usage));
+        }
+        if (due && (startsBeforeDue || repeat.length === 0)) {
+            properties.push(dateProperty('DUE', due, allDay, timeZone, usage));
+            hasDue = true;
+        }
+        properties.push({ name: 'STATUS', value: task.status === 2 ? 'COMPLETED' : 'NEEDS-ACTION' });
+        const completed = parseTaskDate(task.completedTime);
+        if (task.status === 2 && completed) {
+            properties.push({ name: 'COMPLETED', value: formatDateTimeUtc(completed) });
+        }
+    }
+
+    const description = buildDescription(task);
+    if (description) {
+        properties.push({ name: 'DESCRIPTION', value: escapeText(description) });
+    }
+
+    const priority = PRIORITY_TO_ICS[task.priority ?? 0];
+    if (priority) {
+        properties.push({ name: 'PRIORITY', value: String(priority) });
+    }
+
+    const categories = [options.projectNames?.get(task.projectId), ...(task.tags ?? [])].filter(
+        (category): category is string => !!category
+    );
+    if (categories.length > 0) {
+        properties.push({ name: 'CATEGORIES', value: categories.map(escapeText).join(',') });
+    }
+
+    // Recurrence and alarms only make sense for dated tasks
+    const components: IcsComponent[] = [];
+    if (start || due) {
+        properties.push(...repeat);
+
+        for (const reminder of task.reminders ?? []) {
+            const trigger = reminder.replace(/^TRIGGER:/i, '').trim();
+            if (!trigger) continue;
+            components.push(createComponent('VALARM', [
+                { name: 'ACTION', value: 'DISPLAY' },
+                { name: 'DESCRIPTION', value: escapeText(task.title || 'Reminder') },
+                // Dida365 reminders are relative to the due time; VTODO triggers default to DTSTART
+                hasDue ? { name: 'TRIGGER', params: { RELATED: 'END' }, value: trigger } : { name: 'TRIGGER', value: trigger },
+            ]));
+        }
+    }
+
+    return createComponent(isEvent ? 'VEVENT' : 'VTODO', properties, components);
+}
+
+/**
+ * Render tasks as an iCalendar VCALENDAR
+ *
+ * @param tasks - Tasks to render
+ * @param options - Calendar name, project names and time zone defaults
+ */
+export function buildTaskCalendar(tasks: Task[], options: TaskCalendarOptions = {}): TaskCalendar {
+    const stamp = formatDateTimeUtc(options.now ?? new Date());
+    const usage: TimeZoneUsage = { zones: new Set(), minYear: Infinity, maxYear: -Infinity };
+
+    const components = tasks.map((task) => taskToComponent(task, options, stamp, usage));
+    const events = components.filter((component) => component.name === 'VEVENT').length;
+
+    const properties: IcsProperty[] = [
+        { name: 'VERSION', value: '2.0' },
+        { name: 'PRODID', value: PRODUCT_ID },
+        { name: 'CALSCALE', value: 'GREGORIAN' },
+        { name: 'METHOD', value: 'PUBLISH' },
+        { name: 'X-WR-CALNAME', value: escapeText(options.calendarName || 'Dida365') },
+        { name: 'X-WR-TIMEZONE', value: options.timeZone || APP_CONFIG.DATE.TIME_ZONE },
+    ];
+
+    // Recurring tasks may fire in later years, so cover at least the following year
+    const timeZones = [...usage.zones].map((zone) =>
+        buildVTimezone(zone, Math.max(usage.minYear, 1970), Math.min(usage.maxYear + 1, 2100))
+    );
+
+    const ics = serializeComponent(createComponent('VCALENDAR', properties, [...timeZones, ...components]));
+    return { ics, events, todos: components.length - events };
+}
+
+/**
+ * Task read from a VTODO/VEVENT component
+ */
+export interface IcsTaskCandidate {
+    /** Component UID (used for de-duplication) */
+    uid?: string;
+    /** Source component type */
+    component: 'VTODO' | 'VEVENT';
+    /** Create request without the target project */
+    request: Omit<CreateTaskRequest, 'projectId'>;
+    /** Properties that could not be mapped exactly */
+    warnings: string[];
+}
+
+/**
+ * Component that was not turned into a task
+ */
+export interface IcsSkippedComponent {
+    uid?: string;
+    title: string;
+    reason: string;
+}
+
+/**
+ * Result of reading tasks from iCalendar text
+ */
+export interface IcsTaskExtraction {
+    tasks: IcsTaskCandidate[];
+    skipped: IcsSkippedComponent[];
+}
+
+/**
+ * iCalendar PRIORITY (1 = highest, 9 = lowest) → Dida365 priority
+ */
+function priorityFromIcs(value: string | undefined): number | undefined {
+    const priority = Number(value);
+    if (!value || !Number.isInteger(priority) || priority <= 0 || priority > 9) return undefined;
+    if (priority <= 4) return 5;
+    if (priority === 5) return 3;
+    return 1;
+}
+
+/**
+ * Convert RRULE/RDATE properties to a Dida365 repeatFlag
+ */
+function repeatFlagFromComponent(component: IcsComponent, warnings: string[]): string | undefined {
+    const rrules = component.properties.filter((property) => property.name === 'RRULE');
+    if (rrules.length > 1) {
+        warnings.push('Only the first RRULE was imported');
+    }
+    if (component.properties.some((property) => property.name === 'EXDATE')) {
+        warnings.push('EXDATE exceptions were not imported');
+    }
+    if (rrules.length > 0) {
+        const repeatFlag = `RRULE:${rrules[0].value.trim().replace(/^RRULE:/i, '')}`;
+        try {
+            parseRecurrenceRule(repeatFlag);
+            return repeatFlag;
+        } catch (error) {
+            warnings.push(`Ignored RRULE: ${error instanceof Error ? error.message : String(error)}`);
+            return undefined;
+        }
+    }
+
+    const dates = component.properties
+        .filter((property) => property.name === 'RDATE')
+        .flatMap((property) => property.value.split(','))
+        .map((value) => value.trim().slice(0, 8))
+        .filter((value) => /^\d{8}$/.test(value));
+    return dates.length > 0 ? `ERULE:NAME=CUSTOM;BYDATE=${dates.join(',')}` : undefined;
+}
+
+/**
+ * Convert VALARM triggers to Dida365 reminders (relative to the task's anchor time)
+ */
+function remindersFromComponent(
+    component: IcsComponent,
+    start: IcsDateValue | undefined,
+    end: IcsDateValue | undefined,
+    anchor: Date | undefined,
+    warnings: string[]
+): string[] {
+    const reminders: string[] = [];
+    if (!anchor) return reminders;
+
+    for (const alarm of component.components.filter((child) => child.name === 'VALARM')) {
+        const trigger = getProperty(alarm, 'TRIGGER');
+        if (!trigger) continue;
+
+        let fireTime: number | undefined;
+        if (trigger.params?.VALUE === 'DATE-TIME') {
+            fireTime = parseDateValue(trigger, 'UTC')?.date.getTime();
+        } else {
+            const offset = parseDuration(trigger.value);
+            const related = trigger.params?.RELATED === 'END' ? end ?? start : start ?? end;
+            if (offset !== undefined && related) {
+                fireTime = related.date.getTime() + offset;
+            }
+        }
+
+        if (fireTime === undefined) {
+            warnings.push(`Unsupported alarm trigger "${trigger.value}"`);
+            continue;
+        }
+        const reminder = `TRIGGER:${formatDuration(fireTime - anchor.getTime())}`;
+        if (!reminders.includes(reminder)) reminders.push(reminder);
+    }
+
+    return reminders;
+}
+
+/**
+ * Convert a VTODO/VEVENT component to a task create request
+ */
+function componentToCandidate(component: IcsComponent, timeZone: string): IcsTaskCandidate {
+    const kind = component.name as 'VTODO' | 'VEVENT';
+    const warnings: string[] = [];
+    const text = (name: string) => {
+        const property = getProperty(component, name);
+        return property ? unescapeText(property.value).trim() : undefined;
+    };
+    const date = (name: string) => {
+        const property = getProperty(component, name);
+        if (!property) return undefined;
+        const value = parseDateValue(property, timeZone);
+        if (!value) {
+            warnings.push(`Ignored malformed ${name} "${property.value}"`);
+        } else if (value.unknownTzid) {
+            warnings.push(`Unknown TZID "${value.unknownTzid}" in ${name}, read as ${value.timeZone}`);
+        }
+        return value;
+    };
+
+    const start = date('DTSTART');
+    let end = date(kind === 'VTODO' ? 'DUE' : 'DTEND');
+    const duration = getProperty(component, 'DURATION');
+    if (!end && start && duration) {
+        const ms = parseDuration(duration.value);
+        if (ms !== undefined) {
+            end = { ...start, date: new Date(start.date.getTime() + ms) };
+        }
+    }
+
+    const allDay = (start ?? end)?.allDay ?? false;
+    const taskTimeZone = (start ?? end)?.timeZone ?? timeZone;
+    let dueDate = end?.date;
+    // All-day event ends are exclusive (DTEND is the day after the last day)
+    if (kind === 'VEVENT' && allDay && start && end && end.date > start.date) {
+        const lastDay = new Date(end.date.getTime() - 24 * 60 * 60 * 1000);
+        dueDate = lastDay > start.date ? lastDay : start.date;
+    }
+    const startDate = start?.date ?? dueDate;
+    dueDate = dueDate ?? start?.date;
+
+    // Dida365 reminders are relative to the start of events and the due time of to-dos
+    const anchor = kind === 'VEVENT' ? startDate : dueDate;
+    const reminders = remindersFromComponent(component, start, end, anchor, warnings);
+    const repeatFlag = startDate ? repeatFlagFromComponent(component, warnings) : undefined;
+    const priority = priorityFromIcs(getProperty(component, 'PRIORITY')?.value);
+    const description = text('DESCRIPTION');
+    const location = text('LOCATION');
+    const content = [description, location && `Location: ${location}`].filter(Boolean).join('\n\n');
+
+    const request: Omit<CreateTaskRequest, 'projectId'> = {
+        title: text('SUMMARY') || '(Untitled)',
+        ...(content && { content }),
+        ...(startDate && {
+            isAllDay: allDay,
+            startDate: formatApiDate(startDate, taskTimeZone),
+            dueDate: formatApiDate(dueDate!, taskTimeZone),
+            timeZone: taskTimeZone,
+        }),
+        ...(reminders.length > 0 && { reminders }),
+        ...(repeatFlag && { repeatFlag }),
+        ...(priority !== undefined && { priority }),
+    };
+
+    return { uid: text('UID') || undefined, component: kind, request, warnings };
+}
+
+/**
+ * Read VTODO and VEVENT components from iCalendar text as task create requests
+ *
+ * Completed/cancelled components, overrides of single recurrences
+ * (RECURRENCE-ID) and repeated UIDs are reported in `skipped`.
+ *
+ * @param text - iCalendar text
+ * @param timeZone - Time zone for floating times and unknown TZIDs (defaults to the configured time zone)
+ * @throws {ICalendarParseError} If the text is not well-formed
+ */
+export function extractTasksFromIcs(text: string, timeZone: string = APP_CONFIG.DATE.TIME_ZONE): IcsTaskExtraction {
+    const roots = parseICalendar(text);
+    const tasks: IcsTaskCandidate[] = [];
+    const skipped: IcsSkippedComponent[] = [];
+    const seenUids = new Set<string>();
+
+    const components = roots
+        .flatMap((root) => (root.name === 'VCALENDAR' ? root.components : [root]))
+        .filter((component) => component.name === 'VTODO' || component.name === 'VEVENT');
+
+    for (const component of components) {
+        const uid = getProperty(component, 'UID')?.value.trim() || undefined;
+        const title = unescapeText(getProperty(component, 'SUMMARY')?.value ?? '').trim() || '(Untitled)';
+        const status = getProperty(component, 'STATUS')?.value.trim().toUpperCase();
+
+        let reason: string | undefined;
+        if (getProperty(component, 'RECURRENCE-ID')) {
+            reason = 'Override of a single recurrence (RECURRENCE-ID)';
+        } else if (status === 'COMPLETED' || status === 'CANCELLED') {
+            reason = `Status is ${status}`;
+        } else if (uid && seenUids.has(uid)) {
+            reason = 'Duplicate UID in the file';
+        }
+
+        if (reason) {
+            skipped.push({ uid, title, reason });
+            continue;
+        }
+        if (uid) seenUids.add(uid);
+        tasks.push(componentToCandidate(component, timeZone));
+    }
+
+    return { tasks, skipped };
+}
@@ -0,0 +1,443 @@
+/**
+ * Task Filtering Utilities
+ *
+ * Date presets, date ranges, priority, tag and other filters shared by
+ * tools that select tasks (list_tasks, export_tasks_ics), and projection of
+ * recurring tasks into the filtered window. Ranges are resolved in the
+ * user's time zone (see date-range.ts).
+ */
+
+import type { Task } from '../api/types.js';
+import { APP_CONFIG } from '../config.js';
+import { parseDateExpression } from './date-parser.js';
+import { getPresetRange, getTaskComparableDate, type DatePreset } from './date-range.js';
+import { expandRecurrence, parseRecurrenceRule } from './recurrence.js';
+import { endOfZonedDay, formatApiDate } from './timezone.js';
+
+/**
+ * Resolve a range bound (ISO 8601 or natural language) to the API format
+ *
+ * A date-only upper bound ("tomorrow", "月底") covers the whole day.
+ */
+export function resolveRangeBound(value: string, field: string, isUpperBound: boolean): string {
+    try {
+        const parsed = parseDateExpression(value);
+        if (isUpperBound && !parsed.hasTime) {
+            return formatApiDate(endOfZonedDay(parsed.date, parsed.timeZone), parsed.timeZone);
+        }
+        return parsed.formatted;
+    } catch (error) {
+        throw new Error(`${field}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Task kinds
+ */
+export type TaskKind = 'TEXT' | 'NOTE' | 'CHECKLIST';
+
+/**
+ * How tag filters match: any of the tags, all of them, or none of them
+ */
+export type TagMatchMode = 'any' | 'all' | 'none';
+
+/**
+ * Task filter criteria
+ */
+export interface TaskFilterOptions {
+    /** Lower due date bound (API format) */
+    dueDateFrom?: string;
+    /** Upper due date bound (API format) */
+    dueDateTo?: string;
+    priority?: number[];
+    preset?: DatePreset;
+    /** Tags to match (case-insensitive, leading "#" ignored) */
+    tags?: string[];
+    /** How tags match (default "any") */
+    tagMode?: TagMatchMode;
+    /** Lower start date bound (API format) */
+    startDateFrom?: string;
+    /** Upper start date bound (API format) */
+    startDateTo?: string;
+    /** true: only tasks without a due date; false: only tasks with one */
+    noDueDate?: boolean;
+    kind?: TaskKind[];
+    /** Lowest share of completed checklist items, 0-1 (tasks without items never match) */
+    checklistMin?: number;
+    /** Highest share of completed checklist items, 0-1 (tasks without items never match) */
+    checklistMax?: number;
+    hasReminder?: boolean;
+    hasRepeat?: boolean;
+    /** Combine criteria with AND ("all", default) or OR ("any") */
+    match?: 'all' | 'any';
+}
+
+function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * Get the kind of a task (tasks without a kind are checklists if they have items)
+ */
+export function getTaskKind(task: Task): TaskKind {
+    const kind = task.kind?.toUpperCase();
+    if (kind === 'TEXT' || kind === 'NOTE' || kind === 'CHECKLIST') return kind;
+    return task.items && task.items.length > 0 ? 'CHECKLIST' : 'TEXT';
+}
+
+/**
+ * Get the share of completed checklist items, or undefined if the task has none
+ */
+export function getChecklistProgress(task: Task): number | undefined {
+    if (!task.items || task.items.length === 0) return undefined;
+    return task.items.filter((item) => item.status === 1).length / task.items.length;
+}
+
+/**
+ * Test whether a date falls within optional bounds
+ */
+function isWithin(date: Date | undefined, from?: Date, to?: Date): boolean {
+    if (!date) return false;
+    return (!from || date >= from) && (!to || date <= to);
+}
+
+/**
+ * Build one predicate per criterion that is set
+ *
+ * A due date range (dueDateFrom/dueDateTo) and a start date range each
+ * count as a single criterion.
+ */
+function buildPredicates(options: TaskFilterOptions): Array<(task: Task) => boolean> {
+    const predicates: Array<(task: Task) => boolean> = [];
+
+    // Preset date range (in the user's time zone)
+    if (options.preset) {
+        const { from, to } = getPresetRange(options.preset);
+        predicates.push((task) => isWithin(getTaskComparableDate(task.dueDate, task), from, to));
+    }
+
+    // Custom due date range
+    if (options.dueDateFrom || options.dueDateTo) {
+        const from = options.dueDateFrom ? new Date(options.dueDateFrom) : undefined;
+        const to = options.dueDateTo ? new Date(options.dueDateTo) : undefined;
+        predicates.push((task) => isWithin(getTaskComparableDate(task.dueDate, task), from, to));
+    }
+
+    // Start date range
+    if (options.startDateFrom || options.startDateTo) {
+        const from = options.startDateFrom ? new Date(options.startDateFrom) : undefined;
+        const to = options.startDateTo ? new Date(options.startDateTo) : undefined;
+        predicates.push((task) => isWithin(getTaskComparableDate(task.startDate, task), from, to));
+    }
+
+    if (options.noDueDate !== undefined) {
+        predicates.push((task) => !task.dueDate === options.noDueDate);
+    }
+
+    if (options.priority && options.priority.length > 0) {
+        const priorities = options.priority;
+        predicates.push((task) => priorities.includes(task.priority ?? 0));
+    }
+
+    if (options.tags && options.tags.length > 0) {
+        const wanted = options.tags.map(normalizeTag);
+        const mode = options.tagMode ?? 'any';
+        predicates.push((task) => {
+            const tags = new Set((task.tags ?? []).map(normalizeTag));
+            if (mode === 'all') return wanted.every((tag) => tags.has(tag));
+            if (mode === 'none') return !wanted.some((tag) => tags.has(tag));
+            return wanted.some((tag) => tags.has(tag));
+        });
+    }
+
+    if (options.kind && options.kind.length > 0) {
+        const kinds = options.kind;
+        predicates.push((task) => kinds.includes(getTaskKind(task)));
+    }
+
+    if (options.checklistMin !== undefined || options.checklistMax !== undefined) {
+        const min = options.checklistMin ?? 0;
+        const max = options.checklistMax ?? 1;
+        predicates.push((task) => {
+            const progress = getChecklistProgress(task);
+            return progress !== undefined && progress >= min && progress <= max;
+        });
+    }
+
+    if (options.hasReminder !== undefined) {
+        predicates.push((task) => (task.reminders?.length ?? 0) > 0 === options.hasReminder);
+    }
+
+    if (options.hasRepeat !== undefined) {
+        predicates.push((task) => !!task.repeatFlag === options.hasRepeat);
+    }
+
+    return predicates;
+}
+
+/**
+ * Check whether any filter criterion is set
+ */
+export function hasFilterCriteria(options: TaskFilterOptions): boolean {
+    return buildPredicates(options).length > 0;
+}
+
+/**
+ * Filter tasks based on criteria
+ *
+ * With match "all" (default) a task must meet every criterion that is set;
+ * with "any" it must meet at least one. Without criteria all tasks match.
+ */
+export function filterTasks<T extends Task>(tasks: T[], options: TaskFilterOptions): T[] {
+    const predicates = buildPredicates(options);
+    if (predicates.length === 0) return [...tasks];
+
+    return options.match === 'any'
+        ? tasks.filter((task) => predicates.some((predicate) => predicate(task)))
+        : tasks.filter((task) => predicates.every((predicate) => predicate(task)));
+}
+
+/**
+ * Future occurrence of a recurring task
+ *
+ * A copy of the task with its dates moved to the occurrence. It has the
+ * recurring task's ID; the occurrence itself does not exist on the server.
+ */
+export type ProjectedTask = Task & {
+    isProjection: true;
+    /** Due date of this occurrence (API format) */
+    occurrenceDate: string;
+};
+
+/**
+ * Maximum occurrences projected per recurring task
+ */
+const MAX_PROJECTIONS_PER_TASK = 366;
+
+/**
+ * Get the latest due date the filter criteria can match, if bounded
+ */
+export function getFilterUpperBound(options: TaskFilterOptions): Date | undefined {
+    // With OR semantics other criteria can match tasks outside the date window
+    if (options.match === 'any') return undefined;
+
+    const bounds: Date[] = [];
+    if (options.preset) bounds.push(getPresetRange(options.preset).to);
+    if (options.dueDateTo) bounds.push(new Date(options.dueDateTo));
+    return bounds.length > 0 ? new Date(Math.min(...bounds.map((d) => d.getTime()))) : undefined;
+}
+
+/**
+ * Project the future occurrences of recurring tasks up to a date
+ *
+ * Each recurring task's current due date is taken as the start of the
+ * series; occurrences after it and up to `until` are returned as
+ * projections. Tasks with malformed repeat rules are left alone, and so
+ * are rules with COUNT: the task does not record how many occurrences are
+ * already used up, so counting again from the current one would project
+ * occurrences past the end of a finished series.
+ *
+ * @param tasks - Tasks (non-recurring tasks are ignored)
+ * @param until - Last due date to project
+ * @param from - First due date to project; without it, an overdue task is
+ *   projected for every period since its due date
+ */
+export function projectRecurringTasks(tasks: Task[], until: Date, from?: Date): ProjectedTask[] {
+    const projections: ProjectedTask[] = [];
+
+    for (const task of tasks) {
+        if (!task.repeatFlag || !task.dueDate) continue;
+
+        const due = new Date(task.dueDate);
+        if (isNaN(due.getTime()) || due >= until) continue;
+
+        let rule;
+        try {
+            rule = parseRecurrenceRule(task.repeatFlag);
+        } catch {
+            continue;
+        }
+        if (rule.count !== undefined) continue;
+
+        const timeZone = task.timeZone || APP_CONFIG.DATE.TIME_ZONE;
+        const start = task.startDate ? new Date(task.startDate) : undefined;
+        const duration = start && !isNaN(start.getTime()) ? due.getTime() - start.getTime() : undefined;
+
+        const { occurrences } = expandRecurrence(rule, {
+            start: due,
+            timeZone,
+            // `after` is exclusive, so step back a millisecond to keep an occurrence at `from`
+            after: from && from > due ? new Date(from.getTime() - 1) : due,
+            before: until,
+            limit: MAX_PROJECTIONS_PER_TASK,
+        });
+
+        for (const occurrence of occurrences) {
+            const occurrenceDate = formatApiDate(occurrence, timeZone);
+            projections.push({
+                ...task,
+                dueDate: occurrenceDate,
+                ...(duration !== undefined && {
+                    startDate: formatApiDate(new Date(occurrence.getTime() - duration), timeZone),
+                }),
+                isProjection: true,
+                occurrenceDate,
+            });
+        }
+    }
+
+    return projections;
+}
+
+/**
+ * Task sort fields
+ */
+export type TaskSortField = 'dueDate' | 'priority' | 'createdTime';
+
+/**
+ * Sort tasks by specified field
+ */
+export function sortTasks<T extends Task>(
+    tasks: T[],
+    sortBy: TaskSortField = 'dueDate',
+    sortOrder: 'asc' | 'desc' = 'asc'
+): T[] {
+    const sorted = [...tasks];
+
+    sorted.sort((a, b) => {
+        let comparison = 0;
+
+        switch (sortBy) {
+            case 'dueDate': {
+                const dateA = a.dueDate ? new Date(a.dueDate).getTime() : Infinity;
+                const dateB = b.dueDate ? new Date(b.dueDate).getTime() : Infinity;
+                comparison = dateA - dateB;
+                break;
+            }
+            case 'priority': {
+                // Higher priority (5) should come first in desc, last in asc
+                const prioA = a.priority ?? 0;
+                const prioB = b.priority ?? 0;
+                comparison = prioA - prioB;
+                break;
+            }
+            case 'createdTime': {
+                // Use sortOrder as proxy for creation time
+                const orderA = a.sortOrder ?? 0;
+                const orderB = b.sortOrder ?? 0;
+                comparison = orderA - orderB;
+                break;
+            }
+        }
+
+        return sortOrder === 'desc' ? -comparison : comparison;
+    });
+
+    return sorted;
+}
+
+/**
+ * Task selection as given to list_tasks or saved in a smart list
+ *
+ * Date bounds are kept as written ("today", "下周一") and resolved each
+ * time the query runs.
+ */
+export interface TaskQuery {
+    projectId?: string | string[];
+    dueDateFrom?: string;
+    dueDateTo?: string;
+    priority?: number | number[];
+    preset?: DatePreset;
+    tags?: string | string[];
+    tagMode?: TagMatchMode;
+    startDateFrom?: string;
+    startDateTo?: string;
+    noDueDate?: boolean;
+    kind?: TaskKind | TaskKind[];
+    checklistMin?: number;
+    checklistMax?: number;
+    hasReminder?: boolean;
+    hasRepeat?: boolean;
+    match?: 'all' | 'any';
+    sortBy?: TaskSortField;
+    sortOrder?: 'asc' | 'desc';
+    expandRecurring?: boolean;
+}
+
+/**
+ * Query with its date bounds resolved
+ */
+export interface ResolvedTaskQuery {
+    /** Projects to load (undefined for all projects and the inbox) */
+    projectIds?: string[];
+    filter: TaskFilterOptions;
+    sortBy: TaskSortField;
+    sortOrder: 'asc' | 'desc';
+    /** Project recurring tasks up to this date */
+    projectUntil?: Date;
+    /** Resolved date bounds, if any were given */
+    resolvedRange?: {
+        dueDateFrom?: string;
+        dueDateTo?: string;
+        startDateFrom?: string;
+        startDateTo?: string;
+    };
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] | undefined {
+    if (value === undefined) return undefined;
+    return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Validate a query and resolve its date bounds
+ *
+ * @throws {Error} If a bound cannot be parsed or a value is out of range
+ */
+export function resolveTaskQuery(query: TaskQuery): ResolvedTaskQuery {
+    for (const [field, value] of [['checklistMin', query.checklistMin], ['checklistMax', query.checklistMax]] as const) {
+        if (value !== undefined && (value < 0 || value > 1)) {
+            throw new Error(`${field} must be between 0 and 1 (e.g. 0.5 for half done)`);
+        }
+    }
+
+    const dueDateFrom = query.dueDateFrom ? resolveRangeBound(query.dueDateFrom, 'dueDateFrom', false) : undefined;
+    const dueDateTo = query.dueDateTo ? resolveRangeBound(query.dueDateTo, 'dueDateTo', true) : undefined;
+    const startDateFrom = query.startDateFrom ? resolveRangeBound(query.startDateFrom, 'startDateFrom', false) : undefined;
+    const startDateTo = query.startDateTo ? resolveRangeBound(query.startDateTo, 'startDateTo', true) : undefined;
+
+    const filter: TaskFilterOptions = {
+        dueDateFrom,
+        dueDateTo,
+        priority: toArray(query.priority),
+        preset: query.preset,
+        tags: toArray(query.tags),
+        tagMode: query.tagMode,
+        startDateFrom,
+        startDateTo,
+        noDueDate: query.noDueDate,
+        kind: toArray(query.kind),
+        checklistMin: query.checklistMin,
+        checklistMax: query.checklistMax,
+        hasReminder: query.hasReminder,
+        hasRepeat: query.hasRepeat,
+        match: query.match,
+    };
+
+    // Recurring tasks are projected up to the end of the window
+    const projectUntil = query.expandRecurring ? getFilterUpperBound(filter) : undefined;
+    if (query.expandRecurring && (query.preset === 'overdue' || !projectUntil)) {
+        throw new Error('expandRecurring requires preset "today", "tomorrow" or "thisWeek", or dueDateTo (and match "all")');
+    }
+
+    return {
+        projectIds: toArray(query.projectId),
+        filter,
+        sortBy: query.sortBy ?? 'dueDate',
+        sortOrder: query.sortOrder ?? 'asc',
+        projectUntil,
+        ...((dueDateFrom || dueDateTo || startDateFrom || startDateTo) && {
+            resolvedRange: { dueDateFrom, dueDateTo, startDateFrom, startDateTo },
+        }),
+    };
+}
@@ -0,0 +1,144 @@
+/**
+ * Time Zone Utilities
+ *
+ * Convert between instants and wall-clock time in an IANA time zone using
+ * Intl, and format dates the way the Dida365 API expects.
+ */
+
+/**
+ * Wall-clock date and time in a time zone
+ */
+export interface ZonedDateTime {
+    year: number;
+    /** 1-12 */
+    month: number;
+    /** 1-31 */
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    /** 0 = Sunday ... 6 = Saturday */
+    weekday: number;
+}
+
+/**
+ * Cached formatters per time zone (creating Intl formatters is expensive)
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+            weekday: 'short',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * Check if a string is a valid IANA time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get the time zone of the server process
+ */
+export function getSystemTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Get the wall-clock date and time of an instant in a time zone
+ */
+export function getZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+    const parts: Record<string, string> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+        parts[part.type] = part.value;
+    }
+
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+        weekday: WEEKDAYS[parts.weekday],
+    };
+}
+
+/**
+ * Get the UTC offset of a time zone at an instant, in minutes (e.g. 480 for UTC+8)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+    const zoned = getZonedDateTime(date, timeZone);
+    const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+    return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Convert a wall-clock date and time in a time zone to an instant
+ *
+ * Out-of-range fields roll over (e.g. day 32 becomes the next month), so
+ * callers can do calendar arithmetic on the fields directly.
+ */
+export function zonedTimeToDate(
+    fields: Pick<ZonedDateTime, 'year' | 'month' | 'day'> & Partial<Pick<ZonedDateTime, 'hour' | 'minute' | 'second'>>,
+    timeZone: string
+): Date {
+    const asUtc = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour ?? 0, fields.minute ?? 0, fields.second ?? 0);
+
+    // Guess with the offset at the naive instant, then correct once for DST transitions
+    const guess = asUtc - getTimeZoneOffset(new Date(asUtc), timeZone) * 60000;
+    const corrected = asUtc - getTimeZoneOffset(new Date(guess), timeZone) * 60000;
+    if (corrected === guess || getTimeZoneOffset(new Date(corrected), timeZone) * 60000 === asUtc - corrected) {
+        return new Date(corrected);
+    }
+
+    // Wall-clock time skipped by a DST gap: move forward by the gap (e.g. 02:30 → 03:30)
+    return new Date(Math.max(guess, corrected));
+}
+
+/**
+ * Get the last second of the day containing an instant, in a time zone
+ */
+export function endOfZonedDay(date: Date, timeZone: string): Date {
+    const zoned = getZonedDateTime(date, timeZone);
+    const nextDay = zonedTimeToDate({ year: zoned.year, month: zoned.month, day: zoned.day + 1 }, timeZone);
+    return new Date(nextDay.getTime() - 1000);
+}
+
+function pad(value: number, length = 2): string {
+    return String(Math.abs(value)).padStart(length, '0');
+}
+
+/**
+ * Format an instant in the Dida365 API format yyyy-MM-dd'T'HH:mm:ssZ (e.g. 2025-11-25T17:00:00+0800)
+ */
+export function formatApiDate(date: Date, timeZone: string): string {
+    const zoned = getZonedDateTime(date, timeZone);
+    const offset = getTimeZoneOffset(date, timeZone);
+    const sign = offset < 0 ? '-' : '+';
+
+    return `${pad(zoned.year, 4)}-${pad(zoned.month)}-${pad(zoned.day)}T${pad(zoned.hour)}:${pad(zoned.minute)}:${pad(zoned.second)}` +
+        `${sign}${pad(Math.floor(Math.abs(offset) / 60))}${pad(Math.abs(offset) % 60)}`;
+}